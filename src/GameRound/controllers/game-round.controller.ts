@@ -0,0 +1,152 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAccessGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUserId } from '../../auth/decorators/current-user.decorator';
+import { RolesGuard } from '../../security/guards/roles.guard';
+import { AdminOnly } from '../../security/decorators/security.decorators';
+import { GameRoundService } from '../services/game-round.service';
+import { toPublicRound, toPublicStatistics } from '../round-view.util';
+import {
+  CreateRoundRequestDto,
+  ExtendRoundRequestDto,
+  RevealHintRequestDto,
+  SessionRoundsQueryDto,
+  SkipRoundRequestDto,
+  StartRoundRequestDto,
+  SubmitAnswerRequestDto,
+} from '../dto/game-round.dto';
+
+@Controller('game-rounds')
+@UseGuards(JwtAccessGuard)
+export class GameRoundController {
+  constructor(private readonly gameRoundService: GameRoundService) {}
+
+  @Post()
+  async createRound(@Body() dto: CreateRoundRequestDto, @CurrentUserId() userId: string) {
+    await this.gameRoundService.assertSessionHost(dto.sessionId, userId);
+    return toPublicRound(await this.gameRoundService.createRound(dto));
+  }
+
+  @Get('session/:sessionId')
+  async getSessionRounds(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Query() query: SessionRoundsQueryDto,
+    @CurrentUserId() userId: string,
+  ) {
+    await this.gameRoundService.assertSessionMember(sessionId, userId);
+    const rounds = await this.gameRoundService.getSessionRounds(sessionId, query);
+    return rounds.map(toPublicRound);
+  }
+
+  // Replays and disputes: rebuilds the question from the round's seed
+  @Get('session/:sessionId/:roundNumber/regenerate')
+  @UseGuards(RolesGuard)
+  @AdminOnly()
+  regenerateQuestion(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Param('roundNumber', ParseIntPipe) roundNumber: number,
+    @Query('seed') seed?: string,
+  ) {
+    return this.gameRoundService.regenerateQuestion(sessionId, roundNumber, seed);
+  }
+
+  @Get(':id')
+  async getRound(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    const round = await this.gameRoundService.getRound(id, true);
+    await this.gameRoundService.assertSessionMember(round.sessionId, userId);
+    return toPublicRound(round);
+  }
+
+  @Get(':id/statistics')
+  async getRoundStatistics(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    const statistics = await this.gameRoundService.getRoundStatistics(id);
+    await this.gameRoundService.assertSessionMember(statistics.round.sessionId, userId);
+    return toPublicStatistics(statistics);
+  }
+
+  @Post(':id/start')
+  @HttpCode(HttpStatus.OK)
+  async startRound(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: StartRoundRequestDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionHost(round.sessionId, userId);
+    return toPublicRound(await this.gameRoundService.startRound({ roundId: id, ...dto }));
+  }
+
+  @Post(':id/answers')
+  @HttpCode(HttpStatus.OK)
+  async submitAnswer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SubmitAnswerRequestDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionMember(round.sessionId, userId);
+    return this.gameRoundService.submitAnswer({ roundId: id, playerId: userId, answer: dto.answer });
+  }
+
+  @Get(':id/hints')
+  async getHints(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionMember(round.sessionId, userId);
+    return this.gameRoundService.getHintStatus(id, userId);
+  }
+
+  @Post(':id/hints')
+  @HttpCode(HttpStatus.OK)
+  async revealHint(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RevealHintRequestDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionMember(round.sessionId, userId);
+    return this.gameRoundService.revealHint(id, userId, dto.index);
+  }
+
+  @Post(':id/extend')
+  @HttpCode(HttpStatus.OK)
+  async extendRound(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ExtendRoundRequestDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionHost(round.sessionId, userId);
+    return toPublicRound(await this.gameRoundService.extendRoundTime(id, dto.extensionMs, dto.reason));
+  }
+
+  @Post(':id/skip')
+  @HttpCode(HttpStatus.OK)
+  async skipRound(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SkipRoundRequestDto,
+    @CurrentUserId() userId: string,
+  ) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionHost(round.sessionId, userId);
+    return this.gameRoundService.skipRound(id, dto.reason);
+  }
+
+  @Post(':id/end')
+  @HttpCode(HttpStatus.OK)
+  async endRound(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    const round = await this.gameRoundService.getRound(id);
+    await this.gameRoundService.assertSessionHost(round.sessionId, userId);
+    return this.gameRoundService.endRound(id);
+  }
+}
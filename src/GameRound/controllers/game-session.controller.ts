@@ -0,0 +1,34 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, UseGuards } from '@nestjs/common';
+import { JwtAccessGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUserId } from '../../auth/decorators/current-user.decorator';
+import { GameRoundService } from '../services/game-round.service';
+import { GameSessionOrchestratorService } from '../services/game-session-orchestrator.service';
+import { toPublicRound } from '../round-view.util';
+
+@Controller('game-sessions')
+@UseGuards(JwtAccessGuard)
+export class GameSessionController {
+  constructor(
+    private readonly orchestrator: GameSessionOrchestratorService,
+    private readonly gameRoundService: GameRoundService,
+  ) {}
+
+  // Builds the playlist from the session settings and runs every round automatically
+  @Post(':id/start')
+  @HttpCode(HttpStatus.OK)
+  async startSession(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    return toPublicRound(await this.orchestrator.startSession(id, userId));
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  cancelSession(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    return this.orchestrator.cancelSession(id, userId);
+  }
+
+  @Get(':id/standings')
+  async getStandings(@Param('id', ParseUUIDPipe) id: string, @CurrentUserId() userId: string) {
+    await this.gameRoundService.assertSessionMember(id, userId);
+    return this.orchestrator.getStandings(id);
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  registerDecorator,
+  ValidationOptions,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { QuestionType } from '../entities/game-round.entity';
+import { LyricSectionType } from '../entities/song.entity';
+
+const MAX_ANSWER_LENGTH = 500;
+const MAX_EXTENSION_MS = 5 * 60 * 1000;
+const SECTION_TYPES: LyricSectionType[] = ['intro', 'verse', 'pre_chorus', 'chorus', 'post_chorus', 'bridge', 'outro', 'other'];
+
+// A text answer, an option index, or one text per blank for lyric completion
+export function IsRoundAnswer(validationOptions?: ValidationOptions) {
+  return function (object: Object, propertyName: string) {
+    registerDecorator({
+      name: 'isRoundAnswer',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: any) {
+          if (typeof value === 'number') return Number.isInteger(value) && value >= 0;
+          if (typeof value === 'string') return value.length <= MAX_ANSWER_LENGTH;
+          return (
+            Array.isArray(value) &&
+            value.length > 0 &&
+            value.every(part => typeof part === 'string' && part.length <= MAX_ANSWER_LENGTH)
+          );
+        },
+        defaultMessage() {
+          return 'Answer must be a string, an option index, or a list of strings';
+        },
+      },
+    });
+  };
+}
+
+export class CreateRoundRequestDto {
+  @IsUUID()
+  sessionId: string;
+
+  @IsUUID()
+  songId: string;
+
+  @IsEnum(QuestionType)
+  @IsOptional()
+  questionType?: QuestionType;
+
+  @IsIn(['easy', 'medium', 'hard'])
+  @IsOptional()
+  difficulty?: 'easy' | 'medium' | 'hard';
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(5000)
+  @Max(300000)
+  @IsOptional()
+  timeLimitMs?: number;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @Max(10000)
+  @IsOptional()
+  maxPoints?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  includeHints?: boolean;
+
+  @IsArray()
+  @IsIn(SECTION_TYPES, { each: true })
+  @IsOptional()
+  preferSections?: LyricSectionType[];
+
+  @IsString()
+  @MaxLength(64)
+  @IsOptional()
+  seed?: string;
+}
+
+export class StartRoundRequestDto {
+  @IsBoolean()
+  @IsOptional()
+  autoEnd?: boolean;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  @Max(MAX_EXTENSION_MS)
+  @IsOptional()
+  timeExtension?: number;
+}
+
+export class SubmitAnswerRequestDto {
+  @IsNotEmpty()
+  @IsRoundAnswer()
+  answer: string | number | string[];
+}
+
+export class ExtendRoundRequestDto {
+  @IsInt()
+  @Type(() => Number)
+  @Min(1000)
+  @Max(MAX_EXTENSION_MS)
+  extensionMs: number;
+
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+}
+
+export class SkipRoundRequestDto {
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+}
+
+// The index shown as `next` in the hint status, so the player confirms the hint and penalty they saw
+export class RevealHintRequestDto {
+  @IsInt()
+  @Min(0)
+  index: number;
+}
+
+export class SessionRoundsQueryDto {
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+}
+
+// Socket payloads identify the round in the message body
+export class RoundActionMessageDto {
+  @IsUUID()
+  roundId: string;
+}
+
+export class JoinSessionMessageDto {
+  @IsUUID()
+  sessionId: string;
+}
+
+export class StartRoundMessageDto extends StartRoundRequestDto {
+  @IsUUID()
+  roundId: string;
+}
+
+export class SubmitAnswerMessageDto extends SubmitAnswerRequestDto {
+  @IsUUID()
+  roundId: string;
+}
+
+export class ExtendRoundMessageDto extends ExtendRoundRequestDto {
+  @IsUUID()
+  roundId: string;
+}
+
+export class SkipRoundMessageDto extends SkipRoundRequestDto {
+  @IsUUID()
+  roundId: string;
+}
+
+export class RevealHintMessageDto extends RevealHintRequestDto {
+  @IsUUID()
+  roundId: string;
+}
@@ -8,7 +8,7 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
-import { GameSession } from './game-session.entity';
+import { GameSession, ScoringSettings } from './game-session.entity';
 import { Song } from './song.entity';
 
 export enum QuestionType {
@@ -17,6 +17,28 @@ export enum QuestionType {
   FILL_IN_BLANK = 'fill_in_blank',
   AUDIO_CLIP = 'audio_clip',
   LYRICS_GUESS = 'lyrics_guess',
+  LYRIC_COMPLETION = 'lyric_completion',
+}
+
+// Ordered from least to most revealing within a question
+export enum HintType {
+  CONTEXT = 'context', // artist, year or genre
+  WORD_COUNT = 'word_count',
+  NEXT_LINE = 'next_line',
+  FIRST_LETTER = 'first_letter',
+}
+
+export interface RoundHint {
+  type: HintType;
+  text: string;
+}
+
+export interface PlayerAnswerRecord {
+  answer: string | number | string[];
+  submittedAt: Date;
+  timeElapsed: number; // milliseconds
+  isCorrect: boolean;
+  pointsAwarded: number; // negative under negative marking
 }
 
 export enum RoundStatus {
@@ -26,8 +48,11 @@ export enum RoundStatus {
   SKIPPED = 'skipped',
 }
 
+// Named so a concurrent createRound can recognise that its round number was taken
+export const ROUND_NUMBER_INDEX = 'UQ_game_rounds_session_round_number';
+
 @Entity('game_rounds')
-@Index(['sessionId', 'roundNumber'])
+@Index(ROUND_NUMBER_INDEX, ['sessionId', 'roundNumber'], { unique: true })
 @Index(['sessionId', 'status'])
 @Index(['createdAt'])
 export class GameRound {
@@ -64,22 +89,18 @@ export class GameRound {
   questionData: {
     question: string;
     options?: string[];
-    correctAnswer: string | number;
-    hints?: string[];
+    correctAnswer: string | number | string[]; // ordered per blank for LYRIC_COMPLETION
+    romanizedAnswer?: string | string[]; // accepted alongside non-Latin answers
+    hints?: RoundHint[]; // revealed to each player on request
     audioClipStart?: number; // seconds
     audioClipDuration?: number; // seconds
     lyricsSnippet?: string;
+    blankOptions?: string[][]; // choices per blank for LYRIC_COMPLETION
   };
 
-  // Player answers stored as JSON
+  // Player answers stored as JSON, as graded and scored by ScoringService
   @Column('jsonb', { default: {} })
-  answers: Record<string, {
-    answer: string | number;
-    submittedAt: Date;
-    timeElapsed: number; // milliseconds
-    isCorrect: boolean;
-    pointsAwarded: number;
-  }>;
+  answers: Record<string, PlayerAnswerRecord>;
 
   // Timing fields
   @Column({ name: 'start_time', type: 'timestamp', nullable: true })
@@ -141,6 +162,9 @@ export class GameRound {
       year?: number;
     };
     gameSettings?: Record<string, any>;
+    scoring?: ScoringSettings;
+    seed?: string; // combined with sessionId and roundNumber to regenerate the question
+    autoEnd?: boolean; // false when the host ends the round by hand instead of at its deadline
     customData?: Record<string, any>;
   };
 
@@ -170,46 +194,19 @@ export class GameRound {
     return this.status === RoundStatus.COMPLETED;
   }
 
+  // Completed or skipped; either way the round cannot end again
+  isFinished(): boolean {
+    return this.status === RoundStatus.COMPLETED || this.status === RoundStatus.SKIPPED;
+  }
+
   getRemainingTime(): number {
     if (!this.startTime) return this.timeLimitMs;
     const elapsed = Date.now() - this.startTime.getTime();
     return Math.max(0, this.timeLimitMs - elapsed);
   }
 
-  calculatePoints(responseTime: number, isCorrect: boolean): number {
-    if (!isCorrect) return 0;
-    
-    const timeBonus = Math.max(0, (this.timeLimitMs - responseTime) / this.timeLimitMs);
-    const basePoints = this.maxPoints * this.difficultyMultiplier;
-    return Math.round(basePoints * (0.5 + 0.5 * timeBonus));
-  }
-
-  addPlayerAnswer(
-    playerId: string, 
-    answer: string | number, 
-    submittedAt: Date = new Date()
-  ): void {
-    const responseTime = this.startTime 
-      ? submittedAt.getTime() - this.startTime.getTime()
-      : 0;
-    
-    const isCorrect = this.checkAnswer(answer);
-    const pointsAwarded = this.calculatePoints(responseTime, isCorrect);
-
-    this.answers[playerId] = {
-      answer,
-      submittedAt,
-      timeElapsed: responseTime,
-      isCorrect,
-      pointsAwarded,
-    };
-  }
-
-  private checkAnswer(answer: string | number): boolean {
-    if (Array.isArray(this.questionData.correctAnswer)) {
-      return this.questionData.correctAnswer.includes(answer);
-    }
-    return this.questionData.correctAnswer === answer;
+  addPlayerAnswer(playerId: string, record: PlayerAnswerRecord): void {
+    this.answers[playerId] = record;
   }
 
   updateStatistics(): void {
@@ -9,6 +9,34 @@ import {
 } from 'typeorm';
 import { GameRound } from './game-round.entity';
 
+export type ContentRating = 'family' | 'teen' | 'explicit';
+
+export type RoundDifficulty = 'easy' | 'medium' | 'hard';
+
+export enum ScoringMode {
+  LINEAR_TIME_BONUS = 'linear_time_bonus',
+  FIXED = 'fixed',
+  FIRST_CORRECT_WINS = 'first_correct_wins',
+  STREAK = 'streak',
+  NEGATIVE_MARKING = 'negative_marking',
+}
+
+export interface ScoringSettings {
+  mode?: ScoringMode; // defaults to LINEAR_TIME_BONUS
+  streakStep?: number; // STREAK: extra multiplier per consecutive correct round, default 0.25
+  maxStreakMultiplier?: number; // STREAK: default 2
+  wrongAnswerPenalty?: number; // NEGATIVE_MARKING: share of the round's points lost, default 0.25
+}
+
+// Progress of a session whose rounds are created and started automatically
+export interface SessionOrchestration {
+  playlist: string[]; // song ids, in play order
+  nextIndex: number; // next playlist entry to turn into a round
+  difficulty: RoundDifficulty; // of the most recently created round
+  currentRoundId?: string;
+  nextRoundAt?: Date; // set during the intermission before the next round
+}
+
 export enum SessionStatus {
   WAITING = 'waiting',
   ACTIVE = 'active',
@@ -49,12 +77,21 @@ export class GameSession {
 
   @Column('jsonb', { default: {} })
   settings: {
-    roundTimeLimit?: number;
+    roundTimeLimit?: number; // seconds
     maxRounds?: number;
     difficulty?: string;
     categories?: string[];
+    contentRating?: ContentRating; // defaults to 'explicit' (no filtering)
+    intermissionMs?: number; // pause between automatically started rounds
+    adaptiveDifficulty?: boolean; // defaults to true; adjusts difficulty to recent accuracy
+    avoidRecentDays?: number; // skip songs the players heard this recently
+    includeHints?: boolean; // defaults to true; players reveal a round's hints one at a time
+    scoring?: ScoringSettings; // copied onto each round when it is created
   };
 
+  @Column('jsonb', { nullable: true })
+  orchestration: SessionOrchestration | null;
+
   @Column({ name: 'started_at', type: 'timestamp', nullable: true })
   startedAt: Date;
 
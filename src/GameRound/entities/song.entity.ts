@@ -6,6 +6,57 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import { ContentSeverity } from '../../songs/entities/content-filter-term.entity';
+import { ModerationStatus } from '../../songs/entities/song-moderation-case.entity';
+
+export interface TimedLyricWord {
+  text: string;
+  time: number; // seconds
+}
+
+export interface TimedLyricLine {
+  text: string;
+  time: number; // seconds
+  endTime?: number; // seconds, start of the following line
+  words?: TimedLyricWord[];
+}
+
+export interface TimedLyrics {
+  format: 'lrc' | 'enhanced_lrc';
+  offsetMs: number;
+  lines: TimedLyricLine[];
+}
+
+export interface SongTransliteration {
+  title?: string;
+  artist?: string;
+  album?: string;
+  lyrics?: string; // line-aligned with the native lyrics
+}
+
+// Weighted so title matches outrank artist, album/genre and lyrics; 'simple' because lyrics are multilingual.
+// Kept in sync with the AddSongSearchIndex migration.
+export const SONG_SEARCH_VECTOR_EXPRESSION =
+  "setweight(to_tsvector('simple', coalesce(title, '')), 'A') || " +
+  "setweight(to_tsvector('simple', coalesce(artist, '')), 'B') || " +
+  "setweight(to_tsvector('simple', coalesce(album, '') || ' ' || coalesce(genre, '')), 'C') || " +
+  "setweight(to_tsvector('simple', coalesce(lyrics, '')), 'D')";
+
+export type LyricSectionType =
+  | 'intro'
+  | 'verse'
+  | 'pre_chorus'
+  | 'chorus'
+  | 'post_chorus'
+  | 'bridge'
+  | 'outro'
+  | 'other';
+
+export interface LyricSection {
+  type: LyricSectionType;
+  label: string; // e.g. "Verse 1"
+  lines: string[];
+}
 
 @Entity('songs')
 @Index(['artist'])
@@ -46,17 +97,50 @@ export class Song {
   @Column('text', { nullable: true })
   lyrics: string;
 
+  // BCP 47 code of the lyrics, e.g. "es", "ko", "ja"
+  @Column({ length: 16, nullable: true })
+  language: string;
+
+  // Romanised title/artist/album/lyrics so answers can also be typed in Latin script
+  @Column('jsonb', { nullable: true })
+  transliteration: SongTransliteration | null;
+
+  // Line and word timestamps parsed from LRC / enhanced-LRC sources
+  @Column('jsonb', { name: 'timed_lyrics', nullable: true })
+  timedLyrics: TimedLyrics | null;
+
+  // Mirrors the latest moderation case; only approved songs can be played
+  @Column({
+    name: 'moderation_status',
+    type: 'enum',
+    enum: ModerationStatus,
+    default: ModerationStatus.APPROVED,
+  })
+  moderationStatus: ModerationStatus;
+
+  // Maintained by Postgres on every insert/update; never read into the entity
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: SONG_SEARCH_VECTOR_EXPRESSION,
+    select: false,
+    insert: false,
+    update: false,
+    nullable: true,
+  })
+  searchVector?: string;
+
   @Column('jsonb', { default: {} })
   metadata: {
     bpm?: number;
     key?: string;
     popularity?: number;
     explicit?: boolean;
+    explicitSource?: 'admin' | 'lyrics'; // derived flags are recomputed whenever the lyrics change
     previewUrl?: string;
-    playCount?: number;
-    searchCount?: number;
-    clickCount?: number;
-    lastInteraction?: string;
+    sections?: LyricSection[];
+    contentSeverity?: ContentSeverity | null;
     [key: string]: any;
   };
 
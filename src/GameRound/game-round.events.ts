@@ -0,0 +1,64 @@
+import { GameRound } from './entities/game-round.entity';
+import { RoundResult } from './services/game-round.service';
+import { PlayerStanding } from './session-standings.util';
+
+// Emitted by GameRoundService after the change is saved; the gateway relays them to session rooms
+export const GAME_ROUND_EVENTS = {
+  STARTED: 'game-round.started',
+  ANSWER_ACCEPTED: 'game-round.answer-accepted',
+  EXTENDED: 'game-round.extended',
+  ENDED: 'game-round.ended',
+  SKIPPED: 'game-round.skipped',
+} as const;
+
+export interface RoundStartedEvent {
+  round: GameRound;
+}
+
+export interface AnswerAcceptedEvent {
+  sessionId: string;
+  roundId: string;
+  playerId: string;
+  answeredCount: number;
+}
+
+export interface RoundExtendedEvent {
+  round: GameRound;
+  extensionMs: number;
+  reason?: string;
+}
+
+export interface RoundEndedEvent {
+  result: RoundResult;
+}
+
+export interface RoundSkippedEvent {
+  round: GameRound;
+  reason?: string;
+}
+
+// Emitted by GameSessionOrchestratorService for automatically run sessions
+export const GAME_SESSION_EVENTS = {
+  STARTED: 'game-session.started',
+  INTERMISSION: 'game-session.intermission',
+  COMPLETED: 'game-session.completed',
+} as const;
+
+export interface SessionStartedEvent {
+  sessionId: string;
+  totalRounds: number;
+}
+
+export interface SessionIntermissionEvent {
+  sessionId: string;
+  nextRoundNumber: number;
+  totalRounds: number;
+  nextRoundAt: Date;
+  standings: PlayerStanding[];
+}
+
+export interface SessionCompletedEvent {
+  sessionId: string;
+  roundsPlayed: number;
+  standings: PlayerStanding[];
+}
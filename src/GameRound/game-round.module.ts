@@ -1,23 +1,49 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { BullModule } from '@nestjs/bull';
 import { GameRound } from './entities/game-round.entity';
 import { GameRoundRepository } from './game-round.repository';
 import { RoundQuestionGeneratorService } from './round-question-generator.service';
 import { GameRoundService } from './services/game-round.service';
+import { DistractorService } from './services/distractor.service';
 import { Song } from './entities/song.entity';
 import { GameSession } from './entities/game-session.entity';
+import { SongsModule } from '../songs/songs.module';
+import { GameRoundController } from './controllers/game-round.controller';
+import { GameSessionController } from './controllers/game-session.controller';
+import { GameSessionOrchestratorService } from './services/game-session-orchestrator.service';
+import { RoundTimerService, ROUND_TIMER_QUEUE } from './services/round-timer.service';
+import { RoundTimerProcessor } from './round-timer.processor';
+import { ScoringService } from './services/scoring.service';
+import { GameRoundGateway } from './gateways/game-round.gateway';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([GameRound, Song, GameSession])],
+  imports: [TypeOrmModule.forFeature([GameRound, Song, GameSession]),
+    // ContentFilterService and SongInteractionService come from here, so their caches are shared
+    SongsModule,
+    // Verifies socket access tokens; the secret is passed per call
+    JwtModule.register({}),
+    BullModule.registerQueue({ name: ROUND_TIMER_QUEUE }),
+  ],
+  controllers: [GameRoundController, GameSessionController],
   providers: [
     GameRoundRepository,
     RoundQuestionGeneratorService,
     GameRoundService,
+    DistractorService,
+    GameRoundGateway,
+    GameSessionOrchestratorService,
+    RoundTimerService,
+    RoundTimerProcessor,
+    ScoringService,
   ],
   exports: [
     GameRoundRepository,
     RoundQuestionGeneratorService,
     GameRoundService,
+    GameSessionOrchestratorService,
+    ScoringService,
   ],
 })
 export class GameRoundModule {}
\ No newline at end of file
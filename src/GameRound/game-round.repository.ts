@@ -1,7 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, FindManyOptions, FindOneOptions } from 'typeorm';
-import { GameRound, QuestionType, RoundStatus } from './entities/game-round.entity';
+import { Repository, FindManyOptions, FindOneOptions, QueryFailedError } from 'typeorm';
+import {
+  GameRound,
+  PlayerAnswerRecord,
+  QuestionType,
+  ROUND_NUMBER_INDEX,
+  RoundStatus,
+} from './entities/game-round.entity';
 
 export interface CreateRoundDto {
   sessionId: string;
@@ -11,6 +17,7 @@ export interface CreateRoundDto {
   timeLimitMs?: number;
   maxPoints?: number;
   difficultyMultiplier?: number;
+  roundNumber?: number; // reserved up front when the question seed depends on it
   metadata?: any;
 }
 
@@ -33,7 +40,7 @@ export class GameRoundRepository {
 
   async create(data: CreateRoundDto): Promise<GameRound> {
     // Get the next round number for the session
-    const roundNumber = await this.getNextRoundNumber(data.sessionId);
+    const roundNumber = data.roundNumber ?? await this.getNextRoundNumber(data.sessionId);
     
     const round = this.repository.create({
       ...data,
@@ -65,6 +72,10 @@ export class GameRoundRepository {
     return await this.repository.findOne(options);
   }
 
+  async findBySessionAndRoundNumber(sessionId: string, roundNumber: number): Promise<GameRound | null> {
+    return await this.repository.findOne({ where: { sessionId, roundNumber } });
+  }
+
   async findBySession(
     sessionId: string, 
     options?: { 
@@ -159,44 +170,77 @@ export class GameRoundRepository {
     return await this.findById(id);
   }
 
+  /**
+   * Complete the round. Returns null when it was already completed or skipped, so of several calls
+   * racing to end it only one goes on to announce the results.
+   */
   async endRound(id: string): Promise<GameRound | null> {
-    const round = await this.findById(id);
-    if (!round) return null;
-
-    const endTime = new Date();
-    const durationMs = round.startTime 
-      ? endTime.getTime() - round.startTime.getTime() 
-      : 0;
-
-    // Calculate total points awarded
-    const pointsAwarded = Object.values(round.answers)
-      .reduce((sum, answer) => sum + answer.pointsAwarded, 0);
-
-    // Update statistics
-    round.updateStatistics();
-
-    await this.repository.update(id, {
-      status: RoundStatus.COMPLETED,
-      endTime,
-      durationMs,
-      pointsAwarded,
-      statistics: round.statistics,
+    let ended = false;
+    // Locked so an answer submitted at the same moment is either counted or rejected
+    const round = await this.updateLocked(id, lockedRound => {
+      if (lockedRound.isFinished()) return false;
+      lockedRound.endTime = new Date();
+      lockedRound.durationMs = lockedRound.startTime 
+        ? lockedRound.endTime.getTime() - lockedRound.startTime.getTime() 
+        : 0;
+
+      // Calculate total points awarded
+      lockedRound.pointsAwarded = Object.values(lockedRound.answers)
+        .reduce((sum, answer) => sum + answer.pointsAwarded, 0);
+
+      // Update statistics
+      lockedRound.updateStatistics();
+      lockedRound.status = RoundStatus.COMPLETED;
+      ended = true;
     });
+    return ended ? round : null;
+  }
 
-    return await this.findById(id);
+  /**
+   * Skip the round and log why. Returns null when it was already completed or skipped.
+   */
+  async skipRound(id: string, reason?: string): Promise<GameRound | null> {
+    let skipped = false;
+    const round = await this.updateLocked(id, lockedRound => {
+      if (lockedRound.isFinished()) return false;
+      lockedRound.status = RoundStatus.SKIPPED;
+      lockedRound.addReplayEvent('system', 'ROUND_SKIPPED', { reason }); // 'system' as playerId for system events
+      skipped = true;
+    });
+    return skipped ? round : null;
+  }
+
+  /**
+   * Load the round with its row locked, apply `change` and save it in the same transaction, so
+   * concurrent writes to the answers and replay jsonb see each other instead of overwriting each
+   * other. `change` returns false to leave the round unsaved; anything it throws rolls back.
+   */
+  async updateLocked(id: string, change: (round: GameRound) => boolean | void): Promise<GameRound | null> {
+    return await this.repository.manager.transaction(async manager => {
+      const round = await manager.findOne(GameRound, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!round) return null;
+      if (change(round) === false) return round;
+      return await manager.save(round);
+    });
   }
 
+  /**
+   * Save a player's answer, building the record from the locked round so it can take answers
+   * submitted at the same moment into account. Returns null when the round is no longer active.
+   */
   async savePlayerAnswer(
     roundId: string, 
     playerId: string, 
-    answer: string | number
+    buildRecord: (round: GameRound) => PlayerAnswerRecord
   ): Promise<GameRound | null> {
-    const round = await this.findById(roundId);
-    if (!round || !round.isActive()) return null;
-
-    round.addPlayerAnswer(playerId, answer);
-    await this.repository.save(round);
-    return round;
+    const round = await this.updateLocked(roundId, lockedRound => {
+      if (!lockedRound.isActive()) return false;
+      lockedRound.addPlayerAnswer(playerId, buildRecord(lockedRound));
+    });
+    return round?.isActive() ? round : null;
   }
 
   async addReplayEvent(
@@ -205,11 +249,9 @@ export class GameRoundRepository {
     action: string, 
     data: any
   ): Promise<void> {
-    const round = await this.findById(roundId);
-    if (!round) return;
-
-    round.addReplayEvent(playerId, action, data);
-    await this.repository.save(round);
+    await this.updateLocked(roundId, round => {
+      round.addReplayEvent(playerId, action, data);
+    });
   }
 
   async getSessionStatistics(sessionId: string): Promise<{
@@ -243,7 +285,16 @@ export class GameRoundRepository {
     };
   }
 
-  private async getNextRoundNumber(sessionId: string): Promise<number> {
+  /**
+   * Whether an insert failed because another round took its number in the session
+   */
+  isRoundNumberTaken(error: unknown): boolean {
+    return error instanceof QueryFailedError
+      && (error as QueryFailedError & { code?: string }).code === '23505'
+      && (error as QueryFailedError & { constraint?: string }).constraint === ROUND_NUMBER_INDEX;
+  }
+
+  async getNextRoundNumber(sessionId: string): Promise<number> {
     const lastRound = await this.repository.findOne({
       where: { sessionId },
       order: { roundNumber: 'DESC' },
@@ -253,16 +304,18 @@ export class GameRoundRepository {
   }
 
   async bulkCreate(rounds: CreateRoundDto[]): Promise<GameRound[]> {
-    const entities = await Promise.all(
-      rounds.map(async (data) => {
-        const roundNumber = await this.getNextRoundNumber(data.sessionId);
-        return this.repository.create({
-          ...data,
-          roundNumber,
-          status: RoundStatus.PENDING,
-        });
-      })
-    );
+    // Numbered one after another, since round numbers are unique per session
+    const nextNumbers = new Map<string, number>();
+    const entities = [];
+    for (const data of rounds) {
+      const roundNumber = nextNumbers.get(data.sessionId) ?? await this.getNextRoundNumber(data.sessionId);
+      nextNumbers.set(data.sessionId, roundNumber + 1);
+      entities.push(this.repository.create({
+        ...data,
+        roundNumber,
+        status: RoundStatus.PENDING,
+      }));
+    }
 
     return await this.repository.save(entities);
   }
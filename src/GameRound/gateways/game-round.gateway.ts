@@ -0,0 +1,231 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  WebSocketServer,
+  OnGatewayConnection,
+  WsException,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { HttpException, Logger, UsePipes, ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OnEvent } from '@nestjs/event-emitter';
+import { GameRoundService } from '../services/game-round.service';
+import { RoundStatus } from '../entities/game-round.entity';
+import { toPublicRound } from '../round-view.util';
+import { AUTH_CONSTANTS } from '../../auth/constants/auth.constants';
+import {
+  AnswerAcceptedEvent,
+  GAME_ROUND_EVENTS,
+  GAME_SESSION_EVENTS,
+  RoundEndedEvent,
+  RoundExtendedEvent,
+  RoundSkippedEvent,
+  RoundStartedEvent,
+  SessionCompletedEvent,
+  SessionIntermissionEvent,
+  SessionStartedEvent,
+} from '../game-round.events';
+import {
+  ExtendRoundMessageDto,
+  JoinSessionMessageDto,
+  RevealHintMessageDto,
+  RoundActionMessageDto,
+  SkipRoundMessageDto,
+  StartRoundMessageDto,
+  SubmitAnswerMessageDto,
+} from '../dto/game-round.dto';
+
+/**
+ * Live round lifecycle for a session. Clients authenticate with their access token
+ * (handshake `auth.token` or a bearer Authorization header) and join the session's room.
+ * Rooms are shared across instances by the Redis adapter set up in main.ts, since round timers
+ * fire on any instance.
+ */
+@WebSocketGateway({
+  cors: {
+    origin: '*',
+  },
+  namespace: '/game-rounds',
+})
+@UsePipes(new ValidationPipe({ transform: true, exceptionFactory: errors => new WsException(errors) }))
+export class GameRoundGateway implements OnGatewayConnection {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(GameRoundGateway.name);
+
+  constructor(
+    private readonly gameRoundService: GameRoundService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async handleConnection(client: Socket) {
+    const header = client.handshake.headers.authorization;
+    const token = (client.handshake.auth?.token as string) || (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+    try {
+      const payload = await this.jwtService.verifyAsync(token, {
+        secret: this.configService.get<string>('JWT_SECRET') || AUTH_CONSTANTS.JWT_SECRET,
+      });
+      client.data.userId = payload.sub;
+    } catch {
+      client.emit('round:error', { message: 'Invalid or expired access token' });
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage('round:join')
+  async handleJoin(@ConnectedSocket() client: Socket, @MessageBody() dto: JoinSessionMessageDto) {
+    return this.run(async () => {
+      await this.gameRoundService.assertSessionMember(dto.sessionId, client.data.userId);
+      await client.join(this.room(dto.sessionId));
+      const activeRounds = await this.gameRoundService.getSessionRounds(dto.sessionId, { status: RoundStatus.ACTIVE });
+      return { sessionId: dto.sessionId, activeRounds: activeRounds.map(toPublicRound) };
+    });
+  }
+
+  @SubscribeMessage('round:leave')
+  async handleLeave(@ConnectedSocket() client: Socket, @MessageBody() dto: JoinSessionMessageDto) {
+    await client.leave(this.room(dto.sessionId));
+    return { sessionId: dto.sessionId };
+  }
+
+  @SubscribeMessage('round:start')
+  async handleStart(@ConnectedSocket() client: Socket, @MessageBody() dto: StartRoundMessageDto) {
+    return this.run(async () => {
+      await this.assertHost(dto.roundId, client);
+      return toPublicRound(await this.gameRoundService.startRound(dto));
+    });
+  }
+
+  @SubscribeMessage('round:answer')
+  async handleAnswer(@ConnectedSocket() client: Socket, @MessageBody() dto: SubmitAnswerMessageDto) {
+    return this.run(async () => {
+      const round = await this.gameRoundService.getRound(dto.roundId);
+      await this.gameRoundService.assertSessionMember(round.sessionId, client.data.userId);
+      // The result goes back to the answering player only; the room just learns that they answered
+      return this.gameRoundService.submitAnswer({
+        roundId: dto.roundId,
+        playerId: client.data.userId,
+        answer: dto.answer,
+      });
+    });
+  }
+
+  // Hints go back to the requesting player only
+  @SubscribeMessage('round:hints')
+  async handleHints(@ConnectedSocket() client: Socket, @MessageBody() dto: RoundActionMessageDto) {
+    return this.run(async () => {
+      const round = await this.gameRoundService.getRound(dto.roundId);
+      await this.gameRoundService.assertSessionMember(round.sessionId, client.data.userId);
+      return this.gameRoundService.getHintStatus(dto.roundId, client.data.userId);
+    });
+  }
+
+  @SubscribeMessage('round:hint')
+  async handleRevealHint(@ConnectedSocket() client: Socket, @MessageBody() dto: RevealHintMessageDto) {
+    return this.run(async () => {
+      const round = await this.gameRoundService.getRound(dto.roundId);
+      await this.gameRoundService.assertSessionMember(round.sessionId, client.data.userId);
+      return this.gameRoundService.revealHint(dto.roundId, client.data.userId, dto.index);
+    });
+  }
+
+  @SubscribeMessage('round:extend')
+  async handleExtend(@ConnectedSocket() client: Socket, @MessageBody() dto: ExtendRoundMessageDto) {
+    return this.run(async () => {
+      await this.assertHost(dto.roundId, client);
+      return toPublicRound(await this.gameRoundService.extendRoundTime(dto.roundId, dto.extensionMs, dto.reason));
+    });
+  }
+
+  @SubscribeMessage('round:skip')
+  async handleSkip(@ConnectedSocket() client: Socket, @MessageBody() dto: SkipRoundMessageDto) {
+    return this.run(async () => {
+      await this.assertHost(dto.roundId, client);
+      return this.gameRoundService.skipRound(dto.roundId, dto.reason);
+    });
+  }
+
+  @SubscribeMessage('round:end')
+  async handleEnd(@ConnectedSocket() client: Socket, @MessageBody() dto: RoundActionMessageDto) {
+    return this.run(async () => {
+      await this.assertHost(dto.roundId, client);
+      return this.gameRoundService.endRound(dto.roundId);
+    });
+  }
+
+  // Broadcasts, whether the change came from this gateway, the REST API or a timer
+
+  @OnEvent(GAME_ROUND_EVENTS.STARTED)
+  onRoundStarted({ round }: RoundStartedEvent) {
+    this.server.to(this.room(round.sessionId)).emit('round:started', toPublicRound(round));
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.ANSWER_ACCEPTED)
+  onAnswerAccepted({ sessionId, roundId, playerId, answeredCount }: AnswerAcceptedEvent) {
+    this.server.to(this.room(sessionId)).emit('round:answer-accepted', { roundId, playerId, answeredCount });
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.EXTENDED)
+  onRoundExtended({ round, extensionMs, reason }: RoundExtendedEvent) {
+    this.server.to(this.room(round.sessionId)).emit('round:extended', {
+      roundId: round.id,
+      timeLimitMs: round.timeLimitMs,
+      extensionMs,
+      reason,
+    });
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.ENDED)
+  onRoundEnded({ result }: RoundEndedEvent) {
+    const room = this.server.to(this.room(result.round.sessionId));
+    room.emit('round:ended', { roundId: result.round.id, status: result.round.status });
+    room.emit('round:results', result);
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.SKIPPED)
+  onRoundSkipped({ round, reason }: RoundSkippedEvent) {
+    this.server.to(this.room(round.sessionId)).emit('round:ended', { roundId: round.id, status: round.status, reason });
+  }
+
+  @OnEvent(GAME_SESSION_EVENTS.STARTED)
+  onSessionStarted(event: SessionStartedEvent) {
+    this.server.to(this.room(event.sessionId)).emit('session:started', event);
+  }
+
+  @OnEvent(GAME_SESSION_EVENTS.INTERMISSION)
+  onSessionIntermission(event: SessionIntermissionEvent) {
+    this.server.to(this.room(event.sessionId)).emit('session:intermission', event);
+  }
+
+  @OnEvent(GAME_SESSION_EVENTS.COMPLETED)
+  onSessionCompleted(event: SessionCompletedEvent) {
+    this.server.to(this.room(event.sessionId)).emit('session:completed', event);
+  }
+
+  private room(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private async assertHost(roundId: string, client: Socket): Promise<void> {
+    const round = await this.gameRoundService.getRound(roundId);
+    await this.gameRoundService.assertSessionHost(round.sessionId, client.data.userId);
+  }
+
+  // Service errors are HTTP exceptions; socket clients receive them as "exception" events
+  private async run<T>(action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw new WsException(error.message);
+      }
+      this.logger.error('Round socket action failed:', error);
+      throw new WsException('Internal server error');
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { blankLine, selectBlankIndices, tokenizeLine, wordsRhyme } from './lyric-blanks.util';
+
+describe('lyric-blanks.util', () => {
+  it('should keep punctuation outside the blank', () => {
+    const tokens = tokenizeLine('Hold me closer, tiny dancer!');
+
+    expect(blankLine(tokens, [2, 4])).toBe('Hold me ____, tiny ____!');
+  });
+
+  it('should detect simple end rhymes', () => {
+    expect(wordsRhyme('night', 'light')).toBe(true);
+    expect(wordsRhyme('fire', 'desire')).toBe(true);
+    expect(wordsRhyme('night', 'night')).toBe(false);
+    expect(wordsRhyme('night', 'day')).toBe(false);
+  });
+
+  it('should never blank stopwords', () => {
+    const tokens = tokenizeLine('and you and me');
+
+    expect(selectBlankIndices(tokens, { songWords: [], neighbourLines: [] }, 2)).toEqual([]);
+  });
+
+  it('should prefer the rhyming line-end word', () => {
+    const tokens = tokenizeLine('We were dancing in the pale moonlight');
+    const context = {
+      songWords: 'We were dancing dancing dancing in the pale moonlight'.split(' '),
+      neighbourLines: ['Holding on to you so tight'],
+    };
+
+    expect(selectBlankIndices(tokens, context, 1)).toEqual([6]);
+  });
+
+  it('should return blanks in line order', () => {
+    const tokens = tokenizeLine('Thunder rolling over distant mountains');
+
+    const blanks = selectBlankIndices(tokens, { songWords: [], neighbourLines: [] }, 3);
+
+    expect(blanks).toHaveLength(3);
+    expect([...blanks].sort((a, b) => a - b)).toEqual(blanks);
+  });
+
+  it('should keep accented and non-Latin words intact', () => {
+    const tokens = tokenizeLine('Bésame, bésame mucho');
+
+    expect(tokens.map(token => token.word)).toEqual(['Bésame', 'bésame', 'mucho']);
+    expect(blankLine(tokens, [2])).toBe('Bésame, bésame ____');
+  });
+
+  it('should blank words in lines without spaces', () => {
+    const tokens = tokenizeLine('夜空に星が光る', 'ja');
+    const blanks = selectBlankIndices(tokens, { songWords: [], neighbourLines: [] }, 1);
+
+    expect(blanks).toHaveLength(1);
+    expect(blankLine(tokens, [])).toBe('夜空に星が光る');
+    expect(blankLine(tokens, blanks)).toContain('____');
+  });
+});
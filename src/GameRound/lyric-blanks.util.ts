@@ -0,0 +1,163 @@
+import { isUnspacedScript, segmentWords } from '../songs/lyrics.util';
+
+// Words that carry no information about the song and make poor blanks
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for',
+  'with', 'from', 'up', 'down', 'out', 'off', 'as', 'is', 'am', 'are', 'was', 'were', 'be', 'been',
+  'do', 'does', 'did', 'have', 'has', 'had', 'i', 'me', 'my', 'you', 'your', 'he', 'him', 'his',
+  'she', 'her', 'it', 'its', 'we', 'us', 'our', 'they', 'them', 'their', 'this', 'that', 'these',
+  'those', 'what', 'when', 'where', 'who', 'how', 'all', 'just', 'not', 'no', 'yes', 'can', 'will',
+  'im', "i'm", "don't", 'dont', "it's", "you're", 'oh', 'ooh', 'yeah', 'la', 'na', 'hey', 'baby',
+]);
+
+export const BLANK_TOKEN = '____';
+
+// Kanji, kana and Hangul pack a whole word into one or two characters
+const DENSE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+export interface LyricToken {
+  leading: string;
+  word: string;
+  trailing: string;
+  separator: string; // text between this token and the next
+}
+
+export function tokenizeLine(line: string, language?: string): LyricToken[] {
+  const trimmed = line.trim();
+  if (isUnspacedScript(trimmed)) {
+    return tokenizeSegments(trimmed, language);
+  }
+
+  const parts = trimmed.split(/\s+/).filter(Boolean);
+  return parts.map((raw, index) => {
+    const separator = index < parts.length - 1 ? ' ' : '';
+    const match = /^([^\p{L}\p{N}'’]*)([\p{L}\p{N}\p{M}'’-]*?)([^\p{L}\p{N}\p{M}'’]*)$/u.exec(raw);
+    return match
+      ? { leading: match[1], word: match[2], trailing: match[3], separator }
+      : { leading: '', word: raw, trailing: '', separator };
+  });
+}
+
+// Lines without spaces (Chinese, Japanese, Thai) are split by the word segmenter
+function tokenizeSegments(line: string, language?: string): LyricToken[] {
+  const tokens: LyricToken[] = [];
+  let pending = '';
+
+  for (const { segment, isWordLike } of segmentWords(line, language)) {
+    const last = tokens[tokens.length - 1];
+    if (isWordLike) {
+      tokens.push({ leading: pending, word: segment, trailing: '', separator: '' });
+      pending = '';
+    } else if (!last) {
+      pending += segment;
+    } else if (!last.separator && !/^\s+$/.test(segment)) {
+      last.trailing += segment;
+    } else {
+      last.separator += segment;
+    }
+  }
+
+  if (pending && tokens.length) tokens[tokens.length - 1].separator += pending;
+  return tokens;
+}
+
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().normalize('NFC').replace(/[^\p{L}\p{N}\p{M}']/gu, '');
+}
+
+// Last vowel group plus trailing consonants: "night" -> "ight", "fire" -> "ire"
+export function rhymeKey(word: string): string {
+  const normalized = normalizeWord(word).replace(/'/g, '');
+  const match = /[aeiouy]+[^aeiouy]*$/.exec(normalized);
+  return match ? match[0] : normalized;
+}
+
+export function wordsRhyme(a: string, b: string): boolean {
+  const na = normalizeWord(a);
+  const nb = normalizeWord(b);
+  return na !== nb && na.length > 1 && nb.length > 1 && rhymeKey(na) === rhymeKey(nb);
+}
+
+export function isStopword(word: string): boolean {
+  return STOPWORDS.has(normalizeWord(word));
+}
+
+// Long enough to be worth guessing: three letters, or two characters in dense scripts
+export function isMeaningfulWord(word: string): boolean {
+  const normalized = normalizeWord(word);
+  const minLength = DENSE_SCRIPT.test(normalized) ? 2 : 3;
+  return Array.from(normalized).length >= minLength && !isStopword(word) && !/^\d+$/.test(normalized);
+}
+
+/**
+ * Ranks the words of a lyric line by how much they reveal about the song and
+ * returns the indices of the best `count` blanks in line order.
+ * Stopwords are never blanked; line-end rhymes and words rare within the song rank highest.
+ */
+export function selectBlankIndices(
+  tokens: LyricToken[],
+  context: { songWords: string[]; neighbourLines: string[] },
+  count: number,
+): number[] {
+  const frequencies = new Map<string, number>();
+  for (const word of context.songWords) {
+    const key = normalizeWord(word);
+    frequencies.set(key, (frequencies.get(key) || 0) + 1);
+  }
+
+  const neighbourEnds = context.neighbourLines
+    .map(line => tokenizeLine(line).pop()?.word)
+    .filter(Boolean);
+  const lastIndex = tokens.length - 1;
+
+  const candidates = tokens
+    .map((token, index) => ({ index, word: token.word }))
+    .filter(({ word }) => isMeaningfulWord(word))
+    .map(({ index, word }) => {
+      const frequency = frequencies.get(normalizeWord(word)) || 1;
+      let score = 1 / frequency + Math.min(Array.from(word).length, 10) / 10;
+      if (index === lastIndex) {
+        score += 1;
+        if (neighbourEnds.some(end => wordsRhyme(word, end))) score += 1.5;
+      }
+      return { index, score };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  return candidates
+    .slice(0, Math.max(0, count))
+    .map(c => c.index)
+    .sort((a, b) => a - b);
+}
+
+export function blankLine(tokens: LyricToken[], blankIndices: number[]): string {
+  return tokens
+    .map((token, index) =>
+      blankIndices.includes(index)
+        ? `${token.leading}${BLANK_TOKEN}${token.trailing}${token.separator}`
+        : `${token.leading}${token.word}${token.trailing}${token.separator}`,
+    )
+    .join('');
+}
+
+// Vowel groups, ignoring a silent trailing "e" ("fire" -> 1, "dancer" -> 2)
+export function countSyllables(word: string): number {
+  const normalized = normalizeWord(word).replace(/'/g, '');
+  if (!normalized) return 0;
+  const trimmed = normalized.length > 2 ? normalized.replace(/(?<=[^aeiouy])e$/, '') : normalized;
+  const groups = trimmed.match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'unknown';
+
+// Suffix heuristics; good enough to keep distractors grammatically plausible
+export function guessPartOfSpeech(word: string): PartOfSpeech {
+  const normalized = normalizeWord(word);
+  if (normalized.length < 4) return 'unknown';
+  if (/(ing|in')$/.test(normalized) || /ed$/.test(normalized)) return 'verb';
+  if (/ly$/.test(normalized)) return 'adverb';
+  if (/(ful|ous|ive|able|ible|less|al|ish|est)$/.test(normalized)) return 'adjective';
+  if (/(ness|tion|sion|ment|ity|ship|hood|er|or)$/.test(normalized)) return 'noun';
+  return 'unknown';
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RoundQuestionGeneratorService } from './round-question-generator.service';
+import { DistractorService } from './services/distractor.service';
+import { HintType, QuestionType } from './entities/game-round.entity';
+import { Song } from './entities/song.entity';
+import { ContentFilterService } from '../songs/content-filter.service';
+import { ContentFilterTerm } from '../songs/entities/content-filter-term.entity';
+import { ContentFilterState } from '../songs/entities/content-filter-state.entity';
+
+describe('RoundQuestionGeneratorService', () => {
+  let service: RoundQuestionGeneratorService;
+  let distractorService: DistractorService;
+
+  const song = {
+    id: 'song-1',
+    title: 'Midnight Light',
+    artist: 'The Testers',
+    genre: 'Pop',
+    album: 'Night Moves',
+    releaseYear: 1984,
+    lyrics: [
+      'We were dancing in the pale moonlight',
+      'Holding on to you so tight',
+      '',
+      'Never let the morning come',
+      'Singing till the night is done',
+    ].join('\n'),
+  } as Song;
+
+  beforeEach(async () => {
+    const queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoundQuestionGeneratorService,
+        DistractorService,
+        ContentFilterService,
+        {
+          provide: getRepositoryToken(Song),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(queryBuilder) },
+        },
+        {
+          provide: getRepositoryToken(ContentFilterTerm),
+          useValue: { find: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: getRepositoryToken(ContentFilterState),
+          useValue: { exists: jest.fn().mockResolvedValue(false) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RoundQuestionGeneratorService>(RoundQuestionGeneratorService);
+    distractorService = module.get<DistractorService>(DistractorService);
+  });
+
+  describe('generateQuestion', () => {
+    it.each([
+      QuestionType.MULTIPLE_CHOICE,
+      QuestionType.TRUE_FALSE,
+      QuestionType.FILL_IN_BLANK,
+      QuestionType.AUDIO_CLIP,
+      QuestionType.LYRICS_GUESS,
+      QuestionType.LYRIC_COMPLETION,
+    ])('should regenerate the same %s question from the same seed', async questionType => {
+      const options = { difficulty: 'medium' as const, includeHints: true, seed: 'session-1:3:abc' };
+
+      const first = await service.generateQuestion(song, questionType, options);
+      const second = await service.generateQuestion(song, questionType, options);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should vary the option order between seeds', async () => {
+      const orders = new Set<string>();
+      for (let i = 0; i < 10; i++) {
+        const question = await service.generateQuestion(song, QuestionType.MULTIPLE_CHOICE, { seed: `seed-${i}` });
+        orders.add(JSON.stringify(question.options));
+      }
+
+      expect(orders.size).toBeGreaterThan(1);
+    });
+
+    it('should mask filtered words in lyrics for family sessions', async () => {
+      const explicitSong = { ...song, lyrics: 'This damn heart keeps beating on\nDancing through the damn night' } as Song;
+
+      const question = await service.generateQuestion(explicitSong, QuestionType.LYRICS_GUESS, {
+        difficulty: 'hard',
+        contentRating: 'family',
+        seed: 'seed-1',
+      });
+
+      expect(question.lyricsSnippet).toContain('d***');
+      expect(question.lyricsSnippet).not.toMatch(/damn/i);
+    });
+
+    it('should order lyric hints from context to first letters', async () => {
+      const question = await service.generateQuestion(song, QuestionType.LYRIC_COMPLETION, {
+        difficulty: 'medium',
+        includeHints: true,
+        seed: 'seed-1',
+      });
+      const answers = question.correctAnswer as string[];
+
+      expect(question.hints.map(hint => hint.type)).toEqual(expect.arrayContaining([
+        HintType.CONTEXT,
+        HintType.WORD_COUNT,
+        HintType.FIRST_LETTER,
+      ]));
+      expect(question.hints[0]).toEqual({ type: HintType.CONTEXT, text: 'This song is by The Testers' });
+      expect(question.hints[question.hints.length - 1].text)
+        .toBe(`First letters: ${answers.map(answer => answer[0].toUpperCase()).join(', ')}`);
+    });
+
+    it('should only give context hints when the answer is picked from options', async () => {
+      const question = await service.generateQuestion(song, QuestionType.MULTIPLE_CHOICE, {
+        includeHints: true,
+        seed: 'seed-1',
+      });
+
+      expect(question.hints.every(hint => hint.type === HintType.CONTEXT)).toBe(true);
+    });
+
+    it('should not offer one blank\'s answer as a distractor for another', async () => {
+      const rhymingSong = {
+        ...song,
+        lyrics: 'Shining bright tonight\nHolding tight the light\nFlying kites in flight',
+      } as Song;
+      const lyricDistractors = jest.spyOn(distractorService, 'getLyricDistractors');
+
+      const question = await service.generateQuestion(rhymingSong, QuestionType.LYRIC_COMPLETION, {
+        difficulty: 'medium',
+        seed: 'seed-1',
+      });
+      const answers = question.correctAnswer as string[];
+
+      expect(answers).toHaveLength(2);
+      expect(lyricDistractors.mock.calls.map(([answer, , , , exclude]) => [answer, exclude])).toEqual([
+        [answers[0], [answers[1]]],
+        [answers[1], [answers[0]]],
+      ]);
+      question.blankOptions.forEach((choices, index) => {
+        const otherAnswer = answers[1 - index].toLowerCase();
+        expect(choices.map(choice => choice.toLowerCase())).not.toContain(otherAnswer);
+      });
+    });
+  });
+});
@@ -1,6 +1,12 @@
 import { Injectable } from '@nestjs/common';
-import { Song } from './entities/song.entity';
-import { QuestionType } from './entities/game-round.entity';
+import { LyricSectionType, Song, TimedLyricLine } from './entities/song.entity';
+import { HintType, QuestionType, RoundHint } from './entities/game-round.entity';
+import { parseLyricStructure, romanize, tokenizeWords } from '../songs/lyrics.util';
+import { blankLine, selectBlankIndices, tokenizeLine } from './lyric-blanks.util';
+import { CatalogueField, DistractorService } from './services/distractor.service';
+import { createSeededRandom, RandomFn, seededShuffle } from './seeded-random';
+import { ContentRating } from './entities/game-session.entity';
+import { ContentFilterService } from '../songs/content-filter.service';
 
 export interface QuestionGenerationOptions {
   difficulty?: 'easy' | 'medium' | 'hard';
@@ -9,6 +15,11 @@ export interface QuestionGenerationOptions {
   playerHistory?: PlayerHistory;
   category?: string;
   avoidRecentSongs?: string[];
+  preferSections?: LyricSectionType[];
+  seed?: string; // same song, type, options and seed always produce the same question
+  random?: RandomFn; // derived from seed when omitted
+  contentRating?: ContentRating;
+  mask?: (text: string) => string; // derived from contentRating when omitted
 }
 
 export interface PlayerHistory {
@@ -22,11 +33,13 @@ export interface PlayerHistory {
 export interface GeneratedQuestion {
   question: string;
   options?: string[];
-  correctAnswer: string | number;
-  hints?: string[];
+  correctAnswer: string | number | string[];
+  romanizedAnswer?: string | string[]; // Latin-script form of a non-Latin answer
+  hints?: RoundHint[];
   audioClipStart?: number;
   audioClipDuration?: number;
   lyricsSnippet?: string;
+  blankOptions?: string[][];
   metadata?: {
     difficulty: string;
     category: string;
@@ -35,6 +48,15 @@ export interface GeneratedQuestion {
   };
 }
 
+// What the per-type generators return; hints are turned into RoundHints once the answer is known
+type BaseQuestion = Omit<GeneratedQuestion, 'hints'> & {
+  hints?: string[]; // context hints
+  nextLine?: string; // lyric line following the question's line
+};
+
+// Players type these answers, so hints about the answer's shape help
+const TYPED_ANSWER_TYPES = [QuestionType.FILL_IN_BLANK, QuestionType.LYRIC_COMPLETION];
+
 @Injectable()
 export class RoundQuestionGeneratorService {
   private readonly questionTemplates = {
@@ -83,29 +105,53 @@ export class RoundQuestionGeneratorService {
     }
   };
 
-  generateQuestion(
+  // Easy rounds lean on the repeated chorus; hard rounds stay away from it
+  private readonly defaultSectionPreferences: Record<string, LyricSectionType[]> = {
+    easy: ['chorus'],
+    hard: ['verse', 'bridge'],
+  };
+
+  constructor(
+    private readonly distractorService: DistractorService,
+    private readonly contentFilterService: ContentFilterService,
+  ) {}
+
+  async generateQuestion(
     song: Song, 
     questionType: QuestionType,
-    options: QuestionGenerationOptions = {}
-  ): GeneratedQuestion {
-    const baseQuestion = this.generateBaseQuestion(song, questionType, options);
+    generationOptions: QuestionGenerationOptions = {}
+  ): Promise<GeneratedQuestion> {
+    // Every random choice below goes through options.random so seeded rounds can be replayed
+    const options: QuestionGenerationOptions = {
+      ...generationOptions,
+      random: generationOptions.random
+        ?? (generationOptions.seed ? createSeededRandom(generationOptions.seed) : Math.random),
+      mask: generationOptions.mask
+        ?? await this.contentFilterService.getMasker(generationOptions.contentRating, song.language),
+    };
+    const { hints, nextLine, ...baseQuestion } = await this.generateBaseQuestion(song, questionType, options);
+    const question: GeneratedQuestion = baseQuestion;
+    question.romanizedAnswer = this.getRomanizedAnswer(song, question.correctAnswer);
+    if (options.includeHints) {
+      question.hints = this.buildHints(questionType, question.correctAnswer, hints, nextLine);
+    }
     
     // Add metadata
-    baseQuestion.metadata = {
+    question.metadata = {
       difficulty: options.difficulty || 'medium',
       category: options.category || 'general',
       estimatedTime: this.estimateQuestionTime(questionType, options.difficulty),
       cognitiveLoad: this.calculateCognitiveLoad(questionType, options.difficulty),
     };
 
-    return baseQuestion;
+    return question;
   }
 
-  private generateBaseQuestion(
+  private async generateBaseQuestion(
     song: Song, 
     questionType: QuestionType,
     options: QuestionGenerationOptions
-  ): GeneratedQuestion {
+  ): Promise<BaseQuestion> {
     switch (questionType) {
       case QuestionType.MULTIPLE_CHOICE:
         return this.generateMultipleChoice(song, options);
@@ -117,14 +163,16 @@ export class RoundQuestionGeneratorService {
         return this.generateAudioClip(song, options);
       case QuestionType.LYRICS_GUESS:
         return this.generateLyricsGuess(song, options);
+      case QuestionType.LYRIC_COMPLETION:
+        return this.generateLyricCompletion(song, options);
       default:
         throw new Error(`Unsupported question type: ${questionType}`);
     }
   }
 
-  private generateMultipleChoice(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateMultipleChoice(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const categories = this.selectQuestionCategory(song, options);
-    const category = this.weightedRandomSelect(categories);
+    const category = this.weightedRandomSelect(categories, options.random);
     
     switch (category) {
       case 'artist':
@@ -140,88 +188,88 @@ export class RoundQuestionGeneratorService {
     }
   }
 
-  private generateArtistQuestion(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateArtistQuestion(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const templates = this.questionTemplates.multipleChoice.artist;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     const question = template.replace('{title}', song.title);
     
     const correctAnswer = song.artist;
-    const answerOptions = this.generateArtistOptions(song.artist, options.difficulty);
+    const answerOptions = await this.generateArtistOptions(song, options);
     
     return {
       question,
       correctAnswer,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateArtistHints(song) : undefined,
     };
   }
 
-  private generateYearQuestion(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateYearQuestion(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     if (!song.releaseYear) {
       return this.generateArtistQuestion(song, options); // Fallback
     }
 
     const templates = this.questionTemplates.multipleChoice.year;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     const question = template.replace('{title}', song.title);
     
     const correctAnswer = song.releaseYear.toString();
-    const answerOptions = this.generateYearOptions(song.releaseYear, options.difficulty);
+    const answerOptions = await this.generateYearOptions(song, options);
     
     return {
       question,
       correctAnswer,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateYearHints(song) : undefined,
     };
   }
 
-  private generateGenreQuestion(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateGenreQuestion(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     if (!song.genre) {
       return this.generateArtistQuestion(song, options); // Fallback
     }
 
     const templates = this.questionTemplates.multipleChoice.genre;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     const question = template.replace('{title}', song.title);
     
     const correctAnswer = song.genre;
-    const answerOptions = this.generateGenreOptions(song.genre, options.difficulty);
+    const answerOptions = await this.generateGenreOptions(song, options);
     
     return {
       question,
       correctAnswer,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateGenreHints(song) : undefined,
     };
   }
 
-  private generateAlbumQuestion(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateAlbumQuestion(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     if (!song.album) {
       return this.generateArtistQuestion(song, options); // Fallback
     }
 
     const templates = this.questionTemplates.multipleChoice.album;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     const question = template.replace('{title}', song.title);
     
     const correctAnswer = song.album;
-    const answerOptions = this.generateAlbumOptions(song.album, options.difficulty);
+    const answerOptions = await this.generateAlbumOptions(song, options);
     
     return {
       question,
       correctAnswer,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateAlbumHints(song) : undefined,
     };
   }
 
-  private generateTrueFalse(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateTrueFalse(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const templates = this.questionTemplates.trueFalse;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     
     // Randomly decide if statement should be true or false
-    const shouldBeTrue = Math.random() < 0.6; // 60% true statements
+    const shouldBeTrue = options.random() < 0.6; // 60% true statements
     
     let question: string;
     let correctAnswer: boolean;
@@ -231,7 +279,7 @@ export class RoundQuestionGeneratorService {
         question = template.replace('{artist}', song.artist);
         correctAnswer = true;
       } else {
-        question = template.replace('{artist}', this.getRandomArtist());
+        question = template.replace('{artist}', await this.getRandomArtist(song, options));
         correctAnswer = false;
       }
     } else if (template.includes('{year}')) {
@@ -239,7 +287,7 @@ export class RoundQuestionGeneratorService {
         question = template.replace('{year}', song.releaseYear?.toString() || 'unknown');
         correctAnswer = true;
       } else {
-        const wrongYear = song.releaseYear ? song.releaseYear + this.getRandomYearOffset() : 2020;
+        const wrongYear = song.releaseYear ? song.releaseYear + this.getRandomYearOffset(options.random) : 2020;
         question = template.replace('{year}', wrongYear.toString());
         correctAnswer = false;
       }
@@ -248,7 +296,7 @@ export class RoundQuestionGeneratorService {
         question = template.replace('{genre}', song.genre || 'unknown');
         correctAnswer = true;
       } else {
-        question = template.replace('{genre}', this.getRandomGenre());
+        question = template.replace('{genre}', await this.getRandomGenre(song, options));
         correctAnswer = false;
       }
     } else if (template.includes('{album}')) {
@@ -256,7 +304,7 @@ export class RoundQuestionGeneratorService {
         question = template.replace('{album}', song.album || 'unknown');
         correctAnswer = true;
       } else {
-        question = template.replace('{album}', this.getRandomAlbum());
+        question = template.replace('{album}', await this.getRandomAlbum(song, options));
         correctAnswer = false;
       }
     } else {
@@ -272,9 +320,9 @@ export class RoundQuestionGeneratorService {
     };
   }
 
-  private generateFillInBlank(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateFillInBlank(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const fillInTypes = this.selectFillInType(song, options);
-    const fillInType = this.weightedRandomSelect(fillInTypes);
+    const fillInType = this.weightedRandomSelect(fillInTypes, options.random);
     
     switch (fillInType) {
       case 'title':
@@ -288,13 +336,13 @@ export class RoundQuestionGeneratorService {
     }
   }
 
-  private generateTitleFillIn(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateTitleFillIn(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const templates = this.questionTemplates.fillInBlank.title;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     
     // Split title into words and remove one or more words
     const words = song.title.split(' ');
-    const wordsToRemove = this.getWordsToRemove(words.length, options.difficulty);
+    const wordsToRemove = this.getWordsToRemove(words.length, options.difficulty, options.random);
     
     const partialTitle = words
       .map((word, index) => wordsToRemove.includes(index) ? '____' : word)
@@ -310,9 +358,9 @@ export class RoundQuestionGeneratorService {
     };
   }
 
-  private generateArtistFillIn(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateArtistFillIn(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const templates = this.questionTemplates.fillInBlank.artist;
-    const template = templates[Math.floor(Math.random() * templates.length)];
+    const template = this.pickRandom(templates, options.random);
     
     const question = template.replace('{title}', song.title);
     const correctAnswer = song.artist;
@@ -324,69 +372,127 @@ export class RoundQuestionGeneratorService {
     };
   }
 
-  private generateLyricsFillIn(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateLyricsFillIn(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     if (!song.lyrics) {
       return this.generateTitleFillIn(song, options); // Fallback
     }
 
-    // Extract a line from lyrics and remove a word
-    const lines = song.lyrics.split('\n').filter(line => line.trim().length > 10);
+    // Extract a line from the preferred sections and remove a word
+    const blocks = this.getLyricBlocks(song, options);
+    const lines = blocks.flat().filter(line => line.trim().length > 10);
     if (lines.length === 0) {
       return this.generateTitleFillIn(song, options); // Fallback
     }
 
-    const selectedLine = lines[Math.floor(Math.random() * lines.length)];
-    const words = selectedLine.trim().split(' ');
-    const wordToRemove = Math.floor(Math.random() * words.length);
+    const selectedLine = this.pickRandom(lines, options.random);
+    const tokens = tokenizeLine(selectedLine, song.language);
+    const wordToRemove = Math.floor(options.random() * tokens.length);
     
-    const partialLyrics = words
-      .map((word, index) => index === wordToRemove ? '____' : word)
-      .join(' ');
+    const partialLyrics = blankLine(tokens, [wordToRemove]);
+
+    // With timed lyrics, play the audio leading up to the blanked word
+    const timedLine = this.findTimedLine(song, selectedLine, options.mask);
+    const clip = timedLine
+      ? this.getLyricClipWindow(song, timedLine, wordToRemove, tokens.length, options.difficulty)
+      : null;
     
     return {
       question: `Complete the lyrics: "${partialLyrics}"`,
-      correctAnswer: words[wordToRemove],
+      correctAnswer: tokens[wordToRemove].word,
+      audioClipStart: clip?.start,
+      audioClipDuration: clip?.duration,
       hints: options.includeHints ? [`This song is by ${song.artist}`] : undefined,
+      nextLine: this.findNextLine(blocks, selectedLine),
     };
   }
 
-  private generateAudioClip(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateAudioClip(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     const clipDuration = this.getClipDuration(options.difficulty);
-    const clipStart = this.selectOptimalClipStart(song, clipDuration, options.difficulty);
+    const clipStart = this.selectOptimalClipStart(song, clipDuration, options.difficulty, options.random);
     
-    const question = this.getAudioClipQuestion(options.difficulty);
+    const question = this.getAudioClipQuestion(options.difficulty, options.random);
     const correctAnswer = song.title;
-    const answerOptions = this.generateAudioClipOptions(song.title, options.difficulty);
+    const answerOptions = await this.generateAudioClipOptions(song, options);
     
     return {
       question,
       correctAnswer,
       audioClipStart: clipStart,
       audioClipDuration: clipDuration,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateAudioClipHints(song, options.difficulty) : undefined,
     };
   }
 
-  private generateLyricsGuess(song: Song, options: QuestionGenerationOptions): GeneratedQuestion {
+  private async generateLyricsGuess(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
     if (!song.lyrics) {
       return this.generateAudioClip(song, options); // Fallback
     }
 
-    const lyricsSnippet = this.extractLyricsSnippet(song.lyrics, options.difficulty);
-    const question = this.getLyricsQuestion(options.difficulty);
+    const lyricsSnippet = this.extractLyricsSnippet(song, options);
+    const question = this.getLyricsQuestion(options.difficulty, options.random);
     const correctAnswer = song.title;
-    const answerOptions = this.generateLyricsOptions(song.title, options.difficulty);
+    const answerOptions = await this.generateLyricsOptions(song, options);
     
     return {
       question,
       lyricsSnippet,
       correctAnswer,
-      options: this.shuffleArray(answerOptions),
+      options: this.shuffleArray(answerOptions, options.random),
       hints: options.includeHints ? this.generateLyricsHints(song, options.difficulty) : undefined,
     };
   }
 
+  private async generateLyricCompletion(song: Song, options: QuestionGenerationOptions): Promise<BaseQuestion> {
+    if (!song.lyrics) {
+      return this.generateTitleFillIn(song, options); // Fallback
+    }
+
+    const blankCount = this.getBlankCount(options.difficulty);
+    const songWords = tokenizeWords(song.lyrics, song.language);
+
+    // Pick a line from the preferred sections that has something worth blanking
+    const candidates = this.getLyricBlocks(song, options).flatMap(block =>
+      block.map((line, i) => ({ line, previous: block[i - 1], next: block[i + 1] })),
+    ).map(candidate => {
+      const tokens = tokenizeLine(candidate.line, song.language);
+      const neighbourLines = [candidate.previous, candidate.next].filter(Boolean);
+      const blanks = selectBlankIndices(tokens, { songWords, neighbourLines }, blankCount);
+      return { ...candidate, tokens, blanks };
+    }).filter(candidate => candidate.blanks.length > 0);
+
+    if (candidates.length === 0) {
+      return this.generateLyricsFillIn(song, options); // Fallback
+    }
+
+    const selected = this.pickRandom(candidates, options.random);
+    const partialLine = blankLine(selected.tokens, selected.blanks);
+    const correctAnswer = selected.blanks.map(index => selected.tokens[index].word);
+
+    const timedLine = this.findTimedLine(song, selected.line, options.mask);
+    const clip = timedLine
+      ? this.getLyricClipWindow(song, timedLine, selected.blanks[0], selected.tokens.length, options.difficulty)
+      : null;
+
+    // Hard rounds are typed from memory; easier ones offer choices per blank
+    const blankOptions = options.difficulty === 'hard'
+      ? undefined
+      : await this.generateBlankOptions(song, correctAnswer, options);
+
+    return {
+      question: correctAnswer.length > 1
+        ? `Complete the lyric (${correctAnswer.length} missing words):`
+        : 'Complete the lyric:',
+      lyricsSnippet: [selected.previous, partialLine].filter(Boolean).join('\n'),
+      correctAnswer,
+      blankOptions,
+      audioClipStart: clip?.start,
+      audioClipDuration: clip?.duration,
+      hints: options.includeHints ? [`This song is by ${song.artist}`] : undefined,
+      nextLine: selected.next,
+    };
+  }
+
   // Helper methods for question generation
 
   private selectQuestionCategory(song: Song, options: QuestionGenerationOptions): Record<string, number> {
@@ -424,13 +530,13 @@ export class RoundQuestionGeneratorService {
     return types;
   }
 
-  private weightedRandomSelect(weights: Record<string, number>): string {
+  private weightedRandomSelect(weights: Record<string, number>, random: RandomFn): string {
     const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * total;
+    let remaining = random() * total;
     
     for (const [key, weight] of Object.entries(weights)) {
-      random -= weight;
-      if (random <= 0) {
+      remaining -= weight;
+      if (remaining <= 0) {
         return key;
       }
     }
@@ -438,12 +544,21 @@ export class RoundQuestionGeneratorService {
     return Object.keys(weights)[0]; // Fallback
   }
 
-  private getWordsToRemove(wordCount: number, difficulty?: string): number[] {
+  private getWordsToRemove(wordCount: number, difficulty: string | undefined, random: RandomFn): number[] {
     const maxWords = difficulty === 'easy' ? 1 : difficulty === 'hard' ? Math.min(3, wordCount - 1) : 2;
     const wordsToRemove = Math.min(maxWords, Math.max(1, Math.floor(wordCount * 0.3)));
     
     const indices = Array.from({ length: wordCount }, (_, i) => i);
-    return this.shuffleArray(indices).slice(0, wordsToRemove);
+    return this.shuffleArray(indices, random).slice(0, wordsToRemove);
+  }
+
+  private getBlankCount(difficulty?: string): number {
+    const counts = {
+      easy: 1,
+      medium: 2,
+      hard: 3,
+    };
+    return counts[difficulty || 'medium'];
   }
 
   private getClipDuration(difficulty?: string): number {
@@ -455,23 +570,63 @@ export class RoundQuestionGeneratorService {
     return durations[difficulty || 'medium'];
   }
 
-  private selectOptimalClipStart(song: Song, duration: number, difficulty?: string): number {
+  private selectOptimalClipStart(
+    song: Song,
+    duration: number,
+    difficulty: string | undefined,
+    random: RandomFn,
+  ): number {
     const totalDuration = song.durationSeconds || 180; // Default 3 minutes
     const maxStart = Math.max(0, totalDuration - duration - 10); // Leave some buffer
+    let start: number;
     
     if (difficulty === 'easy') {
       // Start from beginning for easier recognition
-      return Math.min(30, maxStart);
+      start = Math.min(30, maxStart);
     } else if (difficulty === 'hard') {
       // Start from middle or end for harder recognition
-      return Math.max(60, maxStart * 0.5);
+      start = Math.max(60, maxStart * 0.5);
     } else {
       // Medium difficulty - random start
-      return Math.floor(Math.random() * maxStart);
+      start = Math.floor(random() * maxStart);
     }
+
+    return this.snapToLyricLine(song, start);
+  }
+
+  // Moves a clip start back to the beginning of the lyric line it falls in, so clips never open mid-word
+  private snapToLyricLine(song: Song, start: number): number {
+    const lines = song.timedLyrics?.lines || [];
+    const previous = lines.filter(line => line.time <= start);
+    return previous.length ? previous[previous.length - 1].time : start;
+  }
+
+  // Lyric lines may already be masked for the session's content rating
+  private findTimedLine(song: Song, lineText: string, mask: (text: string) => string): TimedLyricLine | undefined {
+    const target = lineText.trim();
+    return song.timedLyrics?.lines.find(line => mask(line.text) === target);
+  }
+
+  private getLyricClipWindow(
+    song: Song,
+    line: TimedLyricLine,
+    blankIndex: number,
+    wordCount: number,
+    difficulty?: string,
+  ): { start: number; duration: number } | null {
+    // Word timings only line up with our split when the tokenisation matches
+    const blankWord = line.words?.length === wordCount ? line.words[blankIndex] : undefined;
+    const end = blankWord ? blankWord.time : line.time;
+
+    const start = blankWord && blankIndex > 0
+      ? line.time
+      : this.snapToLyricLine(song, Math.max(0, end - this.getClipDuration(difficulty)));
+
+    const duration = Math.round((end - start) * 100) / 100;
+    return duration > 0 ? { start, duration } : null;
   }
 
-  private getAudioClipQuestion(difficulty?: string): string {
+  private getAudioClipQuestion(difficulty: string | undefined, random: RandomFn): string {
     const questions = {
       easy: ["What song is this?", "Which song is playing?"],
       medium: ["Identify this song:", "What is the name of this track?"],
@@ -479,10 +634,10 @@ export class RoundQuestionGeneratorService {
     };
     
     const questionSet = questions[difficulty || 'medium'];
-    return questionSet[Math.floor(Math.random() * questionSet.length)];
+    return this.pickRandom(questionSet, random);
   }
 
-  private getLyricsQuestion(difficulty?: string): string {
+  private getLyricsQuestion(difficulty: string | undefined, random: RandomFn): string {
     const questions = {
       easy: ["Which song contains these lyrics?", "What song has these words?"],
       medium: ["Identify the song from these lyrics:", "Which track contains this verse?"],
@@ -490,67 +645,171 @@ export class RoundQuestionGeneratorService {
     };
     
     const questionSet = questions[difficulty || 'medium'];
-    return questionSet[Math.floor(Math.random() * questionSet.length)];
+    return this.pickRandom(questionSet, random);
   }
 
-  private extractLyricsSnippet(lyrics: string, difficulty?: string): string {
-    const lines = lyrics.split('\n').filter(line => line.trim().length > 10);
-    if (lines.length === 0) return "Sample lyrics...";
+  private extractLyricsSnippet(song: Song, options: QuestionGenerationOptions): string {
+    // Keep the snippet inside a single section so it reads as one passage
+    const blocks = this.getLyricBlocks(song, options)
+      .map(block => block.filter(line => line.trim().length > 10))
+      .filter(block => block.length > 0);
+    if (blocks.length === 0) return "Sample lyrics...";
 
-    const snippetLength = difficulty === 'easy' ? 3 : difficulty === 'hard' ? 1 : 2;
-    const startLine = Math.floor(Math.random() * Math.max(1, lines.length - snippetLength));
+    const lines = this.pickRandom(blocks, options.random);
+    const snippetLength = options.difficulty === 'easy' ? 3 : options.difficulty === 'hard' ? 1 : 2;
+    const startLine = Math.floor(options.random() * Math.max(1, lines.length - snippetLength));
     
     return lines.slice(startLine, startLine + snippetLength).join('\n');
   }
 
+  private getLyricBlocks(song: Song, options: QuestionGenerationOptions): string[][] {
+    const sections = song.metadata?.sections?.length
+      ? song.metadata.sections
+      : parseLyricStructure(song.lyrics);
+    const preferred = options.preferSections ?? this.defaultSectionPreferences[options.difficulty || 'medium'];
+    const mask = options.mask || ((text: string) => text);
+
+    if (preferred?.length) {
+      // Chorus lines also show up inside other sections; drop them unless the chorus is wanted
+      const chorusLines = preferred.includes('chorus')
+        ? new Set<string>()
+        : new Set(sections.filter(section => section.type === 'chorus').flatMap(section => section.lines));
+
+      const blocks = sections
+        .filter(section => preferred.includes(section.type))
+        .map(section => section.lines.filter(line => !chorusLines.has(line)))
+        .filter(block => block.some(line => line.trim().length > 10));
+      if (blocks.length) return blocks.map(block => block.map(mask));
+    }
+
+    return sections.map(section => section.lines.map(mask));
+  }
+
+  private findNextLine(blocks: string[][], line: string): string | undefined {
+    for (const block of blocks) {
+      const index = block.indexOf(line);
+      if (index >= 0) return block[index + 1];
+    }
+    return undefined;
+  }
+
+  // Transliteration supplied with the song wins; Cyrillic and Greek fall back to rule-based romanisation
+  private getRomanizedAnswer(song: Song, answer: string | number | string[]): string | string[] | undefined {
+    if (Array.isArray(answer)) {
+      const lyricWords = this.getRomanizedLyricWords(song);
+      const romanized = answer.map(word => lyricWords.get(word) ?? romanize(word));
+      return romanized.some((word, i) => word !== answer[i]) ? romanized : undefined;
+    }
+    if (typeof answer !== 'string') return undefined;
+
+    const transliteration = song.transliteration || {};
+    const fields: Array<[string | undefined, string | undefined]> = [
+      [song.title, transliteration.title],
+      [song.artist, transliteration.artist],
+      [song.album, transliteration.album],
+    ];
+    const known = fields.find(([native, latin]) => native === answer && latin);
+    const romanized = known ? known[1] : this.getRomanizedLyricWords(song).get(answer) ?? romanize(answer);
+    return romanized !== answer ? romanized : undefined;
+  }
+
+  // Maps native lyric words to romanised ones on lines where both versions have the same word count
+  private getRomanizedLyricWords(song: Song): Map<string, string> {
+    const words = new Map<string, string>();
+    if (!song.lyrics || !song.transliteration?.lyrics) return words;
+
+    const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+    const nativeLines = toLines(song.lyrics);
+    const romanizedLines = toLines(song.transliteration.lyrics);
+    if (nativeLines.length !== romanizedLines.length) return words;
+
+    nativeLines.forEach((line, i) => {
+      const native = tokenizeLine(line, song.language);
+      const latin = tokenizeLine(romanizedLines[i]);
+      if (native.length !== latin.length) return;
+      native.forEach((token, j) => {
+        if (!words.has(token.word)) words.set(token.word, latin[j].word);
+      });
+    });
+    return words;
+  }
+
   // Option generation methods
 
-  private generateArtistOptions(correctArtist: string, difficulty?: string): string[] {
-    const options = [correctArtist];
-    const wrongArtists = this.getRandomArtists(3);
-    options.push(...wrongArtists);
-    return options;
+  private async generateArtistOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    const wrongArtists = await this.getCatalogueOptions(song, 'artist', options, 3, this.getRandomArtists(6, options.random));
+    return [song.artist, ...wrongArtists];
   }
 
-  private generateYearOptions(correctYear: number, difficulty?: string): string[] {
-    const options = [correctYear.toString()];
-    const yearOffsets = difficulty === 'easy' ? [-2, -1, 1] : 
-                       difficulty === 'hard' ? [-5, -3, 3, 5] : 
+  private async generateYearOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    const correctYear = song.releaseYear;
+    const yearOffsets = options.difficulty === 'easy' ? [-2, -1, 1] : 
+                       options.difficulty === 'hard' ? [-5, -3, 3, 5] : 
                        [-3, -1, 1, 3];
-    
-    yearOffsets.forEach(offset => {
-      options.push((correctYear + offset).toString());
-    });
-    
-    return options.slice(0, 4); // Limit to 4 options
+    const offsetYears = yearOffsets.map(offset => (correctYear + offset).toString());
+
+    const wrongYears = await this.getCatalogueOptions(song, 'year', options, 3, offsetYears);
+    return [correctYear.toString(), ...wrongYears];
+  }
+
+  private async generateGenreOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    const wrongGenres = await this.getCatalogueOptions(song, 'genre', options, 3, this.getRandomGenres(6, options.random));
+    return [song.genre, ...wrongGenres];
+  }
+
+  private async generateAlbumOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    const wrongAlbums = await this.getCatalogueOptions(song, 'album', options, 3, this.getRandomAlbums(6, options.random));
+    return [song.album, ...wrongAlbums];
   }
 
-  private generateGenreOptions(correctGenre: string, difficulty?: string): string[] {
-    const options = [correctGenre];
-    const wrongGenres = this.getRandomGenres(3);
-    options.push(...wrongGenres);
-    return options;
+  // Catalogue values first; the fallback list only pads out a thin catalogue
+  private async getCatalogueOptions(
+    song: Song,
+    field: CatalogueField,
+    options: QuestionGenerationOptions,
+    count: number,
+    fallback: string[],
+  ): Promise<string[]> {
+    const answer = field === 'year' ? song.releaseYear?.toString() : song[field];
+    const catalogueValues = await this.distractorService.getCatalogueDistractors(
+      song,
+      field,
+      options.difficulty,
+      count,
+      options.seed,
+    );
+    return this.distractorService.finalizeDistractors(answer, [...catalogueValues, ...fallback], count);
   }
 
-  private generateAlbumOptions(correctAlbum: string, difficulty?: string): string[] {
-    const options = [correctAlbum];
-    const wrongAlbums = this.getRandomAlbums(3);
-    options.push(...wrongAlbums);
-    return options;
+  private async generateAudioClipOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    return [song.title, ...(await this.getTitleDistractors(song, 3, options.random))];
   }
 
-  private generateAudioClipOptions(correctTitle: string, difficulty?: string): string[] {
-    const options = [correctTitle];
-    const wrongTitles = this.getRandomSongTitles(3);
-    options.push(...wrongTitles);
-    return options;
+  private async generateLyricsOptions(song: Song, options: QuestionGenerationOptions): Promise<string[]> {
+    return [song.title, ...(await this.getTitleDistractors(song, 3, options.random))];
   }
 
-  private generateLyricsOptions(correctTitle: string, difficulty?: string): string[] {
-    const options = [correctTitle];
-    const wrongTitles = this.getRandomSongTitles(3);
-    options.push(...wrongTitles);
-    return options;
+  // Catalogue titles first; the static list only pads out a thin catalogue
+  private async getTitleDistractors(song: Song, count: number, random: RandomFn): Promise<string[]> {
+    const catalogueTitles = await this.distractorService.getTitleDistractors(song, count, random);
+    return this.distractorService.finalizeDistractors(
+      song.title,
+      [...catalogueTitles, ...this.getRandomSongTitles(count * 2, random)],
+      count,
+    );
+  }
+
+  // Sequential so the random stream is consumed in blank order. Another blank's answer is never a
+  // distractor, since it would be right in the other slot.
+  private async generateBlankOptions(song: Song, answers: string[], options: QuestionGenerationOptions): Promise<string[][]> {
+    const blankOptions: string[][] = [];
+    for (const [index, answer] of answers.entries()) {
+      const otherAnswers = answers.filter((_, other) => other !== index);
+      const distractors = (await this.distractorService.getLyricDistractors(answer, song, 3, options.random, otherAnswers))
+        .filter(distractor => options.mask(distractor) === distractor);
+      blankOptions.push(this.shuffleArray([answer, ...distractors], options.random));
+    }
+    return blankOptions;
   }
 
   // Hint generation methods
@@ -604,6 +863,40 @@ export class RoundQuestionGeneratorService {
     return hints;
   }
 
+  /**
+   * Context hints first, then for typed answers the answer's shape, the following lyric line and
+   * finally its first letters
+   */
+  private buildHints(
+    questionType: QuestionType,
+    correctAnswer: string | number | string[],
+    contextHints: string[] = [],
+    nextLine?: string
+  ): RoundHint[] {
+    const hints: RoundHint[] = contextHints.map(text => ({ type: HintType.CONTEXT, text }));
+    if (!TYPED_ANSWER_TYPES.includes(questionType) || typeof correctAnswer === 'number') {
+      return hints;
+    }
+
+    const answers = Array.isArray(correctAnswer) ? correctAnswer : [correctAnswer];
+    const words = answers.map(answer => answer.split(/\s+/).filter(Boolean));
+    const letterCounts = words.map(answerWords => answerWords.map(word => Array.from(word).length).join(' + '));
+    hints.push({
+      type: HintType.WORD_COUNT,
+      text: answers.length > 1
+        ? `Letters per missing word: ${letterCounts.join(', ')}`
+        : `${words[0].length} ${words[0].length === 1 ? 'word' : 'words'}, ${letterCounts[0]} letters`,
+    });
+    if (nextLine?.trim()) {
+      hints.push({ type: HintType.NEXT_LINE, text: `Next line: "${nextLine.trim()}"` });
+    }
+    hints.push({
+      type: HintType.FIRST_LETTER,
+      text: `First letters: ${words.map(answerWords => answerWords.map(word => Array.from(word)[0].toUpperCase()).join(' ')).join(', ')}`,
+    });
+    return hints;
+  }
+
   private generateAudioClipHints(song: Song, difficulty?: string): string[] {
     const hints = [];
     hints.push(`Artist: ${song.artist}`);
@@ -623,78 +916,68 @@ export class RoundQuestionGeneratorService {
 
   // Utility methods
 
-  private getRandomArtist(): string {
-    const artists = [
-      'The Beatles', 'Queen', 'Michael Jackson', 'Elvis Presley', 'Madonna',
-      'Prince', 'David Bowie', 'Bob Dylan', 'John Lennon', 'Paul McCartney'
-    ];
-    return artists[Math.floor(Math.random() * artists.length)];
+  private async getRandomArtist(song: Song, options: QuestionGenerationOptions): Promise<string> {
+    const [artist] = await this.getCatalogueOptions(song, 'artist', options, 1, this.getRandomArtists(3, options.random));
+    return artist;
   }
 
-  private getRandomGenre(): string {
-    const genres = [
-      'Rock', 'Pop', 'Jazz', 'Hip-Hop', 'Country', 'Electronic',
-      'Classical', 'Blues', 'R&B', 'Reggae', 'Folk', 'Metal'
-    ];
-    return genres[Math.floor(Math.random() * genres.length)];
+  private async getRandomGenre(song: Song, options: QuestionGenerationOptions): Promise<string> {
+    const [genre] = await this.getCatalogueOptions(song, 'genre', options, 1, this.getRandomGenres(3, options.random));
+    return genre;
   }
 
-  private getRandomAlbum(): string {
-    const albums = [
-      'Greatest Hits', 'The Album', 'Classic Collection', 'Best Of',
-      'Greatest Songs', 'The Collection', 'Essential', 'Anthology'
-    ];
-    return albums[Math.floor(Math.random() * albums.length)];
+  private async getRandomAlbum(song: Song, options: QuestionGenerationOptions): Promise<string> {
+    const [album] = await this.getCatalogueOptions(song, 'album', options, 1, this.getRandomAlbums(3, options.random));
+    return album;
   }
 
-  private getRandomYearOffset(): number {
-    return Math.floor(Math.random() * 10) + 1; // 1-10 years
+  private getRandomYearOffset(random: RandomFn): number {
+    return Math.floor(random() * 10) + 1; // 1-10 years
   }
 
-  private getRandomArtists(count: number): string[] {
+  private getRandomArtists(count: number, random: RandomFn): string[] {
     const artists = [
       'The Beatles', 'Queen', 'Michael Jackson', 'Elvis Presley', 'Madonna',
       'Prince', 'David Bowie', 'Bob Dylan', 'John Lennon', 'Paul McCartney',
       'Led Zeppelin', 'Pink Floyd', 'The Rolling Stones', 'AC/DC', 'U2',
       'Bruce Springsteen', 'Bob Marley', 'Stevie Wonder', 'Aretha Franklin', 'Whitney Houston'
     ];
-    return this.shuffleArray(artists).slice(0, count);
+    return this.shuffleArray(artists, random).slice(0, count);
   }
 
-  private getRandomGenres(count: number): string[] {
+  private getRandomGenres(count: number, random: RandomFn): string[] {
     const genres = [
       'Rock', 'Pop', 'Jazz', 'Hip-Hop', 'Country', 'Electronic',
       'Classical', 'Blues', 'R&B', 'Reggae', 'Folk', 'Metal',
       'Alternative', 'Indie', 'Punk', 'Soul', 'Funk', 'Disco'
     ];
-    return this.shuffleArray(genres).slice(0, count);
+    return this.shuffleArray(genres, random).slice(0, count);
   }
 
-  private getRandomAlbums(count: number): string[] {
+  private getRandomAlbums(count: number, random: RandomFn): string[] {
     const albums = [
       'Greatest Hits', 'The Album', 'Classic Collection', 'Best Of',
       'Greatest Songs', 'The Collection', 'Essential', 'Anthology',
       'Live', 'Unplugged', 'Remastered', 'Deluxe Edition'
     ];
-    return this.shuffleArray(albums).slice(0, count);
+    return this.shuffleArray(albums, random).slice(0, count);
   }
 
-  private getRandomSongTitles(count: number): string[] {
+  private getRandomSongTitles(count: number, random: RandomFn): string[] {
     const titles = [
       'Love Song', 'Dance Floor', 'Summer Nights', 'City Lights',
       'Wild Dreams', 'Electric Storm', 'Midnight Train', 'Golden Age',
       'Fire and Ice', 'Ocean Waves', 'Mountain High', 'River Deep'
     ];
-    return this.shuffleArray(titles).slice(0, count);
+    return this.shuffleArray(titles, random).slice(0, count);
   }
 
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  private shuffleArray<T>(array: T[], random: RandomFn): T[] {
+    return seededShuffle(array, random);
+  }
+
+  private pickRandom<T>(items: T[], random: RandomFn): T {
+    return items[Math.floor(random() * items.length)];
   }
 
   private estimateQuestionTime(questionType: QuestionType, difficulty?: string): number {
@@ -704,6 +987,7 @@ export class RoundQuestionGeneratorService {
       [QuestionType.FILL_IN_BLANK]: 20,
       [QuestionType.AUDIO_CLIP]: 25,
       [QuestionType.LYRICS_GUESS]: 30,
+      [QuestionType.LYRIC_COMPLETION]: 30,
     };
 
     const difficultyMultipliers = {
@@ -725,6 +1009,7 @@ export class RoundQuestionGeneratorService {
       [QuestionType.FILL_IN_BLANK]: 'medium',
       [QuestionType.AUDIO_CLIP]: 'high',
       [QuestionType.LYRICS_GUESS]: 'high',
+      [QuestionType.LYRIC_COMPLETION]: 'high',
     };
 
     const baseLoad = loadMap[questionType] || 'medium';
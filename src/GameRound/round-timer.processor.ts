@@ -0,0 +1,60 @@
+import { Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Process, Processor } from '@nestjs/bull';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Job } from 'bull';
+import { GameRoundService } from './services/game-round.service';
+import { GameSessionOrchestratorService } from './services/game-session-orchestrator.service';
+import {
+  NextRoundJobData,
+  ROUND_TIMER_JOBS,
+  ROUND_TIMER_QUEUE,
+  RoundDeadlineJobData,
+  RoundTimerService,
+} from './services/round-timer.service';
+
+// Longer than a reconciliation pass takes; frees the lock if the leader dies mid-pass
+const RECONCILE_LOCK_TTL_MS = 60000;
+
+@Processor(ROUND_TIMER_QUEUE)
+export class RoundTimerProcessor implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RoundTimerProcessor.name);
+
+  constructor(
+    private readonly gameRoundService: GameRoundService,
+    private readonly orchestrator: GameSessionOrchestratorService,
+    private readonly roundTimerService: RoundTimerService,
+  ) {}
+
+  @Process(ROUND_TIMER_JOBS.ROUND_DEADLINE)
+  async handleRoundDeadline(job: Job<RoundDeadlineJobData>) {
+    const result = await this.gameRoundService.handleRoundDeadline(job.data.roundId);
+    return { ended: !!result };
+  }
+
+  @Process(ROUND_TIMER_JOBS.NEXT_ROUND)
+  async handleNextRound(job: Job<NextRoundJobData>) {
+    const round = await this.orchestrator.startScheduledRound(job.data.sessionId, job.data.runAt);
+    return { roundId: round?.id || null };
+  }
+
+  onApplicationBootstrap() {
+    // Not awaited: the app should come up even while Redis or the database is still unavailable
+    this.reconcile();
+  }
+
+  // Safety net for jobs lost with a Redis flush; a no-op when every timer is in place
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reconcile(): Promise<void> {
+    try {
+      const result = await this.roundTimerService.runAsLeader('reconcile', RECONCILE_LOCK_TTL_MS, async () => ({
+        rounds: await this.gameRoundService.reconcileRoundDeadlines(),
+        sessions: await this.orchestrator.reconcileSessions(),
+      }));
+      if (result && (result.rounds > 0 || result.sessions > 0)) {
+        this.logger.log(`Reconciled ${result.rounds} overdue rounds and ${result.sessions} sessions`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to reconcile round timers:', error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { GameRound, HintType, RoundStatus } from './entities/game-round.entity';
+import { toPublicRound, toPublicStatistics } from './round-view.util';
+
+function makeRound(status: RoundStatus): GameRound {
+  const round = new GameRound();
+  round.id = 'round-1';
+  round.status = status;
+  round.questionData = {
+    question: 'Complete the lyric',
+    correctAnswer: 'dancer',
+    romanizedAnswer: 'dancer',
+    hints: [{ type: HintType.FIRST_LETTER, text: 'First letters: D' }],
+  } as GameRound['questionData'];
+  round.answers = {
+    'player-1': { answer: 'dancer', submittedAt: new Date(), timeElapsed: 1200, isCorrect: true, pointsAwarded: 100 },
+  } as GameRound['answers'];
+  return round;
+}
+
+describe('toPublicRound', () => {
+  it('should hide the answer, hints and submissions while the round is open', () => {
+    const round = makeRound(RoundStatus.ACTIVE);
+
+    const view = toPublicRound(round);
+
+    expect(view.questionData.correctAnswer).toBeUndefined();
+    expect(view.questionData.romanizedAnswer).toBeUndefined();
+    expect(view.questionData.hints).toBeUndefined();
+    expect(view.questionData).toMatchObject({ hintCount: 1 });
+    expect(view.answers).toEqual({});
+    expect(view).toBeInstanceOf(GameRound);
+    expect(round.questionData.correctAnswer).toBe('dancer');
+  });
+
+  it('should return finished rounds unchanged', () => {
+    const round = makeRound(RoundStatus.COMPLETED);
+
+    expect(toPublicRound(round)).toBe(round);
+  });
+});
+
+describe('toPublicStatistics', () => {
+  const playerResults = [
+    { playerId: 'player-1', answer: 'dancer', isCorrect: true, pointsAwarded: 100, responseTime: 1200, rank: 1 },
+  ];
+
+  it('should leave out submitted answers while the round is open', () => {
+    const view = toPublicStatistics({ round: makeRound(RoundStatus.ACTIVE), playerResults });
+
+    expect(view.playerResults[0]).not.toHaveProperty('answer');
+    expect(view.playerResults[0]).toMatchObject({ playerId: 'player-1', rank: 1 });
+    expect(view.round.questionData.correctAnswer).toBeUndefined();
+  });
+
+  it('should return statistics of finished rounds unchanged', () => {
+    const statistics = { round: makeRound(RoundStatus.COMPLETED), playerResults };
+
+    expect(toPublicStatistics(statistics)).toBe(statistics);
+  });
+});
@@ -0,0 +1,34 @@
+import { GameRound, RoundStatus } from './entities/game-round.entity';
+
+const OPEN_STATUSES = [RoundStatus.PENDING, RoundStatus.ACTIVE];
+
+/**
+ * A round as players may see it: while it is open the answer to the question, its hints (revealed
+ * per player on request) and other players' submissions are hidden.
+ */
+export function toPublicRound(round: GameRound): GameRound {
+  if (!OPEN_STATUSES.includes(round.status)) return round;
+
+  const questionData: Partial<GameRound['questionData']> & { hintCount?: number } = { ...round.questionData };
+  delete questionData.correctAnswer;
+  delete questionData.romanizedAnswer;
+  delete questionData.hints;
+  questionData.hintCount = round.questionData.hints?.length || 0;
+  return Object.assign(Object.create(Object.getPrototypeOf(round)), round, { questionData, answers: {} });
+}
+
+/**
+ * Round statistics as players may see them: the round goes through toPublicRound and, while it is
+ * open, each player's submitted answer is left out of the results.
+ */
+export function toPublicStatistics<T extends { round: GameRound; playerResults: Array<{ answer?: unknown }> }>(
+  statistics: T,
+): T {
+  if (!OPEN_STATUSES.includes(statistics.round.status)) return statistics;
+
+  return {
+    ...statistics,
+    round: toPublicRound(statistics.round),
+    playerResults: statistics.playerResults.map(({ answer, ...result }) => result),
+  } as T;
+}
@@ -0,0 +1,94 @@
+import { ScoringMode, ScoringSettings } from './entities/game-session.entity';
+
+export interface AnswerGrade {
+  isCorrect: boolean;
+  partialCredit: number; // 0-1
+  similarity?: number;
+  blankResults?: boolean[];
+}
+
+export interface ScoringContext {
+  grade: AnswerGrade;
+  responseTime: number; // milliseconds since the round started
+  timeLimitMs: number;
+  basePoints: number; // the round's max points times its difficulty multiplier
+  hintPenalty: number; // 0-1 share lost to hints
+  earlierCorrectAnswers: number; // correct answers other players already gave in this round
+  streak: number; // the player's consecutive correct answers in the session's previous rounds
+  settings: ScoringSettings;
+}
+
+export interface ScoringStrategy {
+  readonly mode: ScoringMode | string;
+  readonly usesStreak?: boolean; // the streak is only looked up for strategies that need it
+  score(context: ScoringContext): number;
+}
+
+// Multi-blank answers earn partial points even when not every blank is right
+function earnedPoints({ grade, basePoints, hintPenalty }: ScoringContext): number {
+  if (!grade.isCorrect && grade.partialCredit <= 0) return 0;
+  return basePoints * grade.partialCredit * (1 - hintPenalty);
+}
+
+// Half the points for answering at all, the other half for how quickly
+function timeFactor({ responseTime, timeLimitMs }: ScoringContext): number {
+  const timeBonus = Math.max(0, (timeLimitMs - responseTime) / timeLimitMs);
+  return 0.5 + 0.5 * timeBonus;
+}
+
+export class LinearTimeBonusStrategy implements ScoringStrategy {
+  readonly mode = ScoringMode.LINEAR_TIME_BONUS;
+
+  score(context: ScoringContext): number {
+    return earnedPoints(context) * timeFactor(context);
+  }
+}
+
+export class FixedPointsStrategy implements ScoringStrategy {
+  readonly mode = ScoringMode.FIXED;
+
+  score(context: ScoringContext): number {
+    return earnedPoints(context);
+  }
+}
+
+/**
+ * Only the first fully correct answer in the round scores
+ */
+export class FirstCorrectWinsStrategy implements ScoringStrategy {
+  readonly mode = ScoringMode.FIRST_CORRECT_WINS;
+
+  score(context: ScoringContext): number {
+    if (!context.grade.isCorrect || context.earlierCorrectAnswers > 0) return 0;
+    return context.basePoints * (1 - context.hintPenalty);
+  }
+}
+
+/**
+ * Time-bonus points, multiplied for each correct round in a row before this one
+ */
+export class StreakMultiplierStrategy implements ScoringStrategy {
+  readonly mode = ScoringMode.STREAK;
+  readonly usesStreak = true;
+
+  score(context: ScoringContext): number {
+    const points = earnedPoints(context) * timeFactor(context);
+    if (!context.grade.isCorrect) return points;
+
+    const { streakStep = 0.25, maxStreakMultiplier = 2 } = context.settings;
+    return points * Math.min(maxStreakMultiplier, 1 + streakStep * context.streak);
+  }
+}
+
+/**
+ * Time-bonus points, but a wrong answer costs a share of the round's points
+ */
+export class NegativeMarkingStrategy implements ScoringStrategy {
+  readonly mode = ScoringMode.NEGATIVE_MARKING;
+
+  score(context: ScoringContext): number {
+    const points = earnedPoints(context) * timeFactor(context);
+    if (points > 0) return points;
+    return -context.basePoints * (context.settings.wrongAnswerPenalty ?? 0.25);
+  }
+}
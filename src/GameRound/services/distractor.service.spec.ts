@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DistractorService } from './distractor.service';
+import { Song } from '../entities/song.entity';
+
+describe('DistractorService', () => {
+  let service: DistractorService;
+  let relatedSongs: Partial<Song>[];
+  let catalogueValues: Array<{ value: string }>;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  const song = {
+    id: 'song-1',
+    title: 'Midnight Light',
+    artist: 'The Testers',
+    genre: 'Pop',
+    lyrics: 'We were dancing in the pale moonlight\nHolding on to you so tight',
+  } as Song;
+
+  beforeEach(async () => {
+    relatedSongs = [];
+    catalogueValues = [];
+    queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockImplementation(() => Promise.resolve(relatedSongs)),
+      getRawMany: jest.fn().mockImplementation(() => Promise.resolve(catalogueValues)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DistractorService,
+        {
+          provide: getRepositoryToken(Song),
+          useValue: { createQueryBuilder: jest.fn().mockReturnValue(queryBuilder) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DistractorService>(DistractorService);
+  });
+
+  describe('finalizeDistractors', () => {
+    it('should drop candidates equal to the answer after normalisation', () => {
+      const result = service.finalizeDistractors('Moonlight', ['moonlight!', 'MOONLIGHT', 'Starlight', 'starlight'], 3);
+
+      expect(result).toEqual(['Starlight']);
+    });
+
+    it('should drop excluded values, such as the answers to other blanks', () => {
+      const result = service.finalizeDistractors('night', ['Light', 'tight', 'bright'], 3, ['tight', 'BRIGHT']);
+
+      expect(result).toEqual(['Light']);
+    });
+  });
+
+  describe('getLyricDistractors', () => {
+    it('should prefer rhymes from the catalogue and never return the answer', async () => {
+      relatedSongs = [
+        { id: 'song-2', artist: 'The Testers', lyrics: 'Burning bright tonight\nWe could fly away' },
+      ];
+
+      const result = await service.getLyricDistractors('tight', song, 3);
+
+      expect(result).not.toContain('tight');
+      expect(result.length).toBeGreaterThan(0);
+      expect(result.every(word => /ight$/.test(word))).toBe(true);
+    });
+  });
+
+  describe('getTitleDistractors', () => {
+    it('should use catalogue titles other than the song itself', async () => {
+      relatedSongs = [
+        { id: 'song-2', title: 'Midnight light' },
+        { id: 'song-3', title: 'Morning Glow' },
+      ];
+
+      const result = await service.getTitleDistractors(song, 3);
+
+      expect(result).toEqual(['Morning Glow']);
+    });
+  });
+
+  describe('getCatalogueDistractors', () => {
+    const yearSong = { ...song, releaseYear: 1984 } as Song;
+
+    beforeEach(() => {
+      catalogueValues = ['Artist A', 'Artist B', 'Artist C', 'Artist D', 'the testers'].map(value => ({ value }));
+    });
+
+    it('should be deterministic for the same seed', async () => {
+      const first = await service.getCatalogueDistractors(yearSong, 'artist', 'medium', 3, 'seed-1');
+      const second = await service.getCatalogueDistractors({ ...yearSong, id: 'song-9' } as Song, 'artist', 'medium', 3, 'seed-1');
+
+      expect(first).toHaveLength(3);
+      expect(second).toEqual(first);
+      expect(first).not.toContain('the testers');
+    });
+
+    it('should sample the catalogue pool with the seed', async () => {
+      await service.getCatalogueDistractors(yearSong, 'artist', 'medium', 3, 'seed-4');
+
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('md5(CAST(song.artist AS TEXT) || :poolSeed)');
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith('poolSeed', 'seed-4:artist');
+    });
+
+    it('should keep the selection cache bounded', async () => {
+      for (let i = 0; i < 510; i++) {
+        await service.getCatalogueDistractors(yearSong, 'artist', 'medium', 3, `seed-${i}`);
+      }
+
+      expect(service['selectionCache'].size).toBeLessThanOrEqual(500);
+      expect(service['poolCache'].size).toBeLessThanOrEqual(500);
+    });
+
+    it('should restrict hard distractors to the same genre and decade', async () => {
+      await service.getCatalogueDistractors(yearSong, 'artist', 'hard', 3, 'seed-2');
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('LOWER(song.genre) = LOWER(:genre)', { genre: 'Pop' });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('song.releaseYear BETWEEN :decadeStart AND :decadeEnd', {
+        decadeStart: 1980,
+        decadeEnd: 1989,
+      });
+    });
+
+    it('should pick easy distractors from other genres', async () => {
+      await service.getCatalogueDistractors(yearSong, 'artist', 'easy', 3, 'seed-3');
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(song.genre IS NULL OR LOWER(song.genre) != LOWER(:genre))',
+        { genre: 'Pop' },
+      );
+    });
+  });
+});
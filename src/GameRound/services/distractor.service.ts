@@ -0,0 +1,333 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { Song } from '../entities/song.entity';
+import { normalizeText } from '../../songs/lyrics.util';
+import { createSeededRandom, RandomFn, seededShuffle } from '../seeded-random';
+import {
+  countSyllables,
+  guessPartOfSpeech,
+  isMeaningfulWord,
+  normalizeWord,
+  tokenizeLine,
+  wordsRhyme,
+} from '../lyric-blanks.util';
+
+interface LyricSource {
+  lyrics: string;
+  sameArtist: boolean;
+}
+
+export type CatalogueField = 'artist' | 'album' | 'genre' | 'year';
+
+// How close distractors should be to the song: hard rounds stay in the same genre and decade
+type Similarity = 'similar' | 'any' | 'different';
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const CATALOGUE_COLUMNS: Record<CatalogueField, string> = {
+  artist: 'song.artist',
+  album: 'song.album',
+  genre: 'song.genre',
+  year: 'song.releaseYear',
+};
+
+/**
+ * Builds plausible wrong answers for round questions from the song catalogue.
+ */
+@Injectable()
+export class DistractorService {
+  private readonly logger = new Logger(DistractorService.name);
+  private readonly catalogueSampleSize = 20;
+  private readonly cataloguePoolSize = 50;
+  private readonly cacheTtlMs = 10 * 60 * 1000;
+  private readonly maxCacheEntries = 500; // per cache; the least recently used entries go first
+  private readonly poolCache = new Map<string, CacheEntry<string[]>>();
+  private readonly selectionCache = new Map<string, CacheEntry<string[]>>();
+
+  constructor(
+    @InjectRepository(Song)
+    private readonly songRepository: Repository<Song>,
+  ) {}
+
+  /**
+   * Distractors for a blanked lyric. Single words are matched on rhyme, syllable
+   * count and part of speech; multi-word answers get lines by the same artist.
+   */
+  async getLyricDistractors(
+    answer: string,
+    song: Song,
+    count: number = 3,
+    random: RandomFn = Math.random,
+    exclude: string[] = [],
+  ): Promise<string[]> {
+    const sources = await this.loadLyricSources(song);
+    const isPhrase = answer.trim().split(/\s+/).length > 1;
+    const candidates = isPhrase
+      ? this.rankLineCandidates(answer, sources, random)
+      : this.rankWordCandidates(answer, sources, random);
+
+    return this.finalizeDistractors(answer, candidates, count, exclude);
+  }
+
+  /**
+   * Other song titles, preferring the same artist and then the same genre.
+   */
+  async getTitleDistractors(song: Song, count: number = 3, random: RandomFn = Math.random): Promise<string[]> {
+    const [sameArtist, sameGenre] = await Promise.all([
+      this.findRelatedSongs(song, 'artist'),
+      song.genre ? this.findRelatedSongs(song, 'genre') : Promise.resolve([]),
+    ]);
+
+    const titles = [...seededShuffle(sameArtist, random), ...seededShuffle(sameGenre, random)].map(s => s.title);
+    return this.finalizeDistractors(song.title, titles, count);
+  }
+
+  /**
+   * Distinct artist/album/genre/year values from the catalogue. Difficulty controls
+   * similarity: hard picks from the same genre and decade, easy from other genres.
+   * With a seed the selection is deterministic and cached for replays.
+   */
+  async getCatalogueDistractors(
+    song: Song,
+    field: CatalogueField,
+    difficulty: string = 'medium',
+    count: number = 3,
+    seed?: string,
+  ): Promise<string[]> {
+    const answer = this.getFieldValue(song, field);
+    if (!answer) return [];
+
+    const selectionKey = seed ? `${seed}:${song.id}:${field}:${difficulty}:${count}` : null;
+    const cached = selectionKey ? this.getCached(this.selectionCache, selectionKey) : null;
+    if (cached) return cached;
+
+    const random: RandomFn = seed ? createSeededRandom(`${seed}:${field}`) : Math.random;
+    const preferred: Similarity = difficulty === 'hard' ? 'similar' : difficulty === 'easy' ? 'different' : 'any';
+
+    // Relax the similarity constraint when the catalogue is too thin
+    let selected: string[] = [];
+    for (const similarity of this.relaxationOrder(preferred)) {
+      const pool = await this.getCataloguePool(song, field, similarity, seed ? `${seed}:${field}` : undefined);
+      selected = this.finalizeDistractors(answer, [...selected, ...seededShuffle(pool, random)], count);
+      if (selected.length >= count) break;
+    }
+
+    if (selectionKey) this.setCached(this.selectionCache, selectionKey, selected);
+    return selected;
+  }
+
+  /**
+   * Drops blanks, duplicates and anything equal to the answer, or to a value in `exclude`, after
+   * normalisation.
+   */
+  finalizeDistractors(answer: string, candidates: string[], count: number, exclude: string[] = []): string[] {
+    const seen = new Set([answer, ...exclude].map(value => normalizeText(value || '')));
+    const result: string[] = [];
+
+    for (const candidate of candidates) {
+      const key = normalizeText(candidate || '');
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      result.push(candidate);
+      if (result.length >= count) break;
+    }
+
+    return result;
+  }
+
+  private rankWordCandidates(answer: string, sources: LyricSource[], random: RandomFn): string[] {
+    const answerSyllables = countSyllables(answer);
+    const answerPos = guessPartOfSpeech(answer);
+    const scores = new Map<string, { word: string; score: number }>();
+
+    for (const source of sources) {
+      for (const line of source.lyrics.split('\n')) {
+        for (const { word } of tokenizeLine(line)) {
+          const key = normalizeWord(word);
+          if (!isMeaningfulWord(word) || scores.has(key)) continue;
+
+          let score = 0;
+          if (wordsRhyme(answer, word)) score += 3;
+          if (countSyllables(word) === answerSyllables) score += 2;
+          const pos = guessPartOfSpeech(word);
+          if (answerPos !== 'unknown' && pos === answerPos) score += 1.5;
+          if (source.sameArtist) score += 0.5;
+
+          if (score >= 2) {
+            scores.set(key, { word: this.matchCase(word, answer), score });
+          }
+        }
+      }
+    }
+
+    return seededShuffle(Array.from(scores.values()), random)
+      .sort((a, b) => b.score - a.score)
+      .map(candidate => candidate.word);
+  }
+
+  private rankLineCandidates(answer: string, sources: LyricSource[], random: RandomFn): string[] {
+    const answerWords = answer.trim().split(/\s+/);
+    const answerEnd = answerWords[answerWords.length - 1];
+
+    const lines = sources
+      .filter(source => source.sameArtist)
+      .flatMap(source => source.lyrics.split('\n'))
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const words = line.split(/\s+/);
+        let score = -Math.abs(words.length - answerWords.length);
+        if (wordsRhyme(answerEnd, words[words.length - 1])) score += 2;
+        return { line, score };
+      });
+
+    return seededShuffle(lines, random)
+      .sort((a, b) => b.score - a.score)
+      .map(candidate => candidate.line);
+  }
+
+  private async loadLyricSources(song: Song): Promise<LyricSource[]> {
+    try {
+      const [sameArtist, sameGenre] = await Promise.all([
+        this.findRelatedSongs(song, 'artist'),
+        song.genre ? this.findRelatedSongs(song, 'genre') : Promise.resolve([]),
+      ]);
+
+      return [
+        { lyrics: song.lyrics || '', sameArtist: true },
+        ...sameArtist.map(s => ({ lyrics: s.lyrics || '', sameArtist: true })),
+        ...sameGenre.map(s => ({ lyrics: s.lyrics || '', sameArtist: false })),
+      ];
+    } catch (error) {
+      this.logger.error(`Failed to load lyric distractor sources for song ${song.id}:`, error);
+      return [{ lyrics: song.lyrics || '', sameArtist: true }];
+    }
+  }
+
+  private async findRelatedSongs(song: Song, relation: 'artist' | 'genre'): Promise<Song[]> {
+    const qb = this.songRepository
+      .createQueryBuilder('song')
+      .where('song.id != :id', { id: song.id });
+
+    if (relation === 'artist') {
+      qb.andWhere('LOWER(song.artist) = LOWER(:artist)', { artist: song.artist });
+    } else {
+      qb.andWhere('LOWER(song.genre) = LOWER(:genre)', { genre: song.genre })
+        .andWhere('LOWER(song.artist) != LOWER(:artist)', { artist: song.artist });
+    }
+
+    return qb
+      .orderBy('song.createdAt', 'DESC')
+      .take(this.catalogueSampleSize)
+      .getMany();
+  }
+
+  /**
+   * A random sample of distinct catalogue values, repeatable for the same seed. Only seeded pools
+   * are cached, since an unseeded one is drawn for a single question.
+   */
+  private async getCataloguePool(
+    song: Song,
+    field: CatalogueField,
+    similarity: Similarity,
+    seed?: string,
+  ): Promise<string[]> {
+    const decade = song.releaseYear ? Math.floor(song.releaseYear / 10) * 10 : null;
+    const key = seed
+      ? `${seed}:${similarity}:${song.genre || ''}:${decade ?? ''}:${this.getFieldValue(song, field)}`
+      : null;
+    const cached = key ? this.getCached(this.poolCache, key) : null;
+    if (cached) return cached;
+
+    const column = CATALOGUE_COLUMNS[field];
+    const qb = this.songRepository
+      .createQueryBuilder('song')
+      .select(column, 'value')
+      .where(`${column} IS NOT NULL`)
+      .andWhere(`LOWER(CAST(${column} AS TEXT)) != LOWER(:answer)`, { answer: this.getFieldValue(song, field) });
+
+    if (similarity === 'similar') {
+      if (song.genre && field !== 'genre') {
+        qb.andWhere('LOWER(song.genre) = LOWER(:genre)', { genre: song.genre });
+      }
+      if (decade !== null) {
+        qb.andWhere('song.releaseYear BETWEEN :decadeStart AND :decadeEnd', {
+          decadeStart: decade,
+          decadeEnd: decade + 9,
+        });
+      }
+    } else if (similarity === 'different') {
+      if (song.genre && field !== 'genre') {
+        qb.andWhere('(song.genre IS NULL OR LOWER(song.genre) != LOWER(:genre))', { genre: song.genre });
+      }
+      if (decade !== null && field === 'year') {
+        qb.andWhere('song.releaseYear NOT BETWEEN :decadeStart AND :decadeEnd', {
+          decadeStart: decade,
+          decadeEnd: decade + 9,
+        });
+      }
+    }
+
+    try {
+      const rows = await qb
+        .groupBy(column)
+        .orderBy(`md5(CAST(${column} AS TEXT) || :poolSeed)`)
+        .setParameter('poolSeed', seed || crypto.randomBytes(8).toString('hex'))
+        .limit(this.cataloguePoolSize)
+        .getRawMany();
+      const pool = rows.map(row => String(row.value));
+      if (key) this.setCached(this.poolCache, key, pool);
+      return pool;
+    } catch (error) {
+      this.logger.error(`Failed to load ${field} distractors for song ${song.id}:`, error);
+      return [];
+    }
+  }
+
+  private relaxationOrder(preferred: Similarity): Similarity[] {
+    return preferred === 'any' ? ['any'] : [preferred, 'any'];
+  }
+
+  private getFieldValue(song: Song, field: CatalogueField): string | null {
+    const value = field === 'year' ? song.releaseYear : song[field];
+    return value !== null && value !== undefined && value !== '' ? String(value) : null;
+  }
+
+  // Maps keep insertion order, so re-inserting on every hit keeps the least recently used first
+  private getCached<T>(cache: Map<string, CacheEntry<T>>, key: string): T | null {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    cache.delete(key);
+    if (Date.now() > entry.expiresAt) {
+      return null;
+    }
+    cache.set(key, entry);
+    return entry.value;
+  }
+
+  private setCached<T>(cache: Map<string, CacheEntry<T>>, key: string, value: T): void {
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: Date.now() + this.cacheTtlMs });
+
+    if (cache.size > this.maxCacheEntries) {
+      const now = Date.now();
+      for (const [cachedKey, entry] of cache) {
+        if (entry.expiresAt < now) cache.delete(cachedKey);
+      }
+      for (const cachedKey of cache.keys()) {
+        if (cache.size <= this.maxCacheEntries) break;
+        cache.delete(cachedKey);
+      }
+    }
+  }
+
+  private matchCase(word: string, reference: string): string {
+    const lower = word.toLowerCase();
+    return /^[A-Z]/.test(reference) ? lower.charAt(0).toUpperCase() + lower.slice(1) : lower;
+  }
+}
@@ -0,0 +1,242 @@
+import { BadRequestException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { GameRoundService } from './game-round.service';
+import { ScoringService } from './scoring.service';
+import { GameRoundRepository } from '../game-round.repository';
+import { GameRound, HintType, QuestionType, ROUND_NUMBER_INDEX, RoundStatus } from '../entities/game-round.entity';
+import { GAME_ROUND_EVENTS } from '../game-round.events';
+
+describe('GameRoundService', () => {
+  let service: GameRoundService;
+  let rows: Map<string, GameRound>;
+  let eventEmitter: { emit: jest.Mock };
+  let questionGenerator: { generateQuestion: jest.Mock };
+
+  // Rows are copied in and out, like a database would, so stale reads stay stale
+  const copy = (round: GameRound) => Object.assign(new GameRound(), structuredClone({ ...round }));
+
+  const activeRound = (overrides: Partial<GameRound> = {}): GameRound =>
+    Object.assign(new GameRound(), {
+      id: 'round-1',
+      sessionId: 'session-1',
+      songId: 'song-1',
+      roundNumber: 1,
+      questionType: QuestionType.MULTIPLE_CHOICE,
+      status: RoundStatus.ACTIVE,
+      questionData: { question: 'Which song?', options: ['A', 'B'], correctAnswer: 'A' },
+      answers: {},
+      startTime: new Date(Date.now() - 60000),
+      timeLimitMs: 30000,
+      maxPoints: 1000,
+      pointsAwarded: 0,
+      difficultyMultiplier: 1,
+      statistics: {},
+      replayData: { events: [], interactions: {}, performance: { renderTime: 0, loadTime: 0 } },
+      metadata: {},
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    rows = new Map();
+    eventEmitter = { emit: jest.fn() };
+
+    // Transactions run one at a time, which is what the row lock guarantees for a single round
+    let lock: Promise<unknown> = Promise.resolve();
+    const manager = {
+      findOne: jest.fn().mockImplementation(async (_entity, { where }) => (rows.has(where.id) ? copy(rows.get(where.id)) : null)),
+      save: jest.fn().mockImplementation(async (round: GameRound) => {
+        rows.set(round.id, copy(round));
+        return round;
+      }),
+    };
+    const typeormRepository = {
+      manager: {
+        transaction: jest.fn().mockImplementation(work => {
+          const run = lock.then(() => work(manager));
+          lock = run.catch(() => undefined);
+          return run;
+        }),
+      },
+      findOne: jest.fn().mockImplementation(async ({ where, order }) => {
+        if (where.id) return rows.has(where.id) ? copy(rows.get(where.id)) : null;
+        const inSession = [...rows.values()].filter(round => round.sessionId === where.sessionId);
+        if (order?.roundNumber) return inSession.sort((a, b) => b.roundNumber - a.roundNumber)[0] || null;
+        return inSession.find(round => round.roundNumber === where.roundNumber) || null;
+      }),
+      find: jest.fn().mockImplementation(async ({ where }) =>
+        [...rows.values()].filter(round => round.status === where.status).map(copy),
+      ),
+      create: jest.fn().mockImplementation(data => Object.assign(new GameRound(), data)),
+      save: jest.fn().mockImplementation(async (round: GameRound) => {
+        const taken = [...rows.values()].some(
+          other => other.sessionId === round.sessionId && other.roundNumber === round.roundNumber,
+        );
+        if (taken) {
+          throw Object.assign(new QueryFailedError('INSERT', [], new Error('duplicate key')), {
+            code: '23505',
+            constraint: ROUND_NUMBER_INDEX,
+          });
+        }
+        round.id = round.id || `round-${rows.size + 1}`;
+        rows.set(round.id, copy(round));
+        return round;
+      }),
+    };
+    const roundTimerService = {
+      cancelRoundDeadline: jest.fn().mockResolvedValue(true),
+      scheduleRoundDeadline: jest.fn().mockResolvedValue(undefined),
+    };
+    questionGenerator = {
+      generateQuestion: jest.fn().mockResolvedValue({ question: 'Which song?', options: ['A', 'B'], correctAnswer: 'A' }),
+    };
+    const session = { id: 'session-1', hostId: 'host-1', status: 'active', settings: {} };
+
+    service = new GameRoundService(
+      new GameRoundRepository(typeormRepository as any),
+      questionGenerator as any,
+      { findOne: jest.fn().mockResolvedValue({ id: 'song-1', title: 'Midnight Light', artist: 'The Testers' }) } as any,
+      { findOne: jest.fn().mockResolvedValue(session) } as any,
+      { isSongAllowed: jest.fn().mockResolvedValue(true) } as any,
+      { record: jest.fn().mockResolvedValue(undefined) } as any,
+      eventEmitter as any,
+      roundTimerService as any,
+      new ScoringService(),
+    );
+  });
+
+  const emitted = (event: string) => eventEmitter.emit.mock.calls.filter(([name]) => name === event);
+
+  describe('endRound', () => {
+    it('should end a round once when the host and its deadline job race', async () => {
+      rows.set('round-1', activeRound());
+
+      const [byHost, byDeadline] = await Promise.all([
+        service.endRound('round-1').catch(error => error),
+        service.handleRoundDeadline('round-1'),
+      ]);
+
+      expect(rows.get('round-1').status).toBe(RoundStatus.COMPLETED);
+      expect(emitted(GAME_ROUND_EVENTS.ENDED)).toHaveLength(1);
+      expect([byHost, byDeadline].filter(result => result?.round)).toHaveLength(1);
+    });
+
+    it('should reject ending a round that was skipped meanwhile', async () => {
+      rows.set('round-1', activeRound());
+
+      const [skipped, ended] = await Promise.all([
+        service.skipRound('round-1', 'Host skipped'),
+        service.endRound('round-1').catch(error => error),
+      ]);
+
+      expect(skipped.status).toBe(RoundStatus.SKIPPED);
+      expect(ended).toBeInstanceOf(BadRequestException);
+      expect(rows.get('round-1').status).toBe(RoundStatus.SKIPPED);
+      expect(emitted(GAME_ROUND_EVENTS.ENDED)).toHaveLength(0);
+      expect(emitted(GAME_ROUND_EVENTS.SKIPPED)).toHaveLength(1);
+    });
+
+    it('should count each round once when reconciliation races its deadline job', async () => {
+      rows.set('round-1', activeRound());
+
+      const [reconciled, byDeadline] = await Promise.all([
+        service.reconcileRoundDeadlines(),
+        service.handleRoundDeadline('round-1'),
+      ]);
+
+      expect(emitted(GAME_ROUND_EVENTS.ENDED)).toHaveLength(1);
+      expect(reconciled + (byDeadline ? 1 : 0)).toBe(1);
+    });
+  });
+
+  describe('revealHint', () => {
+    const withHints = () =>
+      activeRound({
+        questionData: {
+          question: 'Which song?',
+          options: ['A', 'B'],
+          correctAnswer: 'A',
+          hints: [
+            { type: HintType.CONTEXT, text: 'Released in 2019' },
+            { type: HintType.FIRST_LETTER, text: 'Starts with M' },
+          ],
+        },
+        metadata: { gameSettings: { difficulty: 'medium' } },
+      });
+    const hintEvents = () => rows.get('round-1').replayData.events.filter(event => event.action === 'HINT_USED');
+
+    it('should charge a hint once when it is requested twice at the same moment', async () => {
+      rows.set('round-1', withHints());
+
+      const [first, second] = await Promise.all([
+        service.revealHint('round-1', 'player-1', 0),
+        service.revealHint('round-1', 'player-1', 0),
+      ]);
+
+      expect(hintEvents()).toHaveLength(1);
+      expect(first).toEqual(second);
+      expect(second.revealed).toEqual([expect.objectContaining({ text: 'Released in 2019' })]);
+      expect(second.totalPenalty).toBe(second.revealed[0].penalty);
+      expect(second.next).toEqual(expect.objectContaining({ index: 1, type: HintType.FIRST_LETTER }));
+    });
+
+    it('should refuse to reveal hints out of order', async () => {
+      rows.set('round-1', withHints());
+
+      await expect(service.revealHint('round-1', 'player-1', 1)).rejects.toThrow(
+        'Hints are revealed in order; the next one is hint 0',
+      );
+      expect(hintEvents()).toHaveLength(0);
+
+      await service.revealHint('round-1', 'player-1', 0);
+      const status = await service.revealHint('round-1', 'player-1', 1);
+
+      expect(status.revealed.map(hint => hint.type)).toEqual([HintType.CONTEXT, HintType.FIRST_LETTER]);
+      expect(status.next).toBeNull();
+      expect(hintEvents()).toHaveLength(2);
+    });
+
+    it('should keep each player\'s hints separate', async () => {
+      rows.set('round-1', withHints());
+
+      await service.revealHint('round-1', 'player-1', 0);
+      const status = await service.revealHint('round-1', 'player-2', 0);
+
+      expect(status.revealed).toHaveLength(1);
+      expect(hintEvents().map(event => event.playerId)).toEqual(['player-1', 'player-2']);
+    });
+  });
+
+  describe('createRound', () => {
+    it('should take the next round number when a concurrent round took this one', async () => {
+      questionGenerator.generateQuestion.mockImplementationOnce(async () => {
+        // Another createRound for the session inserts round 1 while this question is generated
+        rows.set('other-round', activeRound({ id: 'other-round', roundNumber: 1 }));
+        return { question: 'Which song?', options: ['A', 'B'], correctAnswer: 'A' };
+      });
+
+      const round = await service.createRound({ sessionId: 'session-1', songId: 'song-1', seed: 'fixed' });
+
+      expect(round.roundNumber).toBe(2);
+      expect(round.metadata.seed).toBe('fixed');
+      // Regenerated for the new number, since the question's seed includes it
+      expect(questionGenerator.generateQuestion.mock.calls.map(([, , options]) => options.seed)).toEqual([
+        'session-1:1:fixed',
+        'session-1:2:fixed',
+      ]);
+      expect([...rows.values()].map(stored => stored.roundNumber).sort()).toEqual([1, 2]);
+    });
+
+    it('should give up when the round number keeps being taken', async () => {
+      questionGenerator.generateQuestion.mockImplementation(async () => {
+        const taken = [...rows.values()].length + 1;
+        rows.set(`other-round-${taken}`, activeRound({ id: `other-round-${taken}`, roundNumber: taken }));
+        return { question: 'Which song?', options: ['A', 'B'], correctAnswer: 'A' };
+      });
+
+      await expect(service.createRound({ sessionId: 'session-1', songId: 'song-1' })).rejects.toMatchObject({
+        constraint: ROUND_NUMBER_INDEX,
+      });
+      expect(questionGenerator.generateQuestion).toHaveBeenCalledTimes(3);
+    });
+  });
+});
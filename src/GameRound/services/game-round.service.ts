@@ -1,11 +1,28 @@
-import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { GameRoundRepository, CreateRoundDto } from '../game-round.repository';
-import { RoundQuestionGeneratorService, QuestionGenerationOptions } from '../round-question-generator.service';
-import { GameRound, QuestionType, RoundStatus } from '../entities/game-round.entity';
-import { Song } from '../entities/song.entity';
-import { GameSession } from '../entities/game-session.entity';
+import { RoundQuestionGeneratorService, QuestionGenerationOptions, GeneratedQuestion } from '../round-question-generator.service';
+import { GameRound, HintType, QuestionType, RoundHint, RoundStatus } from '../entities/game-round.entity';
+import { LyricSectionType, Song } from '../entities/song.entity';
+import { ContentRating, GameSession } from '../entities/game-session.entity';
+import { ContentFilterService } from '../../songs/content-filter.service';
+import { ModerationStatus } from '../../songs/entities/song-moderation-case.entity';
+import { SongInteractionType } from '../../songs/entities/song-interaction.entity';
+import { SongInteractionService } from '../../songs/song-interaction.service';
+import { RoundTimerService } from './round-timer.service';
+import { ScoringService } from './scoring.service';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { createSeededRandom, RandomFn } from '../seeded-random';
+import {
+  AnswerAcceptedEvent,
+  GAME_ROUND_EVENTS,
+  RoundEndedEvent,
+  RoundExtendedEvent,
+  RoundSkippedEvent,
+  RoundStartedEvent,
+} from '../game-round.events';
 
 export interface CreateGameRoundDto {
   sessionId: string;
@@ -15,7 +32,9 @@ export interface CreateGameRoundDto {
   timeLimitMs?: number;
   maxPoints?: number;
   includeHints?: boolean;
+  preferSections?: LyricSectionType[];
   customSettings?: Record<string, any>;
+  seed?: string; // generated when omitted
 }
 
 export interface StartRoundDto {
@@ -27,15 +46,23 @@ export interface StartRoundDto {
 export interface SubmitAnswerDto {
   roundId: string;
   playerId: string;
-  answer: string | number;
+  answer: string | number | string[]; // one entry per blank for LYRIC_COMPLETION
   submittedAt?: Date;
 }
 
+export interface RegeneratedQuestion {
+  roundId: string;
+  seed: string;
+  questionType: QuestionType;
+  questionData: GeneratedQuestion;
+  matchesRecorded: boolean; // false when the catalogue changed since the round was created
+}
+
 export interface RoundResult {
   round: GameRound;
   playerResults: Array<{
     playerId: string;
-    answer: string | number;
+    answer: string | number | string[];
     isCorrect: boolean;
     pointsAwarded: number;
     responseTime: number;
@@ -51,6 +78,14 @@ export interface RoundResult {
   };
 }
 
+export interface HintStatus {
+  roundId: string;
+  totalHints: number;
+  revealed: Array<RoundHint & { penalty: number }>;
+  next: { index: number; type: HintType; penalty: number } | null; // shown before the player confirms
+  totalPenalty: number; // share of the player's points lost when their answer is scored
+}
+
 export interface DifficultySettings {
   easy: {
     timeLimitMs: number;
@@ -72,10 +107,25 @@ export interface DifficultySettings {
   };
 }
 
+// How much of the difficulty's hint penalty each hint type costs
+const HINT_PENALTY_FACTORS: Record<HintType, number> = {
+  [HintType.CONTEXT]: 1,
+  [HintType.WORD_COUNT]: 1,
+  [HintType.NEXT_LINE]: 1.5,
+  [HintType.FIRST_LETTER]: 2,
+};
+// A correct answer is always worth something, however many hints were used
+const MAX_HINT_PENALTY = 0.9;
+
+// Attempts at a round number before createRound gives up under concurrent round creation
+const ROUND_NUMBER_ATTEMPTS = 3;
+
+// A deadline job may fire slightly early; rounds this close to their deadline are ended anyway
+const DEADLINE_TOLERANCE_MS = 250;
+
 @Injectable()
-export class GameRoundService implements OnModuleDestroy {
+export class GameRoundService {
   private readonly logger = new Logger(GameRoundService.name);
-  private readonly autoEndTimeouts = new Map<string, NodeJS.Timeout>();
   
   private readonly difficultySettings: DifficultySettings = {
     easy: {
@@ -105,8 +155,41 @@ export class GameRoundService implements OnModuleDestroy {
     private readonly songRepository: Repository<Song>,
     @InjectRepository(GameSession)
     private readonly sessionRepository: Repository<GameSession>,
+    private readonly contentFilterService: ContentFilterService,
+    private readonly interactionService: SongInteractionService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly roundTimerService: RoundTimerService,
+    private readonly scoringService: ScoringService,
   ) {}
 
+  /**
+   * Only the session host may create, start, extend, skip or end rounds
+   */
+  async assertSessionHost(sessionId: string, userId: string): Promise<GameSession> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+    if (session.hostId !== userId) {
+      throw new ForbiddenException('Only the session host can do this');
+    }
+    return session;
+  }
+
+  /**
+   * Players who joined the session, and its host, may follow and answer its rounds
+   */
+  async assertSessionMember(sessionId: string, userId: string): Promise<GameSession> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+    if (session.hostId !== userId && !(session.players || []).some(player => player.id === userId)) {
+      throw new ForbiddenException('You are not a player in this session');
+    }
+    return session;
+  }
+
   /**
    * Create a new game round with automatic question generation
    */
@@ -135,17 +218,63 @@ export class GameRoundService implements OnModuleDestroy {
       throw new NotFoundException(`Song ${dto.songId} not found`);
     }
 
+    if (song.moderationStatus && song.moderationStatus !== ModerationStatus.APPROVED) {
+      throw new BadRequestException(`Song ${dto.songId} is ${song.moderationStatus} in moderation and cannot be played`);
+    }
+
+    const contentRating = session.settings?.contentRating || 'explicit';
+    if (!(await this.contentFilterService.isSongAllowed(song, contentRating))) {
+      throw new BadRequestException(`Song ${dto.songId} is not allowed for ${contentRating} sessions`);
+    }
+
+    // Round numbers are unique per session; when a concurrent createRound takes ours, the question
+    // is generated again for the next number, since its seed depends on it
+    let round: GameRound | undefined;
+    for (let attempt = 1; !round; attempt++) {
+      try {
+        round = await this.insertRound(dto, session, song, contentRating);
+      } catch (error) {
+        if (attempt >= ROUND_NUMBER_ATTEMPTS || !this.gameRoundRepository.isRoundNumberTaken(error)) {
+          throw error;
+        }
+        this.logger.warn(`Round number taken in session ${dto.sessionId}, retrying`);
+      }
+    }
+    await this.interactionService.record(dto.songId, SongInteractionType.ROUND, { contextId: dto.sessionId });
+    
+    this.logger.log(`Created round ${round.id} for session ${dto.sessionId}`);
+    return round;
+  }
+
+  /**
+   * Generate the question for the session's next round number and insert the round
+   */
+  private async insertRound(
+    dto: CreateGameRoundDto,
+    session: GameSession,
+    song: Song,
+    contentRating: ContentRating
+  ): Promise<GameRound> {
+    // Seed everything random about the round so it can be regenerated later
+    const seed = dto.seed || crypto.randomBytes(8).toString('hex');
+    const roundNumber = await this.gameRoundRepository.getNextRoundNumber(dto.sessionId);
+    const roundSeed = this.getRoundSeed(dto.sessionId, roundNumber, seed);
+
     // Determine question type if not specified
-    const questionType = dto.questionType || this.selectQuestionType(dto.difficulty || 'medium');
+    const questionType = dto.questionType
+      || this.selectQuestionType(dto.difficulty || 'medium', createSeededRandom(`${roundSeed}:type`));
     
     // Generate question with appropriate difficulty
     const questionOptions: QuestionGenerationOptions = {
       difficulty: dto.difficulty || 'medium',
       includeHints: dto.includeHints || false,
+      preferSections: dto.preferSections,
       customSettings: dto.customSettings,
+      contentRating,
+      seed: roundSeed,
     };
 
-    const questionData = this.questionGenerator.generateQuestion(
+    const questionData = await this.questionGenerator.generateQuestion(
       song,
       questionType,
       questionOptions
@@ -164,6 +293,7 @@ export class GameRoundService implements OnModuleDestroy {
       timeLimitMs: dto.timeLimitMs || settings.timeLimitMs,
       maxPoints: dto.maxPoints || settings.maxPoints,
       difficultyMultiplier: this.getDifficultyMultiplier(difficulty),
+      roundNumber,
       metadata: {
         songInfo: {
           title: song.title,
@@ -174,15 +304,59 @@ export class GameRoundService implements OnModuleDestroy {
         gameSettings: {
           difficulty,
           includeHints: dto.includeHints,
+          preferSections: dto.preferSections,
+          contentRating,
           ...dto.customSettings,
         },
+        // Fixed for the round, even if the session's rules change while it runs
+        scoring: session.settings?.scoring || {},
+        seed,
       },
     };
 
-    const round = await this.gameRoundRepository.create(roundData);
-    
-    this.logger.log(`Created round ${round.id} for session ${dto.sessionId}`);
-    return round;
+    return this.gameRoundRepository.create(roundData);
+  }
+
+  /**
+   * Regenerate a round's question and option order from its seed, for replays and disputes.
+   * Uses the seed stored on the round unless one is given.
+   */
+  async regenerateQuestion(sessionId: string, roundNumber: number, seed?: string): Promise<RegeneratedQuestion> {
+    const round = await this.gameRoundRepository.findBySessionAndRoundNumber(sessionId, roundNumber);
+    if (!round) {
+      throw new NotFoundException(`Round ${roundNumber} of session ${sessionId} not found`);
+    }
+
+    const roundSeed = seed || round.metadata?.seed;
+    if (!roundSeed) {
+      throw new BadRequestException(`Round ${round.id} was created without a seed`);
+    }
+
+    const song = await this.songRepository.findOne({
+      where: { id: round.songId },
+    });
+
+    if (!song) {
+      throw new NotFoundException(`Song ${round.songId} not found`);
+    }
+
+    const { difficulty, includeHints, preferSections, contentRating, ...customSettings } = round.metadata.gameSettings || {};
+    const questionData = await this.questionGenerator.generateQuestion(song, round.questionType, {
+      difficulty: difficulty || 'medium',
+      includeHints: includeHints || false,
+      preferSections,
+      contentRating,
+      customSettings,
+      seed: this.getRoundSeed(sessionId, roundNumber, roundSeed),
+    });
+
+    return {
+      roundId: round.id,
+      seed: roundSeed,
+      questionType: round.questionType,
+      questionData,
+      matchesRecorded: this.isSameQuestion(questionData, round.questionData),
+    };
   }
 
   /**
@@ -200,16 +374,26 @@ export class GameRoundService implements OnModuleDestroy {
       throw new BadRequestException(`Cannot start round in ${round.status} status`);
     }
 
-    // Apply time extension if provided
+    // Apply time extension if provided; saved so the deadline can be recomputed after a restart
     if (dto.timeExtension && dto.timeExtension > 0) {
       round.timeLimitMs += dto.timeExtension;
+      await this.gameRoundRepository.updateRound(dto.roundId, { timeLimitMs: round.timeLimitMs });
+    }
+
+    // Saved so reconciliation leaves rounds the host ends by hand alone
+    if (dto.autoEnd === false) {
+      await this.gameRoundRepository.updateRound(dto.roundId, {
+        metadata: { ...round.metadata, autoEnd: false },
+      });
     }
 
     const startedRound = await this.gameRoundRepository.startRound(dto.roundId);
+    await this.interactionService.record(round.songId, SongInteractionType.PLAY, { contextId: round.sessionId });
+    this.eventEmitter.emit(GAME_ROUND_EVENTS.STARTED, { round: startedRound } as RoundStartedEvent);
     
     // Set up auto-end timer if requested
     if (dto.autoEnd !== false) {
-      this.scheduleAutoEnd(dto.roundId, round.timeLimitMs);
+      await this.scheduleAutoEnd(startedRound);
     }
 
     this.logger.log(`Started round ${dto.roundId} with ${round.timeLimitMs}ms time limit`);
@@ -224,6 +408,8 @@ export class GameRoundService implements OnModuleDestroy {
     pointsAwarded: number;
     responseTime: number;
     rank?: number;
+    blankResults?: boolean[];
+    hintPenalty: number;
   }> {
     this.logger.log(`Player ${dto.playerId} submitting answer for round ${dto.roundId}`);
 
@@ -236,6 +422,10 @@ export class GameRoundService implements OnModuleDestroy {
       throw new BadRequestException('Cannot submit answer to inactive round');
     }
 
+    if (round.answers?.[dto.playerId]) {
+      throw new BadRequestException('Answer already submitted for this round');
+    }
+
     const submittedAt = dto.submittedAt || new Date();
     const responseTime = round.startTime 
       ? submittedAt.getTime() - round.startTime.getTime()
@@ -247,37 +437,63 @@ export class GameRoundService implements OnModuleDestroy {
       // Still accept the answer but with penalty
     }
 
-    // Validate and score the answer
+    // Grade and score the answer; exactly what is saved is reported back
     const difficulty = round.metadata.gameSettings?.difficulty || 'medium';
-    const validationResult = this.validateAnswer(dto.answer, round.questionData, difficulty);
-    const pointsAwarded = this.calculatePoints(
-      responseTime,
-      validationResult.isCorrect,
-      validationResult.partialCredit,
-      round,
-      dto.playerId
-    );
+    const settings = this.difficultySettings[difficulty] || this.difficultySettings.medium;
+    const grade = this.scoringService.gradeAnswer(dto.answer, round.questionData, settings.partialCreditThreshold);
+    const scoring = round.metadata.scoring || {};
+    const streak = this.scoringService.getStrategy(scoring).usesStreak ? await this.getCorrectStreak(round, dto.playerId) : 0;
+
+    // Scored against the locked round, so answers submitted at the same moment see each other
+    const savedRound = await this.gameRoundRepository.savePlayerAnswer(dto.roundId, dto.playerId, lockedRound => {
+      if (lockedRound.answers?.[dto.playerId]) {
+        throw new BadRequestException('Answer already submitted for this round');
+      }
 
-    // Save the answer
-    await this.gameRoundRepository.savePlayerAnswer(
-      dto.roundId,
-      dto.playerId,
-      dto.answer
-    );
+      return {
+        answer: dto.answer,
+        submittedAt,
+        timeElapsed: responseTime,
+        isCorrect: grade.isCorrect,
+        pointsAwarded: this.scoringService.score({
+          grade,
+          responseTime,
+          timeLimitMs: lockedRound.timeLimitMs,
+          basePoints: lockedRound.maxPoints * lockedRound.difficultyMultiplier,
+          hintPenalty: this.getHintPenalty(lockedRound, dto.playerId),
+          earlierCorrectAnswers: Object.values(lockedRound.answers || {}).filter(answer => answer.isCorrect).length,
+          streak,
+          settings: scoring,
+        }),
+      };
+    });
+    if (!savedRound) {
+      throw new BadRequestException('Round ended before the answer was saved');
+    }
+    const { pointsAwarded } = savedRound.answers[dto.playerId];
+    const hintPenalty = this.getHintPenalty(savedRound, dto.playerId);
 
     // Calculate current rank if round is still active
     let rank: number | undefined;
-    if (round.isActive()) {
+    if (savedRound.isActive()) {
       rank = await this.calculatePlayerRank(dto.roundId, dto.playerId);
     }
 
-    this.logger.log(`Answer submitted: correct=${validationResult.isCorrect}, points=${pointsAwarded}`);
+    this.logger.log(`Answer submitted: correct=${grade.isCorrect}, points=${pointsAwarded}`);
+    this.eventEmitter.emit(GAME_ROUND_EVENTS.ANSWER_ACCEPTED, {
+      sessionId: round.sessionId,
+      roundId: round.id,
+      playerId: dto.playerId,
+      answeredCount: Object.keys(savedRound.answers).length,
+    } as AnswerAcceptedEvent);
     
     return {
-      isCorrect: validationResult.isCorrect,
+      isCorrect: grade.isCorrect,
       pointsAwarded,
       responseTime,
       rank,
+      blankResults: grade.blankResults,
+      hintPenalty,
     };
   }
 
@@ -296,8 +512,24 @@ export class GameRoundService implements OnModuleDestroy {
       throw new BadRequestException('Round is already completed');
     }
 
-    // End the round
+    const result = await this.completeRound(round);
+    if (!result) {
+      throw new BadRequestException('Round has already ended');
+    }
+    return result;
+  }
+
+  /**
+   * Complete the round and announce its results. Returns null when another call (the host, a
+   * deadline job on another instance or reconciliation) ended or skipped it first.
+   */
+  private async completeRound(round: GameRound): Promise<RoundResult | null> {
+    const roundId = round.id;
+    await this.cancelAutoEnd(round);
     const completedRound = await this.gameRoundRepository.endRound(roundId);
+    if (!completedRound) {
+      return null;
+    }
     
     // Calculate player results with rankings
     const playerResults = await this.calculatePlayerResults(roundId);
@@ -312,6 +544,7 @@ export class GameRoundService implements OnModuleDestroy {
     };
 
     this.logger.log(`Round ${roundId} ended with ${statistics.totalPlayers} players`);
+    this.eventEmitter.emit(GAME_ROUND_EVENTS.ENDED, { result } as RoundEndedEvent);
     return result;
   }
 
@@ -376,6 +609,7 @@ export class GameRoundService implements OnModuleDestroy {
     round: GameRound;
     playerResults: Array<{
       playerId: string;
+      answer?: string | number | string[];
       isCorrect: boolean;
       pointsAwarded: number;
       responseTime: number;
@@ -432,7 +666,13 @@ export class GameRoundService implements OnModuleDestroy {
       timeLimitMs: round.timeLimitMs + extensionMs
     });
 
+    // Move the pending auto-end so the extra time is actually given
+    if (await this.cancelAutoEnd(round)) {
+      await this.scheduleAutoEnd(updatedRound);
+    }
+
     this.logger.log(`Extended round ${roundId} by ${extensionMs}ms. Reason: ${reason || 'No reason provided'}`);
+    this.eventEmitter.emit(GAME_ROUND_EVENTS.EXTENDED, { round: updatedRound, extensionMs, reason } as RoundExtendedEvent);
     return updatedRound;
   }
 
@@ -449,18 +689,60 @@ export class GameRoundService implements OnModuleDestroy {
       throw new BadRequestException('Cannot skip completed round');
     }
 
-    await this.gameRoundRepository.updateStatus(roundId, RoundStatus.SKIPPED);
-    
-    // Log the skip
-    await this.gameRoundRepository.addReplayEvent(
-      roundId,
-      'system', // Use 'system' as playerId for system events
-      'ROUND_SKIPPED',
-      { reason }
-    );
+    await this.cancelAutoEnd(round);
+    const skippedRound = await this.gameRoundRepository.skipRound(roundId, reason);
+    if (!skippedRound) {
+      throw new BadRequestException('Round has already ended');
+    }
 
     this.logger.log(`Skipped round ${roundId}. Reason: ${reason || 'No reason provided'}`);
-    return await this.gameRoundRepository.findById(roundId);
+    this.eventEmitter.emit(GAME_ROUND_EVENTS.SKIPPED, { round: skippedRound, reason } as RoundSkippedEvent);
+    return skippedRound;
+  }
+
+  /**
+   * A player's hints for a round: those already revealed and the price of the next one
+   */
+  async getHintStatus(roundId: string, playerId: string): Promise<HintStatus> {
+    const round = await this.gameRoundRepository.findById(roundId);
+    if (!round) {
+      throw new NotFoundException(`Round ${roundId} not found`);
+    }
+    return this.buildHintStatus(round, playerId);
+  }
+
+  /**
+   * Reveal hint `index` to a player. Hints come one at a time and in order; asking again for a
+   * hint already revealed returns it without charging twice.
+   */
+  async revealHint(roundId: string, playerId: string, index: number): Promise<HintStatus> {
+    // Checked and recorded with the round locked, so a double request cannot charge twice
+    const round = await this.gameRoundRepository.updateLocked(roundId, lockedRound => {
+      const status = this.buildHintStatus(lockedRound, playerId);
+      if (index < status.revealed.length) {
+        return false;
+      }
+      if (!lockedRound.isActive()) {
+        throw new BadRequestException('Hints are only available while the round is active');
+      }
+      if (lockedRound.answers?.[playerId]) {
+        throw new BadRequestException('Answer already submitted for this round');
+      }
+      if (!status.next) {
+        throw new BadRequestException('No more hints for this round');
+      }
+      if (index !== status.next.index) {
+        throw new BadRequestException(`Hints are revealed in order; the next one is hint ${status.next.index}`);
+      }
+
+      lockedRound.addReplayEvent(playerId, 'HINT_USED', status.next);
+      this.logger.log(`Player ${playerId} revealed hint ${index} of round ${roundId}`);
+    });
+    if (!round) {
+      throw new NotFoundException(`Round ${roundId} not found`);
+    }
+
+    return this.buildHintStatus(round, playerId);
   }
 
   /**
@@ -501,38 +783,50 @@ export class GameRoundService implements OnModuleDestroy {
 
   // Private helper methods
 
-  private selectQuestionType(difficulty: string): QuestionType {
+  private getRoundSeed(sessionId: string, roundNumber: number, seed: string): string {
+    return `${sessionId}:${roundNumber}:${seed}`;
+  }
+
+  private isSameQuestion(generated: GeneratedQuestion, recorded: GameRound['questionData']): boolean {
+    const fields = ['question', 'options', 'correctAnswer', 'lyricsSnippet', 'blankOptions', 'audioClipStart', 'audioClipDuration'];
+    return fields.every(field => JSON.stringify(generated[field]) === JSON.stringify(recorded[field]));
+  }
+
+  private selectQuestionType(difficulty: string, random: RandomFn): QuestionType {
     const typeDistribution = {
       easy: {
-        [QuestionType.MULTIPLE_CHOICE]: 0.4,
+        [QuestionType.MULTIPLE_CHOICE]: 0.35,
         [QuestionType.TRUE_FALSE]: 0.3,
-        [QuestionType.FILL_IN_BLANK]: 0.2,
+        [QuestionType.FILL_IN_BLANK]: 0.15,
         [QuestionType.AUDIO_CLIP]: 0.1,
         [QuestionType.LYRICS_GUESS]: 0.0,
+        [QuestionType.LYRIC_COMPLETION]: 0.1,
       },
       medium: {
-        [QuestionType.MULTIPLE_CHOICE]: 0.3,
-        [QuestionType.TRUE_FALSE]: 0.2,
-        [QuestionType.FILL_IN_BLANK]: 0.3,
+        [QuestionType.MULTIPLE_CHOICE]: 0.25,
+        [QuestionType.TRUE_FALSE]: 0.15,
+        [QuestionType.FILL_IN_BLANK]: 0.25,
         [QuestionType.AUDIO_CLIP]: 0.15,
         [QuestionType.LYRICS_GUESS]: 0.05,
+        [QuestionType.LYRIC_COMPLETION]: 0.15,
       },
       hard: {
-        [QuestionType.MULTIPLE_CHOICE]: 0.2,
+        [QuestionType.MULTIPLE_CHOICE]: 0.15,
         [QuestionType.TRUE_FALSE]: 0.1,
-        [QuestionType.FILL_IN_BLANK]: 0.3,
+        [QuestionType.FILL_IN_BLANK]: 0.2,
         [QuestionType.AUDIO_CLIP]: 0.2,
-        [QuestionType.LYRICS_GUESS]: 0.2,
+        [QuestionType.LYRICS_GUESS]: 0.15,
+        [QuestionType.LYRIC_COMPLETION]: 0.2,
       },
     };
 
     const distribution = typeDistribution[difficulty];
-    const random = Math.random();
+    const roll = random();
     let cumulative = 0;
 
     for (const [type, probability] of Object.entries(distribution)) {
       cumulative += probability as number;
-      if (random <= cumulative) {
+      if (roll <= cumulative) {
         return type as QuestionType;
       }
     }
@@ -549,113 +843,60 @@ export class GameRoundService implements OnModuleDestroy {
     return multipliers[difficulty] || 1.0;
   }
 
-  private validateAnswer(
-    answer: string | number,
-    questionData: any,
-    difficulty: string = 'medium'
-  ): { isCorrect: boolean; partialCredit: number; similarity?: number } {
-    const correctAnswer = questionData.correctAnswer;
-    
-    // Exact match
-    if (answer === correctAnswer) {
-      return { isCorrect: true, partialCredit: 1.0 };
-    }
-
-    // String similarity check for text answers
-    if (typeof answer === 'string' && typeof correctAnswer === 'string') {
-      const similarity = this.calculateStringSimilarity(
-        answer.toLowerCase().trim(),
-        correctAnswer.toLowerCase().trim()
-      );
-      
-      // Check for partial credit threshold
-      const settings = this.difficultySettings[difficulty] || this.difficultySettings.medium;
-      const threshold = settings.partialCreditThreshold;
-      
-      if (similarity >= threshold) {
-        return { isCorrect: true, partialCredit: similarity, similarity };
-      }
-    }
+  /**
+   * Correct answers in a row by the player in the session's previous rounds, most recent first
+   */
+  private async getCorrectStreak(round: GameRound, playerId: string): Promise<number> {
+    const previousRounds = await this.gameRoundRepository.findBySession(round.sessionId, {
+      status: RoundStatus.COMPLETED,
+      orderBy: 'roundNumber',
+      order: 'DESC',
+    });
 
-    // Check for array of correct answers
-    if (Array.isArray(correctAnswer)) {
-      const isCorrect = correctAnswer.includes(answer);
-      return { isCorrect, partialCredit: isCorrect ? 1.0 : 0.0 };
+    let streak = 0;
+    for (const previous of previousRounds) {
+      if (previous.roundNumber >= round.roundNumber) continue;
+      if (!previous.answers?.[playerId]?.isCorrect) break;
+      streak++;
     }
-
-    return { isCorrect: false, partialCredit: 0.0 };
-  }
-
-  private calculateStringSimilarity(str1: string, str2: string): number {
-    // Simple Levenshtein distance-based similarity
-    const distance = this.levenshteinDistance(str1, str2);
-    const maxLength = Math.max(str1.length, str2.length);
-    return maxLength === 0 ? 1.0 : (maxLength - distance) / maxLength;
+    return streak;
   }
 
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => 
-      Array(str1.length + 1).fill(null)
-    );
-
-    for (let i = 0; i <= str1.length; i++) {
-      matrix[0][i] = i;
-    }
-
-    for (let j = 0; j <= str2.length; j++) {
-      matrix[j][0] = j;
-    }
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,     // deletion
-          matrix[j - 1][i] + 1,     // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
+  private getHintPenalty(round: GameRound, playerId: string): number {
+    // Older events carry no penalty and cost the difficulty's flat rate
+    const penaltyPerHint = this.getHintPenaltyRate(round);
+    const penalty = this.getHintEvents(round, playerId)
+      .reduce((sum, event) => sum + (event.data?.penalty ?? penaltyPerHint), 0);
+    return Math.min(MAX_HINT_PENALTY, penalty);
   }
 
-  private calculatePoints(
-    responseTime: number,
-    isCorrect: boolean,
-    partialCredit: number,
-    round: GameRound,
-    playerId: string
-  ): number {
-    if (!isCorrect) return 0;
-
-    // Base points from round settings
-    let points = round.maxPoints * round.difficultyMultiplier;
-
-    // Apply partial credit
-    points *= partialCredit;
-
-    // Time bonus calculation
-    const timeBonus = Math.max(0, (round.timeLimitMs - responseTime) / round.timeLimitMs);
-    points *= (0.5 + 0.5 * timeBonus);
-
-    // Hint penalty (if applicable)
-    const hintPenalty = this.getHintPenalty(round, playerId);
-    points *= (1 - hintPenalty);
-
-    return Math.round(points);
+  private getHintPenaltyRate(round: GameRound): number {
+    const difficulty = round.metadata.gameSettings?.difficulty || 'medium';
+    return (this.difficultySettings[difficulty] || this.difficultySettings.medium).hintPenalty;
   }
 
-  private getHintPenalty(round: GameRound, playerId: string): number {
-    // Check if player used hints (this would need to be tracked in replay data)
-    const hintEvents = round.replayData.events?.filter(
+  private getHintEvents(round: GameRound, playerId: string) {
+    return round.replayData.events?.filter(
       event => event.playerId === playerId && event.action === 'HINT_USED'
     ) || [];
+  }
 
-    const difficulty = round.metadata.gameSettings?.difficulty || 'medium';
-    const penaltyPerHint = this.difficultySettings[difficulty].hintPenalty;
-    
-    return hintEvents.length * penaltyPerHint;
+  private buildHintStatus(round: GameRound, playerId: string): HintStatus {
+    // Rounds created before hints had types stored plain strings
+    const hints = (round.questionData.hints || []).map(hint =>
+      typeof hint === 'string' ? { type: HintType.CONTEXT, text: hint } : hint);
+    const rate = this.getHintPenaltyRate(round);
+    const priceOf = (hint: RoundHint) => Math.round(rate * HINT_PENALTY_FACTORS[hint.type] * 100) / 100;
+
+    const revealedCount = Math.min(hints.length, this.getHintEvents(round, playerId).length);
+    const nextHint = hints[revealedCount];
+    return {
+      roundId: round.id,
+      totalHints: hints.length,
+      revealed: hints.slice(0, revealedCount).map(hint => ({ ...hint, penalty: priceOf(hint) })),
+      next: nextHint ? { index: revealedCount, type: nextHint.type, penalty: priceOf(nextHint) } : null,
+      totalPenalty: this.getHintPenalty(round, playerId),
+    };
   }
 
   private async calculatePlayerRank(roundId: string, playerId: string): Promise<number> {
@@ -678,7 +919,7 @@ export class GameRoundService implements OnModuleDestroy {
 
   private async calculatePlayerResults(roundId: string): Promise<Array<{
     playerId: string;
-    answer: string | number;
+    answer: string | number | string[];
     isCorrect: boolean;
     pointsAwarded: number;
     responseTime: number;
@@ -733,68 +974,74 @@ export class GameRoundService implements OnModuleDestroy {
     };
   }
 
-  private scheduleAutoEnd(roundId: string, timeLimitMs: number): string {
-    // Cancel existing timeout if any
-    this.cancelAutoEnd(roundId);
-    
-    const timeoutId = setTimeout(async () => {
+  /**
+   * End a round whose time is up. Rounds whose deadline moved are rescheduled instead, and rounds
+   * that already ended are left alone, so repeated or late deadline jobs are harmless.
+   */
+  async handleRoundDeadline(roundId: string): Promise<RoundResult | null> {
+    const round = await this.gameRoundRepository.findById(roundId);
+    if (!round || !round.isActive() || !this.isAutoEnded(round)) {
+      return null;
+    }
+
+    const deadline = this.getDeadline(round);
+    if (deadline && deadline.getTime() - Date.now() > DEADLINE_TOLERANCE_MS) {
+      await this.roundTimerService.scheduleRoundDeadline(roundId, deadline);
+      return null;
+    }
+
+    this.logger.log(`Auto-ending round ${roundId} after ${round.timeLimitMs}ms`);
+    return this.completeRound(round);
+  }
+
+  /**
+   * End active rounds whose deadline passed while no instance was running and make sure the
+   * others have a deadline job. Rounds started without auto-end are skipped. Returns the number
+   * of rounds ended.
+   */
+  async reconcileRoundDeadlines(): Promise<number> {
+    const activeRounds = await this.gameRoundRepository.getActiveRounds();
+    let ended = 0;
+
+    for (const round of activeRounds.filter(activeRound => this.isAutoEnded(activeRound))) {
       try {
-        const round = await this.gameRoundRepository.findById(roundId);
-        if (round && round.isActive()) {
-          this.logger.log(`Auto-ending round ${roundId} after ${timeLimitMs}ms`);
-          await this.endRound(roundId);
+        const deadline = this.getDeadline(round);
+        if (!deadline || deadline.getTime() - Date.now() <= DEADLINE_TOLERANCE_MS) {
+          if (await this.completeRound(round)) ended++;
+        } else {
+          await this.roundTimerService.scheduleRoundDeadline(round.id, deadline);
         }
       } catch (error) {
-        this.logger.error(`Error auto-ending round ${roundId}:`, error);
+        this.logger.error(`Error reconciling deadline of round ${round.id}:`, error);
       }
-    }, timeLimitMs);
-    
-    this.autoEndTimeouts.set(roundId, timeoutId);
-    this.logger.log(`Scheduled auto-end for round ${roundId} in ${timeLimitMs}ms`);
-    return roundId;
-  }
+    }
 
-  /**
-   * Cancel the auto-end timeout for a round
-   */
-  cancelAutoEnd(roundId: string): boolean {
-    const timeoutId = this.autoEndTimeouts.get(roundId);
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-      this.autoEndTimeouts.delete(roundId);
-      this.logger.log(`Cancelled auto-end timeout for round ${roundId}`);
-      return true;
+    if (ended > 0) {
+      this.logger.log(`Ended ${ended} rounds whose deadline had passed`);
     }
-    return false;
+    return ended;
   }
 
-  /**
-   * Get scheduled auto-end timeouts for monitoring
-   */
-  getScheduledAutoEndTimeouts(): Array<{ roundId: string; hasTimeout: boolean }> {
-    return Array.from(this.autoEndTimeouts.keys()).map(roundId => ({
-      roundId,
-      hasTimeout: true,
-    }));
+  private isAutoEnded(round: GameRound): boolean {
+    return round.metadata?.autoEnd !== false;
+  }
+
+  private getDeadline(round: GameRound): Date | null {
+    return round.startTime ? new Date(round.startTime.getTime() + round.timeLimitMs) : null;
+  }
+
+  private async scheduleAutoEnd(round: GameRound): Promise<void> {
+    const deadline = this.getDeadline(round);
+    if (deadline) {
+      await this.roundTimerService.scheduleRoundDeadline(round.id, deadline);
+    }
   }
 
   /**
-   * Graceful shutdown - cancel all pending auto-end timeouts
+   * Cancel the auto-end job for a round's current deadline
    */
-  async onModuleDestroy(): Promise<void> {
-    this.logger.log('Shutting down GameRoundService...');
-    
-    try {
-      // Clear all timeouts
-      for (const [roundId, timeoutId] of this.autoEndTimeouts) {
-        clearTimeout(timeoutId);
-        this.logger.log(`Cleared auto-end timeout for round ${roundId}`);
-      }
-      this.autoEndTimeouts.clear();
-      
-      this.logger.log(`Cleared ${this.autoEndTimeouts.size} auto-end timeouts`);
-    } catch (error) {
-      this.logger.error('Error during GameRoundService shutdown:', error);
-    }
+  private async cancelAutoEnd(round: GameRound): Promise<boolean> {
+    const deadline = this.getDeadline(round);
+    return deadline ? this.roundTimerService.cancelRoundDeadline(round.id, deadline) : false;
   }
 }
@@ -0,0 +1,305 @@
+import { BadRequestException } from '@nestjs/common';
+import { GameSessionOrchestratorService } from './game-session-orchestrator.service';
+import { GameRound, RoundStatus } from '../entities/game-round.entity';
+import { GameSession, SessionStatus } from '../entities/game-session.entity';
+import { Song } from '../entities/song.entity';
+import { GAME_SESSION_EVENTS } from '../game-round.events';
+
+describe('GameSessionOrchestratorService', () => {
+  let service: GameSessionOrchestratorService;
+  let sessions: Map<string, GameSession>;
+  let rounds: GameRound[];
+  let songs: Song[];
+  let songQueryBuilder: Record<string, jest.Mock>;
+  let gameRoundService: Record<string, jest.Mock>;
+  let roundTimerService: Record<string, jest.Mock>;
+  let contentFilterService: { isSongAllowed: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  // Sessions are copied in and out, like a database would, so stale reads stay stale
+  const copy = (session: GameSession) => Object.assign(new GameSession(), structuredClone({ ...session }));
+
+  const activeSession = (overrides: Partial<GameSession> = {}): GameSession =>
+    Object.assign(new GameSession(), {
+      id: 'session-1',
+      hostId: 'host-1',
+      status: SessionStatus.ACTIVE,
+      players: [{ id: 'player-1', name: 'Ada', score: 0, joinedAt: new Date() }],
+      settings: {},
+      orchestration: { playlist: ['song-1', 'song-2', 'song-3'], nextIndex: 1, difficulty: 'medium', currentRoundId: 'round-1' },
+      ...overrides,
+    });
+
+  const playedRound = (overrides: Partial<GameRound> = {}): GameRound =>
+    Object.assign(new GameRound(), {
+      id: 'round-1',
+      sessionId: 'session-1',
+      roundNumber: 1,
+      status: RoundStatus.COMPLETED,
+      answers: {},
+      statistics: {},
+      ...overrides,
+    });
+
+  // Supports the reconcile query and the conditional update that claims an intermission
+  const sessionQueryBuilder = () => {
+    const params: Record<string, any> = {};
+    const qb: Record<string, jest.Mock> = {};
+    for (const method of ['update', 'set', 'where', 'andWhere']) {
+      qb[method] = jest.fn().mockImplementation((_condition, parameters) => {
+        Object.assign(params, typeof parameters === 'object' ? parameters : {});
+        return qb;
+      });
+    }
+    qb.getMany = jest.fn().mockImplementation(async () =>
+      [...sessions.values()].filter(session => session.status === params.status && session.orchestration).map(copy),
+    );
+    qb.execute = jest.fn().mockImplementation(async () => {
+      const session = sessions.get(params.sessionId);
+      const nextRoundAt = session?.orchestration?.nextRoundAt;
+      if (session?.status !== params.status || !nextRoundAt || new Date(nextRoundAt).toISOString() !== params.runAt) {
+        return { affected: 0 };
+      }
+      delete session.orchestration.nextRoundAt;
+      return { affected: 1 };
+    });
+    return qb;
+  };
+
+  beforeEach(() => {
+    sessions = new Map();
+    rounds = [];
+    songs = [];
+    let createdRounds = 0;
+
+    songQueryBuilder = {};
+    for (const method of ['where', 'andWhere', 'orderBy', 'take']) {
+      songQueryBuilder[method] = jest.fn().mockReturnValue(songQueryBuilder);
+    }
+    songQueryBuilder.getMany = jest.fn().mockImplementation(async () => songs);
+
+    const sessionRepository = {
+      findOne: jest.fn().mockImplementation(async ({ where }) => (sessions.has(where.id) ? copy(sessions.get(where.id)) : null)),
+      save: jest.fn().mockImplementation(async (session: GameSession) => {
+        sessions.set(session.id, copy(session));
+        return session;
+      }),
+      createQueryBuilder: jest.fn().mockImplementation(() => sessionQueryBuilder()),
+    };
+    const gameRoundRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => rounds.find(round => round.id === id) || null),
+      findBySession: jest.fn().mockImplementation(async (sessionId: string, options?: { status?: RoundStatus; order?: string }) =>
+        rounds
+          .filter(round => round.sessionId === sessionId && (!options?.status || round.status === options.status))
+          .sort((a, b) => (options?.order === 'DESC' ? b.roundNumber - a.roundNumber : a.roundNumber - b.roundNumber)),
+      ),
+    };
+    gameRoundService = {
+      assertSessionHost: jest.fn().mockImplementation(async (sessionId: string) => copy(sessions.get(sessionId))),
+      createRound: jest.fn().mockImplementation(async dto => ({ id: `new-round-${++createdRounds}`, ...dto })),
+      startRound: jest.fn().mockImplementation(async ({ roundId }) => ({ id: roundId, status: RoundStatus.ACTIVE })),
+      skipRound: jest.fn().mockResolvedValue(undefined),
+      calculateAdaptiveDifficulty: jest.fn().mockReturnValue('hard'),
+    };
+    roundTimerService = {
+      scheduleNextRound: jest.fn().mockResolvedValue(undefined),
+      cancelNextRound: jest.fn().mockResolvedValue(true),
+    };
+    contentFilterService = { isSongAllowed: jest.fn().mockResolvedValue(true) };
+    eventEmitter = { emit: jest.fn() };
+
+    service = new GameSessionOrchestratorService(
+      gameRoundService as any,
+      gameRoundRepository as any,
+      { createQueryBuilder: jest.fn().mockReturnValue(songQueryBuilder) } as any,
+      sessionRepository as any,
+      contentFilterService as any,
+      eventEmitter as any,
+      roundTimerService as any,
+    );
+  });
+
+  const emitted = (event: string) => eventEmitter.emit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload);
+
+  describe('startSession', () => {
+    beforeEach(() => {
+      sessions.set('session-1', activeSession({ status: SessionStatus.WAITING, orchestration: undefined }));
+      songs = ['song-1', 'song-2', 'song-3', 'song-4'].map(id => ({ id, genre: 'Rock' }) as Song);
+    });
+
+    it('should build the playlist from the session settings and start the first round', async () => {
+      sessions.get('session-1').settings = { categories: [' Rock ', 'POP'], maxRounds: 2, difficulty: 'easy', contentRating: 'family' };
+      contentFilterService.isSongAllowed.mockImplementation(async (song: Song) => song.id !== 'song-1');
+
+      const round = await service.startSession('session-1', 'host-1');
+
+      expect(songQueryBuilder.andWhere).toHaveBeenCalledWith('LOWER(song.genre) IN (:...categories)', { categories: ['rock', 'pop'] });
+      expect(songQueryBuilder.take).toHaveBeenCalledWith(8);
+      expect(contentFilterService.isSongAllowed).toHaveBeenCalledWith(songs[0], 'family');
+      expect(sessions.get('session-1').status).toBe(SessionStatus.ACTIVE);
+      expect(sessions.get('session-1').orchestration).toEqual(
+        expect.objectContaining({ playlist: ['song-2', 'song-3'], nextIndex: 1, difficulty: 'easy', currentRoundId: round.id }),
+      );
+      expect(gameRoundService.createRound).toHaveBeenCalledWith(expect.objectContaining({ songId: 'song-2', difficulty: 'easy' }));
+      expect(emitted(GAME_SESSION_EVENTS.STARTED)).toEqual([{ sessionId: 'session-1', totalRounds: 2 }]);
+    });
+
+    it('should skip playlist songs that can no longer be played', async () => {
+      gameRoundService.createRound.mockRejectedValueOnce(new BadRequestException('Song song-1 is rejected in moderation'));
+
+      await service.startSession('session-1', 'host-1');
+
+      expect(gameRoundService.createRound).toHaveBeenCalledTimes(2);
+      expect(gameRoundService.createRound).toHaveBeenLastCalledWith(expect.objectContaining({ songId: 'song-2' }));
+      expect(sessions.get('session-1').orchestration.nextIndex).toBe(2);
+    });
+
+    it('should refuse to start when no song passes the content rating', async () => {
+      contentFilterService.isSongAllowed.mockResolvedValue(false);
+
+      await expect(service.startSession('session-1', 'host-1')).rejects.toThrow(BadRequestException);
+      expect(sessions.get('session-1').status).toBe(SessionStatus.WAITING);
+    });
+  });
+
+  describe('after a round', () => {
+    it('should schedule an intermission before the next round', async () => {
+      sessions.set('session-1', activeSession({ settings: { intermissionMs: 5000 } }));
+      rounds = [playedRound()];
+      const before = Date.now();
+
+      await service.onRoundEnded({ result: { round: rounds[0] } } as any);
+
+      const nextRoundAt = new Date(sessions.get('session-1').orchestration.nextRoundAt).getTime();
+      expect(nextRoundAt).toBeGreaterThanOrEqual(before + 5000);
+      expect(nextRoundAt).toBeLessThanOrEqual(Date.now() + 5000);
+      expect(roundTimerService.scheduleNextRound).toHaveBeenCalledWith('session-1', new Date(nextRoundAt));
+      expect(emitted(GAME_SESSION_EVENTS.INTERMISSION)).toEqual([
+        expect.objectContaining({ sessionId: 'session-1', nextRoundNumber: 2, totalRounds: 3 }),
+      ]);
+      expect(gameRoundService.createRound).not.toHaveBeenCalled();
+    });
+
+    it('should not move on from a round the host started by hand', async () => {
+      sessions.set('session-1', activeSession());
+
+      await service.onRoundSkipped({ round: playedRound({ id: 'manual-round', status: RoundStatus.SKIPPED }) } as any);
+
+      expect(sessions.get('session-1').orchestration.nextRoundAt).toBeUndefined();
+      expect(roundTimerService.scheduleNextRound).not.toHaveBeenCalled();
+    });
+
+    it('should finish the session with final standings once the playlist is played', async () => {
+      sessions.set('session-1', activeSession({
+        players: [
+          { id: 'player-1', name: 'Ada', score: 0, joinedAt: new Date() },
+          { id: 'player-2', name: 'Grace', score: 0, joinedAt: new Date() },
+        ],
+        orchestration: { playlist: ['song-1', 'song-2'], nextIndex: 2, difficulty: 'medium', currentRoundId: 'round-2' },
+      }));
+      rounds = [
+        playedRound({ answers: { 'player-1': { isCorrect: true, pointsAwarded: 800, timeElapsed: 4000 } } as any }),
+        playedRound({
+          id: 'round-2',
+          roundNumber: 2,
+          answers: {
+            'player-1': { isCorrect: false, pointsAwarded: 0, timeElapsed: 9000 },
+            'player-2': { isCorrect: true, pointsAwarded: 900, timeElapsed: 3000 },
+          } as any,
+        }),
+      ];
+
+      await service.onRoundEnded({ result: { round: rounds[1] } } as any);
+
+      const session = sessions.get('session-1');
+      expect(session.status).toBe(SessionStatus.COMPLETED);
+      expect(session.players.map(player => [player.id, player.score])).toEqual([['player-1', 800], ['player-2', 900]]);
+      const [completed] = emitted(GAME_SESSION_EVENTS.COMPLETED);
+      expect(completed.roundsPlayed).toBe(2);
+      expect(completed.standings.map(standing => [standing.playerId, standing.rank])).toEqual([['player-2', 1], ['player-1', 2]]);
+      expect(roundTimerService.scheduleNextRound).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('difficulty', () => {
+    it('should adapt the next round to how the last rounds went', async () => {
+      sessions.set('session-1', activeSession({ settings: { difficulty: 'easy' } }));
+      rounds = [
+        playedRound({ statistics: { totalPlayers: 1 } as any }),
+        playedRound({ id: 'round-2', roundNumber: 2, statistics: { totalPlayers: 0 } as any }),
+      ];
+
+      await service.startNextRound('session-1');
+
+      expect(gameRoundService.calculateAdaptiveDifficulty).toHaveBeenCalledWith('session-1', [rounds[0]]);
+      expect(gameRoundService.createRound).toHaveBeenCalledWith(expect.objectContaining({ difficulty: 'hard' }));
+      expect(sessions.get('session-1').orchestration.difficulty).toBe('hard');
+    });
+
+    it('should keep the configured difficulty when adaptive difficulty is off', async () => {
+      sessions.set('session-1', activeSession({ settings: { difficulty: 'easy', adaptiveDifficulty: false } }));
+      rounds = [playedRound({ statistics: { totalPlayers: 1 } as any })];
+
+      await service.startNextRound('session-1');
+
+      expect(gameRoundService.calculateAdaptiveDifficulty).not.toHaveBeenCalled();
+      expect(gameRoundService.createRound).toHaveBeenCalledWith(expect.objectContaining({ difficulty: 'easy' }));
+    });
+  });
+
+  describe('cancelSession', () => {
+    it('should cancel a pending intermission and skip the current round', async () => {
+      const nextRoundAt = new Date(Date.now() + 5000);
+      sessions.set('session-1', activeSession({
+        orchestration: { playlist: ['song-1', 'song-2'], nextIndex: 1, difficulty: 'medium', currentRoundId: 'round-1', nextRoundAt },
+      }));
+      rounds = [playedRound({ status: RoundStatus.ACTIVE })];
+
+      const standings = await service.cancelSession('session-1', 'host-1');
+
+      expect(roundTimerService.cancelNextRound).toHaveBeenCalledWith('session-1', nextRoundAt);
+      expect(gameRoundService.skipRound).toHaveBeenCalledWith('round-1', 'Session cancelled');
+      expect(standings.status).toBe(SessionStatus.CANCELLED);
+      expect(sessions.get('session-1').endedAt).toBeDefined();
+    });
+
+    it('should leave a finished round alone', async () => {
+      sessions.set('session-1', activeSession());
+      rounds = [playedRound()];
+
+      await service.cancelSession('session-1', 'host-1');
+
+      expect(gameRoundService.skipRound).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel a completed session', async () => {
+      sessions.set('session-1', activeSession({ status: SessionStatus.COMPLETED }));
+
+      await expect(service.cancelSession('session-1', 'host-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('startScheduledRound', () => {
+    it('should start one round when the intermission job and reconciliation race', async () => {
+      const runAt = new Date(Date.now() - 1000);
+      sessions.set('session-1', activeSession({
+        orchestration: { playlist: ['song-1', 'song-2'], nextIndex: 1, difficulty: 'medium', currentRoundId: 'round-1', nextRoundAt: runAt },
+      }));
+
+      await Promise.all([service.startScheduledRound('session-1', runAt.getTime()), service.reconcileSessions()]);
+
+      expect(gameRoundService.createRound).toHaveBeenCalledTimes(1);
+      expect(gameRoundService.createRound).toHaveBeenCalledWith(expect.objectContaining({ songId: 'song-2' }));
+    });
+
+    it('should ignore a job for an intermission that was rescheduled', async () => {
+      const runAt = new Date(Date.now() + 5000);
+      sessions.set('session-1', activeSession({
+        orchestration: { playlist: ['song-1', 'song-2'], nextIndex: 1, difficulty: 'medium', nextRoundAt: runAt },
+      }));
+
+      expect(await service.startScheduledRound('session-1', runAt.getTime() - 5000)).toBeNull();
+      expect(gameRoundService.createRound).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GameRoundService } from './game-round.service';
+import { RoundTimerService } from './round-timer.service';
+import { GameRoundRepository } from '../game-round.repository';
+import { GameRound, RoundStatus } from '../entities/game-round.entity';
+import { Song } from '../entities/song.entity';
+import { GameSession, RoundDifficulty, SessionStatus } from '../entities/game-session.entity';
+import { ContentFilterService } from '../../songs/content-filter.service';
+import { ModerationStatus } from '../../songs/entities/song-moderation-case.entity';
+import { computeStandings, PlayerStanding } from '../session-standings.util';
+import {
+  GAME_ROUND_EVENTS,
+  GAME_SESSION_EVENTS,
+  RoundEndedEvent,
+  RoundSkippedEvent,
+  SessionCompletedEvent,
+  SessionIntermissionEvent,
+  SessionStartedEvent,
+} from '../game-round.events';
+
+const DEFAULT_MAX_ROUNDS = 10;
+const DEFAULT_INTERMISSION_MS = 10000;
+const DEFAULT_AVOID_RECENT_DAYS = 7;
+// Rounds whose accuracy steers the next round's difficulty
+const ADAPTIVE_WINDOW = 3;
+// Candidates fetched per playlist slot, since the content rating is checked in memory
+const PLAYLIST_POOL_FACTOR = 4;
+
+const DIFFICULTIES: RoundDifficulty[] = ['easy', 'medium', 'hard'];
+
+export interface SessionStandings {
+  sessionId: string;
+  status: SessionStatus;
+  roundsPlayed: number;
+  totalRounds: number;
+  standings: PlayerStanding[];
+}
+
+/**
+ * Runs a whole session from its settings: picks a playlist, then creates and starts one round per
+ * song, pausing for an intermission after each round ends, and closes the session with standings.
+ */
+@Injectable()
+export class GameSessionOrchestratorService {
+  private readonly logger = new Logger(GameSessionOrchestratorService.name);
+
+  constructor(
+    private readonly gameRoundService: GameRoundService,
+    private readonly gameRoundRepository: GameRoundRepository,
+    @InjectRepository(Song)
+    private readonly songRepository: Repository<Song>,
+    @InjectRepository(GameSession)
+    private readonly sessionRepository: Repository<GameSession>,
+    private readonly contentFilterService: ContentFilterService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly roundTimerService: RoundTimerService,
+  ) {}
+
+  /**
+   * Build the playlist and start the first round of a waiting session
+   */
+  async startSession(sessionId: string, hostId: string): Promise<GameRound> {
+    const session = await this.gameRoundService.assertSessionHost(sessionId, hostId);
+    if (session.status !== SessionStatus.WAITING) {
+      throw new BadRequestException(`Cannot start session in ${session.status} status`);
+    }
+
+    const playlist = await this.buildPlaylist(session);
+    if (playlist.length === 0) {
+      throw new BadRequestException('No playable songs match the session settings');
+    }
+
+    session.status = SessionStatus.ACTIVE;
+    session.startedAt = new Date();
+    session.orchestration = {
+      playlist,
+      nextIndex: 0,
+      difficulty: this.initialDifficulty(session),
+    };
+    await this.sessionRepository.save(session);
+
+    this.logger.log(`Started session ${sessionId} with ${playlist.length} rounds`);
+    this.eventEmitter.emit(GAME_SESSION_EVENTS.STARTED, { sessionId, totalRounds: playlist.length } as SessionStartedEvent);
+
+    const round = await this.startNextRound(sessionId);
+    if (!round) {
+      throw new BadRequestException('None of the selected songs could be turned into a round');
+    }
+    return round;
+  }
+
+  /**
+   * Stop an automatically run session; the current round is skipped and no further rounds start
+   */
+  async cancelSession(sessionId: string, hostId: string): Promise<SessionStandings> {
+    const session = await this.gameRoundService.assertSessionHost(sessionId, hostId);
+    if (session.status !== SessionStatus.ACTIVE && session.status !== SessionStatus.WAITING) {
+      throw new BadRequestException(`Cannot cancel session in ${session.status} status`);
+    }
+
+    await this.cancelIntermission(session);
+    session.status = SessionStatus.CANCELLED;
+    session.endedAt = new Date();
+    await this.sessionRepository.save(session);
+
+    const currentRoundId = session.orchestration?.currentRoundId;
+    if (currentRoundId) {
+      const round = await this.gameRoundRepository.findById(currentRoundId);
+      if (round && !round.isFinished()) {
+        // The round may end at its deadline meanwhile; the session is cancelled either way
+        await this.gameRoundService.skipRound(currentRoundId, 'Session cancelled').catch(error =>
+          this.logger.warn(`Could not skip round ${currentRoundId} of cancelled session ${sessionId}: ${error.message}`),
+        );
+      }
+    }
+
+    this.logger.log(`Cancelled session ${sessionId}`);
+    return this.getStandings(sessionId);
+  }
+
+  async getStandings(sessionId: string): Promise<SessionStandings> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session) {
+      throw new NotFoundException(`Session ${sessionId} not found`);
+    }
+
+    const rounds = await this.gameRoundRepository.findBySession(sessionId);
+    return {
+      sessionId,
+      status: session.status,
+      roundsPlayed: rounds.filter(round => round.isCompleted()).length,
+      totalRounds: session.orchestration?.playlist.length || rounds.length,
+      standings: computeStandings(rounds, session.players),
+    };
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.ENDED)
+  async onRoundEnded({ result }: RoundEndedEvent): Promise<void> {
+    await this.advanceAfterRound(result.round.sessionId, result.round.id);
+  }
+
+  @OnEvent(GAME_ROUND_EVENTS.SKIPPED)
+  async onRoundSkipped({ round }: RoundSkippedEvent): Promise<void> {
+    await this.advanceAfterRound(round.sessionId, round.id);
+  }
+
+  /**
+   * Create and start the round for the next playable playlist entry, or finish the session when
+   * the playlist is exhausted. Songs that can no longer be played are skipped over.
+   */
+  async startNextRound(sessionId: string): Promise<GameRound | null> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session?.orchestration || session.status !== SessionStatus.ACTIVE) {
+      return null;
+    }
+
+    const orchestration = session.orchestration;
+    const difficulty = await this.nextDifficulty(session);
+    while (orchestration.nextIndex < orchestration.playlist.length) {
+      const songId = orchestration.playlist[orchestration.nextIndex++];
+      let round: GameRound;
+      try {
+        round = await this.gameRoundService.createRound({
+          sessionId,
+          songId,
+          difficulty,
+          timeLimitMs: session.settings?.roundTimeLimit ? session.settings.roundTimeLimit * 1000 : undefined,
+          includeHints: session.settings?.includeHints ?? true,
+        });
+      } catch (error) {
+        // e.g. the song was rejected in moderation after the playlist was built
+        this.logger.warn(`Skipping song ${songId} in session ${sessionId}: ${error.message}`);
+        continue;
+      }
+
+      orchestration.currentRoundId = round.id;
+      orchestration.difficulty = difficulty;
+      orchestration.nextRoundAt = undefined;
+      await this.sessionRepository.save(session);
+      return this.gameRoundService.startRound({ roundId: round.id });
+    }
+
+    await this.finishSession(session);
+    return null;
+  }
+
+  /**
+   * Handle a due intermission, from its job or from reconciliation. Intermissions that were since
+   * cancelled or already handled, e.g. a retry after the round was created, are ignored.
+   */
+  async startScheduledRound(sessionId: string, runAt: number): Promise<GameRound | null> {
+    if (!(await this.claimIntermission(sessionId, runAt))) {
+      return null;
+    }
+    return this.startNextRound(sessionId);
+  }
+
+  /**
+   * Clear the intermission only if it is still the one due at `runAt`, in one statement, so of a job
+   * and a reconcile pass handling it at the same moment only one starts the next round. Should that
+   * one fail before creating it, reconciliation schedules a new intermission after the last round.
+   */
+  private async claimIntermission(sessionId: string, runAt: number): Promise<boolean> {
+    const { affected } = await this.sessionRepository
+      .createQueryBuilder()
+      .update(GameSession)
+      .set({ orchestration: () => `orchestration - 'nextRoundAt'` })
+      .where('id = :sessionId', { sessionId })
+      .andWhere('status = :status', { status: SessionStatus.ACTIVE })
+      .andWhere(`orchestration->>'nextRoundAt' = :runAt`, { runAt: new Date(runAt).toISOString() })
+      .execute();
+    return affected > 0;
+  }
+
+  /**
+   * Catch up on orchestrated sessions after a restart: start rounds whose intermission is over,
+   * reschedule pending intermissions and move on from rounds that ended without being followed up.
+   * Returns the number of sessions that needed action.
+   */
+  async reconcileSessions(): Promise<number> {
+    const sessions = await this.sessionRepository
+      .createQueryBuilder('session')
+      .where('session.status = :status', { status: SessionStatus.ACTIVE })
+      .andWhere('session.orchestration IS NOT NULL')
+      .getMany();
+    let reconciled = 0;
+
+    for (const session of sessions) {
+      try {
+        const { nextRoundAt, currentRoundId } = session.orchestration;
+        if (nextRoundAt) {
+          const runAt = new Date(nextRoundAt);
+          if (runAt.getTime() <= Date.now()) {
+            await this.startScheduledRound(session.id, runAt.getTime());
+            reconciled++;
+          } else {
+            await this.roundTimerService.scheduleNextRound(session.id, runAt);
+          }
+        } else if (currentRoundId) {
+          const round = await this.gameRoundRepository.findById(currentRoundId);
+          if (round && (round.isCompleted() || round.status === RoundStatus.SKIPPED)) {
+            await this.advanceAfterRound(session.id, round.id);
+            reconciled++;
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Error reconciling session ${session.id}:`, error);
+      }
+    }
+    return reconciled;
+  }
+
+  private async advanceAfterRound(sessionId: string, roundId: string): Promise<void> {
+    try {
+      const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+      // Only the round the orchestrator started moves the session on; manual rounds do not
+      if (!session?.orchestration || session.status !== SessionStatus.ACTIVE || session.orchestration.currentRoundId !== roundId) {
+        return;
+      }
+
+      const { playlist, nextIndex } = session.orchestration;
+      if (nextIndex >= playlist.length) {
+        await this.finishSession(session);
+        return;
+      }
+
+      const intermissionMs = session.settings?.intermissionMs ?? DEFAULT_INTERMISSION_MS;
+      const nextRoundAt = new Date(Date.now() + intermissionMs);
+      session.orchestration.nextRoundAt = nextRoundAt;
+      await this.sessionRepository.save(session);
+      await this.roundTimerService.scheduleNextRound(sessionId, nextRoundAt);
+
+      const rounds = await this.gameRoundRepository.findBySession(sessionId);
+      this.eventEmitter.emit(GAME_SESSION_EVENTS.INTERMISSION, {
+        sessionId,
+        nextRoundNumber: rounds.length + 1,
+        totalRounds: playlist.length,
+        nextRoundAt,
+        standings: computeStandings(rounds, session.players),
+      } as SessionIntermissionEvent);
+    } catch (error) {
+      this.logger.error(`Error scheduling next round of session ${sessionId}:`, error);
+    }
+  }
+
+  private async finishSession(session: GameSession): Promise<void> {
+    const rounds = await this.gameRoundRepository.findBySession(session.id);
+    const standings = computeStandings(rounds, session.players);
+    const pointsByPlayer = new Map(standings.map(standing => [standing.playerId, standing.totalPoints]));
+
+    session.status = SessionStatus.COMPLETED;
+    session.endedAt = new Date();
+    session.players = (session.players || []).map(player => ({
+      ...player,
+      score: pointsByPlayer.get(player.id) ?? player.score,
+    }));
+    if (session.orchestration) session.orchestration.nextRoundAt = undefined;
+    await this.sessionRepository.save(session);
+
+    const roundsPlayed = rounds.filter(round => round.isCompleted()).length;
+    this.logger.log(`Session ${session.id} completed after ${roundsPlayed} rounds`);
+    this.eventEmitter.emit(GAME_SESSION_EVENTS.COMPLETED, {
+      sessionId: session.id,
+      roundsPlayed,
+      standings,
+    } as SessionCompletedEvent);
+  }
+
+  /**
+   * Random approved songs in the session's categories that pass its content rating and that none
+   * of its players heard recently
+   */
+  private async buildPlaylist(session: GameSession): Promise<string[]> {
+    const settings = session.settings || {};
+    const count = settings.maxRounds || DEFAULT_MAX_ROUNDS;
+    const qb = this.songRepository
+      .createQueryBuilder('song')
+      .where('(song.moderationStatus IS NULL OR song.moderationStatus = :approved)', { approved: ModerationStatus.APPROVED });
+
+    const categories = (settings.categories || []).map(category => category.trim().toLowerCase()).filter(Boolean);
+    if (categories.length > 0) {
+      qb.andWhere('LOWER(song.genre) IN (:...categories)', { categories });
+    }
+
+    const playerIds = [session.hostId, ...(session.players || []).map(player => player.id)];
+    const avoidRecentDays = settings.avoidRecentDays ?? DEFAULT_AVOID_RECENT_DAYS;
+    if (avoidRecentDays > 0) {
+      qb.andWhere(
+        `song.id NOT IN (
+          SELECT recent.song_id FROM game_rounds recent
+          WHERE recent.created_at >= now() - make_interval(days => :avoidRecentDays)
+            AND recent.answers ?| ARRAY[:...playerIds]::text[]
+        )`,
+        { avoidRecentDays, playerIds },
+      );
+    }
+
+    const candidates = await qb
+      .orderBy('RANDOM()')
+      .take(count * PLAYLIST_POOL_FACTOR)
+      .getMany();
+
+    const contentRating = settings.contentRating || 'explicit';
+    const allowed = await Promise.all(candidates.map(song => this.contentFilterService.isSongAllowed(song, contentRating)));
+    return candidates
+      .filter((_song, index) => allowed[index])
+      .slice(0, count)
+      .map(song => song.id);
+  }
+
+  private initialDifficulty(session: GameSession): RoundDifficulty {
+    const configured = session.settings?.difficulty as RoundDifficulty;
+    return DIFFICULTIES.includes(configured) ? configured : 'medium';
+  }
+
+  private async nextDifficulty(session: GameSession): Promise<RoundDifficulty> {
+    if (session.settings?.adaptiveDifficulty === false) {
+      return this.initialDifficulty(session);
+    }
+
+    const completed = await this.gameRoundRepository.findBySession(session.id, {
+      status: RoundStatus.COMPLETED,
+      orderBy: 'roundNumber',
+      order: 'DESC',
+    });
+    const recent = completed.filter(round => round.statistics?.totalPlayers > 0).slice(0, ADAPTIVE_WINDOW);
+    // Nothing to learn from yet: keep what the host asked for
+    if (recent.length === 0) {
+      return session.orchestration?.difficulty || this.initialDifficulty(session);
+    }
+    return this.gameRoundService.calculateAdaptiveDifficulty(session.id, recent);
+  }
+
+  private async cancelIntermission(session: GameSession): Promise<void> {
+    if (session.orchestration?.nextRoundAt) {
+      await this.roundTimerService.cancelNextRound(session.id, new Date(session.orchestration.nextRoundAt));
+    }
+  }
+}
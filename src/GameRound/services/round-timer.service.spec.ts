@@ -0,0 +1,60 @@
+import { Queue } from 'bull';
+import { ROUND_TIMER_JOBS, RoundTimerService } from './round-timer.service';
+
+function makeQueue() {
+  const jobs = new Map<string, { remove: jest.Mock }>();
+  const queue = {
+    add: jest.fn(async (name: string, data: any, opts: { jobId: string }) => {
+      if (!jobs.has(opts.jobId)) jobs.set(opts.jobId, { remove: jest.fn(async () => jobs.delete(opts.jobId)) });
+    }),
+    getJob: jest.fn(async (jobId: string) => jobs.get(jobId) || null),
+    client: {
+      set: jest.fn(),
+      eval: jest.fn().mockResolvedValue(1),
+    },
+  };
+  return { queue, jobs };
+}
+
+describe('RoundTimerService', () => {
+  it('should schedule a round deadline as a delayed job keyed by round and deadline', async () => {
+    const { queue } = makeQueue();
+    const service = new RoundTimerService(queue as unknown as Queue);
+    jest.spyOn(Date, 'now').mockReturnValue(10_000);
+
+    await service.scheduleRoundDeadline('round-1', new Date(40_000));
+
+    expect(queue.add).toHaveBeenCalledWith(
+      ROUND_TIMER_JOBS.ROUND_DEADLINE,
+      { roundId: 'round-1', deadline: 40_000 },
+      expect.objectContaining({ jobId: 'round-deadline:round-1:40000', delay: 30_000, removeOnComplete: true }),
+    );
+    jest.restoreAllMocks();
+  });
+
+  it('should cancel only the job for the given deadline', async () => {
+    const { queue, jobs } = makeQueue();
+    const service = new RoundTimerService(queue as unknown as Queue);
+    await service.scheduleRoundDeadline('round-1', new Date(40_000));
+    await service.scheduleRoundDeadline('round-1', new Date(50_000));
+
+    expect(await service.cancelRoundDeadline('round-1', new Date(40_000))).toBe(true);
+    expect(await service.cancelRoundDeadline('round-1', new Date(40_000))).toBe(false);
+    expect([...jobs.keys()]).toEqual(['round-deadline:round-1:50000']);
+  });
+
+  it('should skip the work when another instance holds the leader lock', async () => {
+    const { queue } = makeQueue();
+    const service = new RoundTimerService(queue as unknown as Queue);
+    const work = jest.fn().mockResolvedValue(3);
+
+    queue.client.set.mockResolvedValueOnce(null);
+    expect(await service.runAsLeader('reconcile', 60000, work)).toBeNull();
+    expect(work).not.toHaveBeenCalled();
+
+    queue.client.set.mockResolvedValueOnce('OK');
+    expect(await service.runAsLeader('reconcile', 60000, work)).toBe(3);
+    expect(queue.client.set).toHaveBeenLastCalledWith('round-timers:leader:reconcile', expect.any(String), 'PX', 60000, 'NX');
+    expect(queue.client.eval).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { JobOptions, Queue } from 'bull';
+import * as crypto from 'crypto';
+
+export const ROUND_TIMER_QUEUE = 'round-timers';
+
+export const ROUND_TIMER_JOBS = {
+  ROUND_DEADLINE: 'round-deadline',
+  NEXT_ROUND: 'next-round',
+} as const;
+
+export interface RoundDeadlineJobData {
+  roundId: string;
+  deadline: number; // epoch milliseconds
+}
+
+export interface NextRoundJobData {
+  sessionId: string;
+  runAt: number; // epoch milliseconds
+}
+
+export interface ScheduledTimer {
+  name: string;
+  jobId: string;
+  data: RoundDeadlineJobData | NextRoundJobData;
+  runAt: Date;
+}
+
+const TIMER_JOB_OPTIONS: JobOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 1000 },
+  removeOnComplete: true,
+  removeOnFail: true,
+};
+
+// Deletes the lock only while this instance still holds it
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+/**
+ * Round deadlines and session intermissions as bull delayed jobs, so they survive restarts and
+ * fire on exactly one instance. Job ids include the round or session and the time the job is due,
+ * so scheduling the same timer twice is a no-op and a moved deadline gets a job of its own.
+ */
+@Injectable()
+export class RoundTimerService {
+  private readonly logger = new Logger(RoundTimerService.name);
+
+  constructor(
+    @InjectQueue(ROUND_TIMER_QUEUE)
+    private readonly timerQueue: Queue,
+  ) {}
+
+  async scheduleRoundDeadline(roundId: string, deadline: Date): Promise<void> {
+    const data: RoundDeadlineJobData = { roundId, deadline: deadline.getTime() };
+    await this.schedule(ROUND_TIMER_JOBS.ROUND_DEADLINE, this.roundDeadlineJobId(data), data);
+  }
+
+  async cancelRoundDeadline(roundId: string, deadline: Date): Promise<boolean> {
+    return this.cancel(this.roundDeadlineJobId({ roundId, deadline: deadline.getTime() }));
+  }
+
+  async hasRoundDeadline(roundId: string, deadline: Date): Promise<boolean> {
+    return !!(await this.timerQueue.getJob(this.roundDeadlineJobId({ roundId, deadline: deadline.getTime() })));
+  }
+
+  async scheduleNextRound(sessionId: string, runAt: Date): Promise<void> {
+    const data: NextRoundJobData = { sessionId, runAt: runAt.getTime() };
+    await this.schedule(ROUND_TIMER_JOBS.NEXT_ROUND, this.nextRoundJobId(data), data);
+  }
+
+  async cancelNextRound(sessionId: string, runAt: Date): Promise<boolean> {
+    return this.cancel(this.nextRoundJobId({ sessionId, runAt: runAt.getTime() }));
+  }
+
+  /**
+   * Pending timers, for monitoring
+   */
+  async getScheduledTimers(): Promise<ScheduledTimer[]> {
+    const jobs = await this.timerQueue.getDelayed();
+    return jobs.map(job => ({
+      name: job.name,
+      jobId: String(job.id),
+      data: job.data,
+      runAt: new Date(job.timestamp + (job.opts.delay || 0)),
+    }));
+  }
+
+  /**
+   * Run work on one instance at a time. Returns null without running it when another instance
+   * holds the lock; the lock expires after ttlMs in case its holder dies.
+   */
+  async runAsLeader<T>(name: string, ttlMs: number, work: () => Promise<T>): Promise<T | null> {
+    const key = `${ROUND_TIMER_QUEUE}:leader:${name}`;
+    const token = crypto.randomUUID();
+    const acquired = await this.timerQueue.client.set(key, token, 'PX', ttlMs, 'NX');
+    if (!acquired) return null;
+
+    try {
+      return await work();
+    } finally {
+      await this.timerQueue.client
+        .eval(RELEASE_LOCK_SCRIPT, 1, key, token)
+        .catch(error => this.logger.warn(`Failed to release leader lock ${name}: ${error.message}`));
+    }
+  }
+
+  private roundDeadlineJobId({ roundId, deadline }: RoundDeadlineJobData): string {
+    return `round-deadline:${roundId}:${deadline}`;
+  }
+
+  private nextRoundJobId({ sessionId, runAt }: NextRoundJobData): string {
+    return `next-round:${sessionId}:${runAt}`;
+  }
+
+  private async schedule(name: string, jobId: string, data: RoundDeadlineJobData | NextRoundJobData): Promise<void> {
+    const dueAt = 'deadline' in data ? data.deadline : data.runAt;
+    const delay = Math.max(0, dueAt - Date.now());
+    // bull ignores a job whose id is already queued
+    await this.timerQueue.add(name, data, { ...TIMER_JOB_OPTIONS, jobId, delay });
+    this.logger.log(`Scheduled ${name} job ${jobId} in ${delay}ms`);
+  }
+
+  private async cancel(jobId: string): Promise<boolean> {
+    const job = await this.timerQueue.getJob(jobId);
+    if (!job) return false;
+
+    try {
+      await job.remove();
+      return true;
+    } catch (error) {
+      // Already running; the handler re-checks state, so letting it finish is harmless
+      this.logger.warn(`Could not remove timer job ${jobId}: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { ScoringService } from './scoring.service';
+import { ScoringMode } from '../entities/game-session.entity';
+import { ScoringContext } from '../scoring-strategies';
+
+describe('ScoringService', () => {
+  const service = new ScoringService();
+
+  const context = (overrides: Partial<ScoringContext> = {}): ScoringContext => ({
+    grade: { isCorrect: true, partialCredit: 1 },
+    responseTime: 5000,
+    timeLimitMs: 10000,
+    basePoints: 1000,
+    hintPenalty: 0,
+    earlierCorrectAnswers: 0,
+    streak: 0,
+    settings: {},
+    ...overrides,
+  });
+
+  describe('score', () => {
+    it('should default to a linear time bonus with hint penalties', () => {
+      expect(service.score(context())).toBe(750);
+      expect(service.score(context({ hintPenalty: 0.2 }))).toBe(600);
+      expect(service.score(context({ grade: { isCorrect: false, partialCredit: 0 } }))).toBe(0);
+    });
+
+    it('should ignore response time for fixed points', () => {
+      const settings = { mode: ScoringMode.FIXED };
+
+      expect(service.score(context({ settings, responseTime: 9000 }))).toBe(1000);
+      expect(service.score(context({ settings, grade: { isCorrect: false, partialCredit: 0.5 } }))).toBe(500);
+    });
+
+    it('should only reward the first correct answer when first correct wins', () => {
+      const settings = { mode: ScoringMode.FIRST_CORRECT_WINS };
+
+      expect(service.score(context({ settings }))).toBe(1000);
+      expect(service.score(context({ settings, earlierCorrectAnswers: 1 }))).toBe(0);
+    });
+
+    it('should multiply correct answers by the streak up to the cap', () => {
+      const settings = { mode: ScoringMode.STREAK };
+
+      expect(service.score(context({ settings, streak: 2 }))).toBe(1125);
+      expect(service.score(context({ settings, streak: 10 }))).toBe(1500);
+      expect(service.score(context({ settings: { ...settings, maxStreakMultiplier: 3 }, streak: 10 }))).toBe(2250);
+    });
+
+    it('should deduct points for wrong answers under negative marking', () => {
+      const settings = { mode: ScoringMode.NEGATIVE_MARKING, wrongAnswerPenalty: 0.5 };
+
+      expect(service.score(context({ settings }))).toBe(750);
+      expect(service.score(context({ settings, grade: { isCorrect: false, partialCredit: 0 } }))).toBe(-500);
+    });
+
+    it('should use registered strategies', () => {
+      const custom = new ScoringService();
+      custom.registerStrategy({ mode: 'double', score: ({ basePoints }) => basePoints * 2 });
+
+      expect(custom.score(context({ settings: { mode: 'double' as ScoringMode } }))).toBe(2000);
+    });
+  });
+
+  describe('gradeAnswer', () => {
+    it('should accept romanised answers with partial credit above the threshold', () => {
+      const grade = service.gradeAnswer('lubov', { question: 'q', correctAnswer: 'любовь', romanizedAnswer: 'lyubov' }, 0.8);
+
+      expect(grade.isCorrect).toBe(true);
+      expect(grade.partialCredit).toBeCloseTo(5 / 6);
+    });
+
+    it('should grade multi-blank answers blank by blank', () => {
+      const grade = service.gradeAnswer('tiny, dancr', { question: 'q', correctAnswer: ['tiny', 'dancer', 'closer'] }, 0.8);
+
+      expect(grade.blankResults).toEqual([true, true, false]);
+      expect(grade.isCorrect).toBe(false);
+      expect(grade.partialCredit).toBeCloseTo((1 + 5 / 6) / 3);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameRound } from '../entities/game-round.entity';
+import { ScoringMode, ScoringSettings } from '../entities/game-session.entity';
+import { normalizeText } from '../../songs/lyrics.util';
+import {
+  AnswerGrade,
+  FirstCorrectWinsStrategy,
+  FixedPointsStrategy,
+  LinearTimeBonusStrategy,
+  NegativeMarkingStrategy,
+  ScoringContext,
+  ScoringStrategy,
+  StreakMultiplierStrategy,
+} from '../scoring-strategies';
+
+/**
+ * The one place answers are graded and scored. Strategies are picked per round from the scoring
+ * settings copied from its session; further strategies can be registered at startup.
+ */
+@Injectable()
+export class ScoringService {
+  private readonly logger = new Logger(ScoringService.name);
+  private readonly strategies = new Map<string, ScoringStrategy>();
+
+  constructor() {
+    [
+      new LinearTimeBonusStrategy(),
+      new FixedPointsStrategy(),
+      new FirstCorrectWinsStrategy(),
+      new StreakMultiplierStrategy(),
+      new NegativeMarkingStrategy(),
+    ].forEach(strategy => this.registerStrategy(strategy));
+  }
+
+  registerStrategy(strategy: ScoringStrategy): void {
+    this.strategies.set(strategy.mode, strategy);
+  }
+
+  getStrategy(settings?: ScoringSettings): ScoringStrategy {
+    const mode = settings?.mode || ScoringMode.LINEAR_TIME_BONUS;
+    const strategy = this.strategies.get(mode);
+    if (!strategy) {
+      this.logger.warn(`Unknown scoring mode ${mode}, using ${ScoringMode.LINEAR_TIME_BONUS}`);
+      return this.strategies.get(ScoringMode.LINEAR_TIME_BONUS);
+    }
+    return strategy;
+  }
+
+  /**
+   * Whole points for an answer; never fractional, so what the player is told is what gets saved
+   */
+  score(context: ScoringContext): number {
+    return Math.round(this.getStrategy(context.settings).score(context));
+  }
+
+  /**
+   * Compare an answer to the question's, in the native script or romanised. Text answers at least
+   * partialCreditThreshold similar to the expected one count as correct with partial credit.
+   */
+  gradeAnswer(
+    answer: string | number | string[],
+    questionData: GameRound['questionData'],
+    partialCreditThreshold: number
+  ): AnswerGrade {
+    const correctAnswer = questionData.correctAnswer;
+    const romanizedAnswer = questionData.romanizedAnswer;
+
+    // Ordered multi-blank answers are graded blank by blank
+    if (Array.isArray(correctAnswer)) {
+      return this.gradeBlanks(
+        answer,
+        correctAnswer,
+        partialCreditThreshold,
+        Array.isArray(romanizedAnswer) ? romanizedAnswer : undefined
+      );
+    }
+
+    // Exact match
+    if (answer === correctAnswer) {
+      return { isCorrect: true, partialCredit: 1.0 };
+    }
+
+    // String similarity check for text answers, in the native script or romanised
+    if (typeof answer === 'string' && typeof correctAnswer === 'string') {
+      const accepted = typeof romanizedAnswer === 'string' ? [correctAnswer, romanizedAnswer] : [correctAnswer];
+      const similarity = Math.max(
+        ...accepted.map(expected => this.calculateStringSimilarity(normalizeText(answer), normalizeText(expected)))
+      );
+
+      if (similarity >= partialCreditThreshold) {
+        return { isCorrect: true, partialCredit: similarity, similarity };
+      }
+    }
+
+    return { isCorrect: false, partialCredit: 0.0 };
+  }
+
+  private gradeBlanks(
+    answer: string | number | string[],
+    correctAnswer: string[],
+    partialCreditThreshold: number,
+    romanizedAnswer?: string[]
+  ): AnswerGrade {
+    // A single string may carry several blanks separated by commas or pipes
+    const given = Array.isArray(answer) ? answer : String(answer).split(/\s*[,|]\s*/);
+
+    const credits = correctAnswer.map((expected, i) => {
+      const actual = given[i] !== undefined ? normalizeText(String(given[i])) : '';
+      if (!actual) return 0;
+      const accepted = romanizedAnswer?.[i] ? [expected, romanizedAnswer[i]] : [expected];
+      const similarity = Math.max(
+        ...accepted.map(option => this.calculateStringSimilarity(actual, normalizeText(option)))
+      );
+      return similarity >= partialCreditThreshold ? similarity : 0;
+    });
+
+    const blankResults = credits.map(credit => credit > 0);
+    return {
+      isCorrect: blankResults.every(Boolean),
+      partialCredit: credits.reduce((sum, credit) => sum + credit, 0) / correctAnswer.length,
+      blankResults,
+    };
+  }
+
+  private calculateStringSimilarity(str1: string, str2: string): number {
+    // Simple Levenshtein distance-based similarity
+    const distance = this.levenshteinDistance(str1, str2);
+    const maxLength = Math.max(Array.from(str1).length, Array.from(str2).length);
+    return maxLength === 0 ? 1.0 : (maxLength - distance) / maxLength;
+  }
+
+  private levenshteinDistance(a: string, b: string): number {
+    // Compare code points so astral characters count as one edit
+    const str1 = Array.from(a);
+    const str2 = Array.from(b);
+    const matrix = Array(str2.length + 1).fill(null).map(() =>
+      Array(str1.length + 1).fill(null)
+    );
+
+    for (let i = 0; i <= str1.length; i++) {
+      matrix[0][i] = i;
+    }
+
+    for (let j = 0; j <= str2.length; j++) {
+      matrix[j][0] = j;
+    }
+
+    for (let j = 1; j <= str2.length; j++) {
+      for (let i = 1; i <= str1.length; i++) {
+        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        matrix[j][i] = Math.min(
+          matrix[j][i - 1] + 1,     // deletion
+          matrix[j - 1][i] + 1,     // insertion
+          matrix[j - 1][i - 1] + indicator // substitution
+        );
+      }
+    }
+
+    return matrix[str2.length][str1.length];
+  }
+}
@@ -0,0 +1,49 @@
+import { GameRound, RoundStatus } from './entities/game-round.entity';
+import { computeStandings } from './session-standings.util';
+
+function makeRound(status: RoundStatus, answers: Record<string, [number, boolean, number]>): GameRound {
+  const round = new GameRound();
+  round.status = status;
+  round.answers = {};
+  for (const [playerId, [pointsAwarded, isCorrect, timeElapsed]] of Object.entries(answers)) {
+    round.answers[playerId] = { answer: 'x', submittedAt: new Date(), pointsAwarded, isCorrect, timeElapsed };
+  }
+  return round;
+}
+
+describe('computeStandings', () => {
+  const players = [
+    { id: 'ana', name: 'Ana', score: 0, joinedAt: new Date() },
+    { id: 'ben', name: 'Ben', score: 0, joinedAt: new Date() },
+    { id: 'cy', name: 'Cy', score: 0, joinedAt: new Date() },
+  ];
+
+  it('should total points over completed rounds and rank by points', () => {
+    const rounds = [
+      makeRound(RoundStatus.COMPLETED, { ana: [800, true, 4000], ben: [1200, true, 2000] }),
+      makeRound(RoundStatus.COMPLETED, { ana: [900, true, 3000], ben: [0, false, 6000] }),
+      makeRound(RoundStatus.SKIPPED, { cy: [1500, true, 1000] }),
+    ];
+
+    const standings = computeStandings(rounds, players);
+
+    expect(standings.map(s => [s.playerId, s.totalPoints, s.rank])).toEqual([
+      ['ana', 1700, 1],
+      ['ben', 1200, 2],
+      ['cy', 0, 3],
+    ]);
+    expect(standings[0]).toMatchObject({ name: 'Ana', correctAnswers: 2, roundsAnswered: 2, averageResponseTime: 3500 });
+    expect(standings[2]).toMatchObject({ roundsAnswered: 0, averageResponseTime: 0 });
+  });
+
+  it('should share a rank between players level on points and correct answers', () => {
+    const rounds = [makeRound(RoundStatus.COMPLETED, { ana: [1000, true, 5000], ben: [1000, true, 2000] })];
+
+    const standings = computeStandings(rounds, players.slice(0, 2));
+
+    expect(standings.map(s => [s.playerId, s.rank])).toEqual([
+      ['ben', 1],
+      ['ana', 1],
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { GameRound, RoundStatus } from './entities/game-round.entity';
+import { GameSession } from './entities/game-session.entity';
+
+export interface PlayerStanding {
+  playerId: string;
+  name?: string;
+  totalPoints: number;
+  correctAnswers: number;
+  roundsAnswered: number;
+  averageResponseTime: number; // milliseconds, over answered rounds
+  rank: number; // players level on points and correct answers share a rank
+}
+
+/**
+ * Aggregate standings over a session's completed rounds. Every player in the session is listed,
+ * including those who never answered.
+ */
+export function computeStandings(rounds: GameRound[], players: GameSession['players'] = []): PlayerStanding[] {
+  const totals = new Map<string, Omit<PlayerStanding, 'rank' | 'averageResponseTime'> & { totalResponseTime: number }>();
+  const entry = (playerId: string) => {
+    if (!totals.has(playerId)) {
+      totals.set(playerId, { playerId, totalPoints: 0, correctAnswers: 0, roundsAnswered: 0, totalResponseTime: 0 });
+    }
+    return totals.get(playerId)!;
+  };
+
+  for (const player of players) {
+    entry(player.id).name = player.name;
+  }
+  for (const round of rounds) {
+    if (round.status !== RoundStatus.COMPLETED) continue;
+    for (const [playerId, answer] of Object.entries(round.answers || {})) {
+      const total = entry(playerId);
+      total.totalPoints += answer.pointsAwarded || 0;
+      total.correctAnswers += answer.isCorrect ? 1 : 0;
+      total.roundsAnswered++;
+      total.totalResponseTime += answer.timeElapsed || 0;
+    }
+  }
+
+  const standings = [...totals.values()]
+    .map(({ totalResponseTime, ...total }) => ({
+      ...total,
+      averageResponseTime: total.roundsAnswered ? Math.round(totalResponseTime / total.roundsAnswered) : 0,
+      rank: 0,
+    }))
+    .sort((a, b) =>
+      b.totalPoints - a.totalPoints ||
+      b.correctAnswers - a.correctAnswers ||
+      a.averageResponseTime - b.averageResponseTime);
+
+  standings.forEach((standing, index) => {
+    const previous = standings[index - 1];
+    standing.rank = previous &&
+      previous.totalPoints === standing.totalPoints &&
+      previous.correctAnswers === standing.correctAnswers
+      ? previous.rank
+      : index + 1;
+  });
+  return standings;
+}
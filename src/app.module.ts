@@ -1,6 +1,7 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { BullModule } from "@nestjs/bull";
 import { SecurityModule } from "./security/security.module";
 import { LeaderboardModule } from "./leaderboard/leaderboard.module";
 import { AuthModule } from "./auth/auth.module";
@@ -42,6 +43,17 @@ import * as Joi from "joi";
         // Subscribers can be provided via modules; no global subscriber here
       }),
     }),
+    BullModule.forRootAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get("REDIS_HOST"),
+          port: configService.get("REDIS_PORT"),
+          password: configService.get("REDIS_PASSWORD"),
+        },
+      }),
+    }),
     SecurityModule,
     LeaderboardModule,
     AuthModule,
@@ -10,6 +10,7 @@ import helmet from "helmet";
 import cookieParser from "cookie-parser";
 import session from "express-session";
 import passport from "passport";
+import { RedisIoAdapter } from "./redis-io.adapter";
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
@@ -57,6 +58,10 @@ async function bootstrap() {
 
   const configService = app.get(ConfigService);
   const securityConfig = configService.get("security");
+
+  const redisIoAdapter = new RedisIoAdapter(app, configService);
+  await redisIoAdapter.connectToRedis();
+  app.useWebSocketAdapter(redisIoAdapter);
   const maxSize = securityConfig?.validation?.maxBodySize || 10 * 1024 * 1024;
 
   app.use(bodyParser.json({ limit: maxSize }));
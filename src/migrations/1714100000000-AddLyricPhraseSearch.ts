@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLyricPhraseSearch1714100000000 implements MigrationInterface {
+  name = 'AddLyricPhraseSearch1714100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "pg_trgm"');
+
+    // Trigram index behind the `<%` word-similarity operator used for misspelt lyric phrases
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_songs_lyrics_trgm" ON "songs" USING GIN ("lyrics" gin_trgm_ops)',
+    );
+
+    // Phrase matching runs against the same expression, so the planner can use this index
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_songs_lyrics_simple_tsv" ON "songs" USING GIN (to_tsvector('simple', coalesce("lyrics", '')))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_lyrics_simple_tsv"');
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_lyrics_trgm"');
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Must match SONG_SEARCH_VECTOR_EXPRESSION on the Song entity at the time of this migration
+const SEARCH_VECTOR_EXPRESSION =
+  "setweight(to_tsvector('simple', coalesce(title, '')), 'A') || " +
+  "setweight(to_tsvector('simple', coalesce(artist, '')), 'B') || " +
+  "setweight(to_tsvector('simple', coalesce(album, '') || ' ' || coalesce(genre, '')), 'C') || " +
+  "setweight(to_tsvector('simple', coalesce(lyrics, '')), 'D')";
+
+export class AddSongSearchIndex1714200000000 implements MigrationInterface {
+  name = 'AddSongSearchIndex1714200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "pg_trgm"');
+
+    // Generated column: Postgres recomputes it whenever a song row changes, so the index is never stale
+    await queryRunner.query(
+      `ALTER TABLE "songs" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (${SEARCH_VECTOR_EXPRESSION}) STORED`,
+    );
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_songs_search_vector" ON "songs" USING GIN ("search_vector")',
+    );
+
+    // Typo-tolerant matching on the short fields
+    await queryRunner.query('CREATE INDEX IF NOT EXISTS "IDX_songs_title_trgm" ON "songs" USING GIN ("title" gin_trgm_ops)');
+    await queryRunner.query('CREATE INDEX IF NOT EXISTS "IDX_songs_artist_trgm" ON "songs" USING GIN ("artist" gin_trgm_ops)');
+    await queryRunner.query('CREATE INDEX IF NOT EXISTS "IDX_songs_album_trgm" ON "songs" USING GIN ("album" gin_trgm_ops)');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_album_trgm"');
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_artist_trgm"');
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_title_trgm"');
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_search_vector"');
+    await queryRunner.query('ALTER TABLE "songs" DROP COLUMN IF EXISTS "search_vector"');
+  }
+}
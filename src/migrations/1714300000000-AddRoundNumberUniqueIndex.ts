@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// The unnamed (session_id, round_number) index TypeORM generated before it became unique
+const OLD_ROUND_NUMBER_INDEX = 'IDX_6b6c0004c24d2671b0ec4c07b7';
+
+export class AddRoundNumberUniqueIndex1714300000000 implements MigrationInterface {
+  name = 'AddRoundNumberUniqueIndex1714300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Rounds that raced for a number keep the oldest in place; the others move past the session's
+    // last round. Their questions can then no longer be regenerated from the seed.
+    await queryRunner.query(`
+      WITH ranked AS (
+        SELECT id, session_id,
+               row_number() OVER (PARTITION BY session_id, round_number ORDER BY created_at, id) AS copy
+        FROM "game_rounds"
+      ),
+      moved AS (
+        SELECT r.id,
+               last.round_number + row_number() OVER (PARTITION BY r.session_id ORDER BY r.id) AS round_number
+        FROM ranked r
+        JOIN (SELECT session_id, MAX(round_number) AS round_number FROM "game_rounds" GROUP BY session_id) last
+          ON last.session_id = r.session_id
+        WHERE r.copy > 1
+      )
+      UPDATE "game_rounds" g SET round_number = moved.round_number FROM moved WHERE g.id = moved.id
+    `);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "${OLD_ROUND_NUMBER_INDEX}"`);
+    await queryRunner.query(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "UQ_game_rounds_session_round_number" ON "game_rounds" ("session_id", "round_number")',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS "UQ_game_rounds_session_round_number"');
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "${OLD_ROUND_NUMBER_INDEX}" ON "game_rounds" ("session_id", "round_number")`,
+    );
+  }
+}
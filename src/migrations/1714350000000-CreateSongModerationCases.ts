@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// The names TypeORM generates for the entity's indexes, so schema sync in development sees no drift
+const SONG_ID_INDEX = 'IDX_8ce73b67ca25cc323e9f8cd465';
+const STATUS_INDEX = 'IDX_c66464f74e9f3d6437dbe5aaa1';
+const REVIEWER_INDEX = 'IDX_8aa7902e308a1a6652b4dfe0b8';
+
+export class CreateSongModerationCases1714350000000 implements MigrationInterface {
+  name = 'CreateSongModerationCases1714350000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+
+    // Databases that ran schema sync already have these types
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "song_moderation_cases_status_enum" AS ENUM ('pending', 'approved', 'rejected', 'escalated');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "songs_moderation_status_enum" AS ENUM ('pending', 'approved', 'rejected', 'escalated');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "song_moderation_cases" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "song_id" character varying NOT NULL,
+        "status" "song_moderation_cases_status_enum" NOT NULL DEFAULT 'pending',
+        "reason" text NOT NULL,
+        "resolution" text,
+        "opened_by" character varying,
+        "reviewer_id" character varying,
+        "resolved_at" TIMESTAMP,
+        "audit_trail" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_a7cc317dcde911ae858bfddf3a7" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "${SONG_ID_INDEX}" ON "song_moderation_cases" ("song_id")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "${STATUS_INDEX}" ON "song_moderation_cases" ("status")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "${REVIEWER_INDEX}" ON "song_moderation_cases" ("reviewer_id")`);
+
+    // Existing songs were all playable, so they start out approved
+    await queryRunner.query(
+      `ALTER TABLE "songs" ADD COLUMN IF NOT EXISTS "moderation_status" "songs_moderation_status_enum" NOT NULL DEFAULT 'approved'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE "songs" DROP COLUMN IF EXISTS "moderation_status"');
+    await queryRunner.query('DROP TABLE IF EXISTS "song_moderation_cases"');
+    await queryRunner.query('DROP TYPE IF EXISTS "songs_moderation_status_enum"');
+    await queryRunner.query('DROP TYPE IF EXISTS "song_moderation_cases_status_enum"');
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const LEGACY_REASON = 'Flagged before moderation cases';
+
+export class BackfillSongModerationStatus1714400000000 implements MigrationInterface {
+  name = 'BackfillSongModerationStatus1714400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Songs flagged through the old metadata.moderation workflow, and never reviewed since, get an
+    // open case and leave play until it is resolved. Songs approved that way stay approved.
+    await queryRunner.query(
+      `WITH flagged AS (
+         SELECT s.id, COALESCE(NULLIF(s.metadata->'moderation'->>'reason', ''), $1) AS reason
+         FROM "songs" s
+         WHERE s.metadata->'moderation'->>'status' = 'flagged'
+           AND NOT EXISTS (SELECT 1 FROM "song_moderation_cases" c WHERE c.song_id::text = s.id::text)
+       ),
+       opened AS (
+         INSERT INTO "song_moderation_cases" (song_id, status, reason, audit_trail)
+         SELECT id, 'pending', reason, jsonb_build_array(jsonb_build_object(
+           'action', 'opened', 'fromStatus', NULL, 'toStatus', 'pending', 'reason', reason, 'at', now()
+         ))
+         FROM flagged
+         RETURNING song_id
+       )
+       UPDATE "songs" SET moderation_status = 'pending' WHERE id::text IN (SELECT song_id::text FROM opened)`,
+      [LEGACY_REASON],
+    );
+  }
+
+  public async down(): Promise<void> {
+    // Backfilled cases may have been reviewed since; they are kept
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { computeLyricsSignature, computeSignatureBands, normalizeTitle } from '../songs/lyrics.util';
+
+const BATCH_SIZE = 500;
+
+export class BackfillSongNearDuplicateKeys1714500000000 implements MigrationInterface {
+  name = 'BackfillSongNearDuplicateKeys1714500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // findNearDuplicates only looks at these keys, which songs saved earlier never got.
+    // They come from the same code that computes them on save, so stored and new keys match.
+    let lastId = '';
+    for (;;) {
+      const songs: Array<{ id: string; title: string; lyrics: string | null }> = await queryRunner.query(
+        `SELECT id::text AS id, title, lyrics FROM "songs"
+         WHERE id::text > $1 AND NOT (metadata ? 'normalizedTitle' AND metadata ? 'lyricsBands')
+         ORDER BY id::text
+         LIMIT ${BATCH_SIZE}`,
+        [lastId],
+      );
+      if (songs.length === 0) break;
+
+      for (const song of songs) {
+        const lyricsSignature = computeLyricsSignature(song.lyrics || undefined);
+        const keys = {
+          normalizedTitle: normalizeTitle(song.title || ''),
+          lyricsSignature,
+          lyricsBands: computeSignatureBands(lyricsSignature),
+        };
+        await queryRunner.query(
+          `UPDATE "songs" SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb WHERE id::text = $1`,
+          [song.id, JSON.stringify(keys)],
+        );
+      }
+      lastId = songs[songs.length - 1].id;
+    }
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_songs_normalized_title" ON "songs" ((metadata->>'normalizedTitle'))`,
+    );
+    // Serves the `?|` band lookup
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_songs_lyrics_bands" ON "songs" USING GIN ((metadata->'lyricsBands'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_lyrics_bands"');
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_songs_normalized_title"');
+    // The backfilled keys are the same ones songs get on save, so they stay
+  }
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSearchClickPosition1714600000000 implements MigrationInterface {
+  name = 'AddSearchClickPosition1714600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 1-based rank of the clicked song across result pages; unknown for clicks recorded before
+    await queryRunner.query(`ALTER TABLE "search_analytics" ADD COLUMN IF NOT EXISTS "clickPosition" integer`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "search_analytics" DROP COLUMN IF EXISTS "clickPosition"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddContentFilterState1714700000000 implements MigrationInterface {
+  name = 'AddContentFilterState1714700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "content_filter_state" (
+        "id" character varying(16) NOT NULL,
+        "managed_since" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_50c66bd8ffa06896ab28bd8c660" PRIMARY KEY ("id")
+      )
+    `);
+
+    // A list that already has terms was managed before this was tracked
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF to_regclass('content_filter_terms') IS NOT NULL AND EXISTS (SELECT 1 FROM "content_filter_terms") THEN
+          INSERT INTO "content_filter_state" ("id") VALUES ('terms') ON CONFLICT DO NOTHING;
+        END IF;
+      END $$
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS "content_filter_state"');
+  }
+}
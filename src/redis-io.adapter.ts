@@ -0,0 +1,51 @@
+import { INestApplicationContext, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IoAdapter } from "@nestjs/platform-socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import Redis from "ioredis";
+import { Server, ServerOptions } from "socket.io";
+
+/**
+ * Socket.IO adapter for every gateway, so rooms and broadcasts reach clients connected to any
+ * instance; round timers and cron jobs fire on whichever instance picks them up.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+  private clients: Redis[] = [];
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly configService: ConfigService,
+  ) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const pubClient = new Redis({
+      host: this.configService.get<string>("REDIS_HOST"),
+      port: this.configService.get<number>("REDIS_PORT"),
+      password: this.configService.get<string>("REDIS_PASSWORD"),
+      lazyConnect: true,
+    });
+    const subClient = pubClient.duplicate();
+    for (const client of [pubClient, subClient]) {
+      client.on("error", (error: Error) => this.logger.warn(`Socket.IO Redis adapter: ${error.message}`));
+    }
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+
+    this.clients = [pubClient, subClient];
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+
+  async dispose(): Promise<void> {
+    await super.dispose();
+    await Promise.all(this.clients.map(client => client.quit().catch(() => undefined)));
+  }
+}
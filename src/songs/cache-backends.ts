@@ -0,0 +1,212 @@
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+
+export const CACHE_BACKEND = 'CACHE_BACKEND';
+
+/**
+ * Storage behind CacheService. Values are JSON-serialisable; tags group keys for bulk invalidation.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number, tags?: string[]): Promise<void>;
+  connect?(): Promise<void>;
+  delete(key: string): Promise<void>;
+  invalidateTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  close(): Promise<void>;
+}
+
+interface CacheItem<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private cache = new Map<string, CacheItem<any>>();
+  private tags = new Map<string, Set<string>>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const item = this.cache.get(key);
+    if (!item) return null;
+
+    if (Date.now() > item.expiresAt) {
+      this.cache.delete(key);
+      return null;
+    }
+    return item.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number, tags: string[] = []): Promise<void> {
+    this.cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    for (const tag of tags) {
+      if (!this.tags.has(tag)) this.tags.set(tag, new Set());
+      this.tags.get(tag)!.add(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = this.tags.get(tag);
+    if (!keys) return 0;
+
+    let removed = 0;
+    for (const key of keys) {
+      if (this.cache.delete(key)) removed++;
+    }
+    this.tags.delete(tag);
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+    this.tags.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.cache.size;
+  }
+
+  // Drop expired entries and tag references to keys that are gone
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, item] of this.cache.entries()) {
+      if (now > item.expiresAt) this.cache.delete(key);
+    }
+    for (const [tag, keys] of this.tags.entries()) {
+      for (const key of keys) {
+        if (!this.cache.has(key)) keys.delete(key);
+      }
+      if (keys.size === 0) this.tags.delete(tag);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.clear();
+  }
+}
+
+// Deletes a tag's keys and the tag itself in one step, so a key tagged meanwhile is not left behind untracked.
+// Batched because Lua's unpack is limited to a few thousand values.
+const INVALIDATE_TAG_SCRIPT = `
+local keys = redis.call('ZRANGE', KEYS[1], 0, -1)
+redis.call('DEL', KEYS[1])
+local removed = 0
+for i = 1, #keys, 500 do
+  removed = removed + redis.call('DEL', unpack(keys, i, math.min(i + 499, #keys)))
+end
+return removed
+`;
+
+/**
+ * Shared across instances. Tags are Redis sorted sets of keys scored by when they expire, so expired
+ * members are pruned as new ones are added; a tag set outlives its longest member so invalidation still
+ * finds every key (PEXPIRE GT/NX needs Redis 7).
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private readonly logger = new Logger(RedisCacheBackend.name);
+  private reportedDown = false;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = 'cache:',
+  ) {
+    // Log transitions only; ioredis keeps reconnecting and would repeat the same error
+    this.redis.on('ready', () => {
+      this.reportedDown = false;
+      this.logger.log('Redis cache connected');
+    });
+    this.redis.on('error', (error: Error) => {
+      if (this.reportedDown) return;
+      this.reportedDown = true;
+      this.logger.warn(`Redis cache unavailable, serving from memory: ${error.message}`);
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.redis.connect();
+  }
+
+  static fromEnv(): RedisCacheBackend {
+    const redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      lazyConnect: true,
+      // Fail fast so CacheService can fall back to memory instead of queueing commands
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+    return new RedisCacheBackend(redis);
+  }
+
+  get client(): Redis {
+    return this.redis;
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tags:${tag}`;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.redis.get(this.key(key));
+    return raw === null ? null : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number, tags: string[] = []): Promise<void> {
+    const now = Date.now();
+    const pipeline = this.redis.multi().set(this.key(key), JSON.stringify(value), 'PX', ttlMs);
+    for (const tag of tags) {
+      pipeline.zadd(this.tagKey(tag), now + ttlMs, this.key(key));
+      // Otherwise a tag that is always in use, like search, would keep every key it ever had
+      pipeline.zremrangebyscore(this.tagKey(tag), '-inf', now);
+      // Only ever extend the tag's lifetime (GT), never shorten it below a member's TTL
+      pipeline.pexpire(this.tagKey(tag), ttlMs, 'GT');
+      pipeline.pexpire(this.tagKey(tag), ttlMs, 'NX');
+    }
+    await pipeline.exec();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis.del(this.key(key));
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    return (await this.redis.eval(INVALIDATE_TAG_SCRIPT, 1, this.tagKey(tag))) as number;
+  }
+
+  // Removes only this cache's keys; the Redis database is shared with rate limiting
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500);
+      if (keys.length > 0) await this.redis.del(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async size(): Promise<number> {
+    let count = 0;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500);
+      count += keys.filter(key => !key.startsWith(`${this.prefix}tags:`)).length;
+      cursor = next;
+    } while (cursor !== '0');
+    return count;
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,78 @@
+import { CacheService, SEARCH_CACHE_TAG } from './cache.service';
+import { CacheBackend, MemoryCacheBackend } from './cache-backends';
+
+describe('CacheService', () => {
+  it('should invalidate tagged entries and leave the rest', async () => {
+    const cache = new CacheService();
+    await cache.set('search:a', { total: 1 }, 60000, [SEARCH_CACHE_TAG]);
+    await cache.set('search:b', { total: 2 }, 60000, [SEARCH_CACHE_TAG]);
+    await cache.set('suggestions:a', ['a'], 60000);
+
+    expect(await cache.invalidateTag(SEARCH_CACHE_TAG)).toBe(2);
+    expect(await cache.get('search:a')).toBeNull();
+    expect(await cache.get('suggestions:a')).toEqual(['a']);
+  });
+
+  it('should expire entries by ttl', async () => {
+    const cache = new CacheService();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    await cache.set('key', 'value', 500);
+
+    now.mockReturnValue(1_600);
+    expect(await cache.get('key')).toBeNull();
+    now.mockRestore();
+  });
+
+  it('should report hits, misses and invalidations', async () => {
+    const cache = new CacheService();
+    await cache.set('key', 'value', 60000, [SEARCH_CACHE_TAG]);
+    await cache.get('key');
+    await cache.get('key');
+    await cache.get('missing');
+    await cache.invalidateTag(SEARCH_CACHE_TAG);
+
+    expect(await cache.getMetrics()).toEqual({
+      backend: 'memory',
+      hits: 2,
+      misses: 1,
+      hitRate: 0.667,
+      sets: 1,
+      invalidations: 1,
+      errors: 0,
+      size: 0,
+    });
+  });
+
+  it('should fall back to memory while the backend is failing', async () => {
+    const failure = jest.fn().mockRejectedValue(new Error('Connection is closed.'));
+    const broken = {
+      name: 'redis',
+      get: failure,
+      set: failure,
+      delete: failure,
+      invalidateTag: failure,
+      clear: failure,
+      size: failure,
+      close: jest.fn().mockResolvedValue(undefined),
+    } as unknown as CacheBackend;
+    const cache = new CacheService(broken);
+
+    await cache.set('search:a', { total: 1 }, 60000, [SEARCH_CACHE_TAG]);
+    expect(await cache.get('search:a')).toEqual({ total: 1 });
+    expect(await cache.invalidateTag(SEARCH_CACHE_TAG)).toBe(1);
+    expect((await cache.getMetrics()).errors).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should drop tag references to expired keys on cleanup', async () => {
+    const backend = new MemoryCacheBackend();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    await backend.set('old', 1, 100, ['t']);
+    await backend.set('fresh', 2, 10000, ['t']);
+
+    now.mockReturnValue(2_000);
+    backend.cleanup();
+    expect(await backend.size()).toBe(1);
+    expect(await backend.invalidateTag('t')).toBe(1);
+    now.mockRestore();
+  });
+});
@@ -1,55 +1,102 @@
-import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { CACHE_BACKEND, CacheBackend, MemoryCacheBackend } from './cache-backends';
 
-interface CacheItem<T> {
-  value: T;
-  expiresAt: number;
+// Every cached search response; dropped whenever the catalogue changes
+export const SEARCH_CACHE_TAG = 'search';
+
+export interface CacheMetrics {
+  backend: string;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1
+  sets: number;
+  invalidations: number; // keys removed by tag invalidation
+  errors: number; // backend failures served from the memory fallback
+  size: number;
 }
 
 @Injectable()
-export class CacheService implements OnModuleDestroy {
-  private cache = new Map<string, CacheItem<any>>();
+export class CacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CacheService.name);
+  // Used directly when no backend is configured, and as the fallback while the backend is failing
+  private readonly memory = new MemoryCacheBackend();
+  private readonly backend: CacheBackend;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private counters = { hits: 0, misses: 0, sets: 0, invalidations: 0, errors: 0 };
 
-  async get<T>(key: string): Promise<T | null> {
-    const item = this.cache.get(key);
-    
-    if (!item) {
-      return null;
-    }
+  constructor(@Optional() @Inject(CACHE_BACKEND) backend?: CacheBackend) {
+    this.backend = backend || this.memory;
+  }
 
-    if (Date.now() > item.expiresAt) {
-      this.cache.delete(key);
-      return null;
+  async onModuleInit(): Promise<void> {
+    this.startCleanupInterval();
+    if (this.backend.connect) {
+      await this.backend.connect().catch(error => {
+        this.logger.warn(`Cache backend "${this.backend.name}" failed to connect: ${error.message}`);
+      });
     }
+  }
 
-    return item.value as T;
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.withFallback(backend => backend.get<T>(key));
+    if (value === null) {
+      this.counters.misses++;
+    } else {
+      this.counters.hits++;
+    }
+    return value;
   }
 
-  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
-    const expiresAt = Date.now() + ttlMs;
-    this.cache.set(key, { value, expiresAt });
+  async set<T>(key: string, value: T, ttlMs: number, tags: string[] = []): Promise<void> {
+    this.counters.sets++;
+    await this.withFallback(backend => backend.set(key, value, ttlMs, tags));
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    await this.withFallback(backend => backend.delete(key));
+  }
+
+  /**
+   * Removes every entry stored with the tag. Also clears the memory fallback, which may hold
+   * entries written while the backend was down.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    let removed = await this.memory.invalidateTag(tag);
+    if (this.backend !== this.memory) {
+      removed += await this.withFallback(backend => backend.invalidateTag(tag));
+    }
+    this.counters.invalidations += removed;
+    return removed;
   }
 
   async clear(): Promise<void> {
-    this.cache.clear();
+    await this.memory.clear();
+    if (this.backend !== this.memory) {
+      await this.withFallback(backend => backend.clear());
+    }
   }
 
   // Clean up expired entries
   cleanup(): void {
-    const now = Date.now();
-    for (const [key, item] of this.cache.entries()) {
-      if (now > item.expiresAt) {
-        this.cache.delete(key);
-      }
-    }
+    this.memory.cleanup();
+  }
+
+  async getSize(): Promise<number> {
+    return this.withFallback(backend => backend.size());
+  }
+
+  async getMetrics(): Promise<CacheMetrics> {
+    const { hits, misses } = this.counters;
+    return {
+      backend: this.backend.name,
+      ...this.counters,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0,
+      size: await this.getSize(),
+    };
   }
 
-  getSize(): number {
-    return this.cache.size;
+  resetMetrics(): void {
+    this.counters = { hits: 0, misses: 0, sets: 0, invalidations: 0, errors: 0 };
   }
 
   // Start cleanup interval (call this in module initialization)
@@ -76,7 +123,25 @@ export class CacheService implements OnModuleDestroy {
   }
 
   // Cleanup on module destroy
-  onModuleDestroy(): void {
+  async onModuleDestroy(): Promise<void> {
     this.stopCleanupInterval();
+    if (this.backend !== this.memory) {
+      await this.backend.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Runs the operation against the backend, and against the memory cache if that fails, so a
+   * Redis outage degrades caching instead of search.
+   */
+  private async withFallback<R>(operation: (backend: CacheBackend) => Promise<R>): Promise<R> {
+    if (this.backend === this.memory) return operation(this.memory);
+    try {
+      return await operation(this.backend);
+    } catch (error) {
+      this.counters.errors++;
+      this.logger.debug(`Cache backend "${this.backend.name}" failed: ${error.message}`);
+      return operation(this.memory);
+    }
   }
 }
@@ -0,0 +1,35 @@
+import { Readable } from "stream";
+import { Song } from "../GameRound/entities/song.entity";
+import { csvHeader, toCsvLine, toExportRecord, toJsonLine } from "./catalogue-export.util";
+import { readCsvRecords } from "./catalogue-import.util";
+
+describe("catalogue-export.util", () => {
+  const song = {
+    id: "song-1",
+    title: "Hello, Again",
+    artist: "The Testers",
+    lyrics: 'Line one\nHe said "hi"',
+    metadata: { lyricsStats: { totalLines: 2 }, lyricsSignature: [1, 2, 3], lyricsBands: ["0:a"], bpm: 120 },
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-02-01T00:00:00.000Z"),
+  } as unknown as Song;
+
+  it("should include lyrics stats and drop duplicate-detection internals", () => {
+    const record = toExportRecord(song);
+
+    expect(record.lyricsStats).toEqual({ totalLines: 2 });
+    expect(record.metadata).toEqual({ lyricsStats: { totalLines: 2 }, bpm: 120 });
+    expect(JSON.parse(toJsonLine(record)).updatedAt).toBe("2024-02-01T00:00:00.000Z");
+  });
+
+  it("should write CSV that the catalogue import reads back", async () => {
+    const csv = csvHeader() + toCsvLine(toExportRecord(song));
+
+    const rows = [];
+    for await (const row of readCsvRecords(Readable.from([csv]))) rows.push(row);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].record).toMatchObject({ title: "Hello, Again", lyrics: 'Line one\nHe said "hi"', album: "" });
+    expect(JSON.parse(rows[0].record.metadata)).toEqual({ lyricsStats: { totalLines: 2 }, bpm: 120 });
+  });
+});
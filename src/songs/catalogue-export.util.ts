@@ -0,0 +1,71 @@
+import { Song } from "../GameRound/entities/song.entity";
+
+export type ExportFormat = "jsonl" | "csv";
+
+// Column order matches what the catalogue import reads back
+export const EXPORT_COLUMNS = [
+  "id",
+  "title",
+  "artist",
+  "album",
+  "genre",
+  "releaseYear",
+  "durationSeconds",
+  "audioUrl",
+  "coverImageUrl",
+  "language",
+  "moderationStatus",
+  "lyrics",
+  "transliteration",
+  "lyricsStats",
+  "metadata",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+// Duplicate-detection internals; large and meaningless outside this service
+const INTERNAL_METADATA_KEYS = ["lyricsSignature", "lyricsBands"];
+
+export function toExportRecord(song: Song): Record<string, any> {
+  const metadata = { ...(song.metadata || {}) };
+  for (const key of INTERNAL_METADATA_KEYS) delete metadata[key];
+
+  return {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    album: song.album ?? null,
+    genre: song.genre ?? null,
+    releaseYear: song.releaseYear ?? null,
+    durationSeconds: song.durationSeconds ?? null,
+    audioUrl: song.audioUrl ?? null,
+    coverImageUrl: song.coverImageUrl ?? null,
+    language: song.language ?? null,
+    moderationStatus: song.moderationStatus,
+    lyrics: song.lyrics ?? null,
+    transliteration: song.transliteration ?? null,
+    lyricsStats: metadata.lyricsStats ?? null,
+    metadata,
+    createdAt: song.createdAt,
+    updatedAt: song.updatedAt,
+  };
+}
+
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvHeader(): string {
+  return `${EXPORT_COLUMNS.join(",")}\n`;
+}
+
+export function toCsvLine(record: Record<string, any>): string {
+  return `${EXPORT_COLUMNS.map(column => csvCell(record[column])).join(",")}\n`;
+}
+
+export function toJsonLine(record: Record<string, any>): string {
+  return `${JSON.stringify(record)}\n`;
+}
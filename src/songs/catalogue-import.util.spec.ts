@@ -0,0 +1,70 @@
+import { Readable } from "stream";
+import { CatalogueRecord, detectCatalogueFormat, readCsvRecords, readJsonlRecords, toSongInput } from "./catalogue-import.util";
+
+async function collect(records: AsyncGenerator<CatalogueRecord>): Promise<CatalogueRecord[]> {
+  const result: CatalogueRecord[] = [];
+  for await (const record of records) result.push(record);
+  return result;
+}
+
+// Small chunks so quoted fields straddle chunk boundaries
+function streamOf(text: string, chunkSize = 7): Readable {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) chunks.push(text.slice(i, i + chunkSize));
+  return Readable.from(chunks);
+}
+
+describe("catalogue-import.util", () => {
+  describe("readCsvRecords", () => {
+    it("should parse quoted fields with commas, escaped quotes and newlines", async () => {
+      const csv = 'title,artist,lyrics\r\n"Hello, Again",The Testers,"Line one\nHe said ""hi"""\r\nPlain,Band,Words\r\n';
+
+      const records = await collect(readCsvRecords(streamOf(csv)));
+
+      expect(records).toEqual([
+        { row: 1, record: { title: "Hello, Again", artist: "The Testers", lyrics: 'Line one\nHe said "hi"' } },
+        { row: 2, record: { title: "Plain", artist: "Band", lyrics: "Words" } },
+      ]);
+    });
+
+    it("should report rows with the wrong number of columns and keep going", async () => {
+      const records = await collect(readCsvRecords(streamOf("title,artist\nOnly title\nSong,Artist")));
+
+      expect(records[0]).toEqual({ row: 1, error: "Expected 2 columns, found 1" });
+      expect(records[1].record).toEqual({ title: "Song", artist: "Artist" });
+    });
+  });
+
+  describe("readJsonlRecords", () => {
+    it("should report invalid lines by row and skip blank lines", async () => {
+      const jsonl = '{"title":"A","artist":"B"}\n\nnot json\n[1,2]\n';
+
+      const records = await collect(readJsonlRecords(streamOf(jsonl)));
+
+      expect(records[0]).toEqual({ row: 1, record: { title: "A", artist: "B" } });
+      expect(records[1].row).toBe(2);
+      expect(records[1].error).toMatch(/Invalid JSON/);
+      expect(records[2]).toEqual({ row: 3, error: "Each line must be a JSON object" });
+    });
+  });
+
+  describe("toSongInput", () => {
+    it("should convert CSV cells to the song shape", () => {
+      const input = toSongInput({
+        title: "Song",
+        release_year: "1999",
+        "transliteration.title": "Songu",
+        metadata: '{"bpm":120}',
+        album: "",
+      });
+
+      expect(input).toEqual({ title: "Song", releaseYear: 1999, transliteration: { title: "Songu" }, metadata: { bpm: 120 } });
+    });
+  });
+
+  it("should detect the format from the file name", () => {
+    expect(detectCatalogueFormat("catalogue.CSV")).toBe("csv");
+    expect(detectCatalogueFormat("catalogue.ndjson")).toBe("jsonl");
+    expect(detectCatalogueFormat("catalogue.xlsx")).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { Readable } from "stream";
+import * as readline from "readline";
+
+export type CatalogueFormat = "csv" | "jsonl";
+
+export interface CatalogueRecord {
+  row: number; // 1-based data row, header excluded
+  record?: Record<string, any>;
+  error?: string;
+}
+
+const NUMERIC_FIELDS = ["releaseYear", "durationSeconds"];
+const JSON_FIELDS = ["metadata", "transliteration"];
+
+export function detectCatalogueFormat(filename?: string, mimetype?: string): CatalogueFormat | null {
+  const name = (filename || "").toLowerCase();
+  if (name.endsWith(".csv") || mimetype === "text/csv") return "csv";
+  if (name.endsWith(".jsonl") || name.endsWith(".ndjson") || mimetype === "application/x-ndjson") return "jsonl";
+  return null;
+}
+
+/**
+ * Streams RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines (multi-line lyrics).
+ */
+export async function* readCsvRecords(input: Readable): AsyncGenerator<CatalogueRecord> {
+  let header: string[] | null = null;
+  let row = 0;
+  let field = "";
+  let fields: string[] = [];
+  let inQuotes = false;
+  let pendingQuote = false; // saw a quote inside a quoted field; next char decides escape vs close
+
+  const finishRecord = function* (): Generator<CatalogueRecord> {
+    fields.push(field);
+    const values = fields;
+    field = "";
+    fields = [];
+    if (values.length === 1 && values[0].trim() === "") return; // blank line
+
+    if (!header) {
+      header = values.map(name => name.trim().replace(/^\uFEFF/, ""));
+      return;
+    }
+    row++;
+    if (values.length !== header.length) {
+      yield { row, error: `Expected ${header.length} columns, found ${values.length}` };
+      return;
+    }
+    yield { row, record: Object.fromEntries(header.map((name, i) => [name, values[i]])) };
+  };
+
+  for await (const chunk of input) {
+    const text = typeof chunk === "string" ? chunk : chunk.toString("utf8");
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (char === '"') pendingQuote = true;
+        else field += char;
+        continue;
+      }
+      if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === ",") {
+        fields.push(field);
+        field = "";
+      } else if (char === "\n") {
+        yield* finishRecord();
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    yield { row: row + 1, error: "Unterminated quoted field at end of file" };
+    return;
+  }
+  if (field !== "" || fields.length > 0) {
+    yield* finishRecord();
+  }
+}
+
+export async function* readJsonlRecords(input: Readable): AsyncGenerator<CatalogueRecord> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let row = 0;
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    row++;
+    try {
+      const record = JSON.parse(line);
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        yield { row, error: "Each line must be a JSON object" };
+      } else {
+        yield { row, record };
+      }
+    } catch (error) {
+      yield { row, error: `Invalid JSON: ${(error as Error).message}` };
+    }
+  }
+}
+
+export function readCatalogueRecords(input: Readable, format: CatalogueFormat): AsyncGenerator<CatalogueRecord> {
+  return format === "csv" ? readCsvRecords(input) : readJsonlRecords(input);
+}
+
+function toCamelCase(key: string): string {
+  return key.trim().replace(/[_-]+([a-z0-9])/gi, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Maps a CSV/JSONL record onto the song DTO shape. CSV cells are strings, so numbers and JSON
+ * columns are converted here; "transliteration.title" style columns become nested objects.
+ * Malformed values are left as-is for DTO validation to report.
+ */
+export function toSongInput(record: Record<string, any>): Record<string, any> {
+  const input: Record<string, any> = {};
+  for (const [rawKey, rawValue] of Object.entries(record)) {
+    if (rawValue === "" || rawValue === null || rawValue === undefined) continue;
+
+    const [key, nested] = rawKey.split(".").map(toCamelCase);
+    let value = rawValue;
+    if (typeof value === "string" && NUMERIC_FIELDS.includes(key) && /^\d+$/.test(value.trim())) {
+      value = Number(value);
+    } else if (typeof value === "string" && JSON_FIELDS.includes(key) && !nested) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // reported by validation as a non-object
+      }
+    }
+
+    if (nested) {
+      input[key] = { ...(input[key] || {}), [nested]: value };
+    } else {
+      input[key] = value;
+    }
+  }
+  return input;
+}
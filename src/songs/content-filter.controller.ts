@@ -0,0 +1,43 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, UseGuards } from "@nestjs/common";
+import { ContentFilterService } from "./content-filter.service";
+import { CreateContentTermDto, UpdateContentTermDto } from "./songs.dto";
+import { JwtAccessGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../security/guards/roles.guard";
+import { AdminOnly } from "../security/decorators/security.decorators";
+
+@Controller("songs/content-filter")
+@UseGuards(JwtAccessGuard, RolesGuard)
+@AdminOnly()
+export class ContentFilterController {
+  constructor(private readonly contentFilterService: ContentFilterService) {}
+
+  @Get("terms")
+  listTerms(@Query("language") language?: string) {
+    return this.contentFilterService.listTerms(language);
+  }
+
+  @Post("terms")
+  addTerm(@Body() dto: CreateContentTermDto) {
+    return this.contentFilterService.addTerm(dto);
+  }
+
+  @Patch("terms/:id")
+  updateTerm(@Param("id") id: string, @Body() dto: UpdateContentTermDto) {
+    return this.contentFilterService.updateTerm(id, dto);
+  }
+
+  @Delete("terms/:id")
+  removeTerm(@Param("id") id: string) {
+    return this.contentFilterService.removeTerm(id);
+  }
+
+  @Post("terms/import-defaults")
+  importDefaults() {
+    return this.contentFilterService.importDefaults();
+  }
+
+  @Post("classify")
+  classify(@Body() body: { text: string; language?: string }) {
+    return this.contentFilterService.classify(body.text || "", body.language);
+  }
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ContentFilterService } from './content-filter.service';
+import { ContentFilterTerm } from './entities/content-filter-term.entity';
+import { ContentFilterState } from './entities/content-filter-state.entity';
+import { Song } from '../GameRound/entities/song.entity';
+
+describe('ContentFilterService', () => {
+  let service: ContentFilterService;
+  let rows: Partial<ContentFilterTerm>[];
+  let managed: boolean;
+
+  beforeEach(async () => {
+    rows = [];
+    managed = false;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContentFilterService,
+        {
+          provide: getRepositoryToken(ContentFilterTerm),
+          useValue: {
+            find: jest.fn().mockImplementation(() => Promise.resolve(rows)),
+            findOne: jest.fn().mockImplementation(async ({ where }) =>
+              rows.find(row => (where.id ? row.id === where.id : row.term === where.term && row.language === where.language)) || null,
+            ),
+            create: jest.fn().mockImplementation(data => ({ enabled: true, ...data })),
+            save: jest.fn().mockImplementation(async row => {
+              if (!row.id) rows.push(Object.assign(row, { id: `term-${rows.length + 1}` }));
+              return row;
+            }),
+            remove: jest.fn().mockImplementation(async row => {
+              rows = rows.filter(other => other.id !== row.id);
+              return row;
+            }),
+          },
+        },
+        {
+          provide: getRepositoryToken(ContentFilterState),
+          useValue: {
+            exists: jest.fn().mockImplementation(async () => managed),
+            upsert: jest.fn().mockImplementation(async () => {
+              managed = true;
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ContentFilterService>(ContentFilterService);
+  });
+
+  it('should fall back to the default terms while the list is unmanaged', async () => {
+    const terms = await service.getTerms();
+
+    expect(terms.length).toBeGreaterThan(0);
+  });
+
+  it('should use only enabled managed terms once the list is managed', async () => {
+    managed = true;
+    rows = [
+      { term: 'heck', language: '*', severity: 'mild', enabled: true },
+      { term: 'darn', language: '*', severity: 'mild', enabled: false },
+    ];
+
+    const mask = await service.getMasker('family');
+
+    expect(mask('heck darn damn')).toBe('h*** darn damn');
+  });
+
+  it('should not bring the defaults back when the last managed term is removed', async () => {
+    const term = await service.addTerm({ term: 'heck', severity: 'mild' });
+    await service.removeTerm(term.id);
+
+    expect(await service.getTerms()).toEqual([]);
+  });
+
+  it('should not mask anything for explicit sessions', async () => {
+    const mask = await service.getMasker('explicit');
+
+    expect(mask('damn')).toBe('damn');
+  });
+
+  it('should exclude songs above the session rating', async () => {
+    const moderate = { lyrics: 'Oh shit, here we go', language: 'en', metadata: {} } as Song;
+    const labelled = { lyrics: 'Clean words only', language: 'en', metadata: { explicit: true } } as Song;
+
+    expect(await service.isSongAllowed(moderate, 'family')).toBe(false);
+    expect(await service.isSongAllowed(moderate, 'teen')).toBe(true);
+    expect(await service.isSongAllowed(labelled, 'family')).toBe(false);
+    expect(await service.isSongAllowed(moderate, 'explicit')).toBe(true);
+  });
+
+  it('should apply term changes to songs without re-saving them', async () => {
+    // Saved while the defaults applied, so its stored analysis and explicit flag are clean
+    const song = {
+      lyrics: 'Gosh darn it all',
+      language: 'en',
+      metadata: { contentSeverity: null, explicit: false, explicitSource: 'lyrics' },
+    } as Song;
+    expect(await service.isSongAllowed(song, 'teen')).toBe(true);
+
+    const term = await service.addTerm({ term: 'darn', severity: 'severe' });
+    expect(await service.isSongAllowed(song, 'teen')).toBe(false);
+
+    await service.updateTerm(term.id, { severity: 'mild' });
+    expect(await service.isSongAllowed(song, 'teen')).toBe(true);
+    expect(await service.isSongAllowed(song, 'family')).toBe(true);
+  });
+
+  it('should ignore an explicit flag derived from lyrics the current terms no longer match', async () => {
+    const song = {
+      lyrics: 'Gosh darn it all',
+      language: 'en',
+      metadata: { contentSeverity: 'moderate', explicit: true, explicitSource: 'lyrics' },
+    } as Song;
+
+    expect(await service.isSongAllowed(song, 'family')).toBe(true);
+  });
+});
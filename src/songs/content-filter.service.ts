@@ -0,0 +1,175 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Song } from '../GameRound/entities/song.entity';
+import { ContentRating } from '../GameRound/entities/game-session.entity';
+import { ContentFilterTerm, ContentSeverity } from './entities/content-filter-term.entity';
+import { CONTENT_FILTER_STATE_ID, ContentFilterState } from './entities/content-filter-state.entity';
+import {
+  ContentMatch,
+  ContentTerm,
+  DEFAULT_CONTENT_TERMS,
+  SEVERITY_RANK,
+  findContentMatches,
+  maskContent,
+  maxContentSeverity,
+} from './lyrics.util';
+
+export interface ContentClassification {
+  severity: ContentSeverity | null;
+  matches: ContentMatch[];
+}
+
+export interface ContentRatingRule {
+  maskFrom: ContentSeverity | null; // terms at or above this severity are masked
+  excludeFrom: ContentSeverity | null; // songs at or above this severity are not played
+}
+
+export const CONTENT_RATING_RULES: Record<ContentRating, ContentRatingRule> = {
+  family: { maskFrom: 'mild', excludeFrom: 'moderate' },
+  teen: { maskFrom: 'moderate', excludeFrom: 'severe' },
+  explicit: { maskFrom: null, excludeFrom: null },
+};
+
+/**
+ * Classifies lyrics against the managed word/phrase list and applies session content ratings.
+ * Swap in another classifier by providing a subclass for this token.
+ */
+@Injectable()
+export class ContentFilterService {
+  private readonly logger = new Logger(ContentFilterService.name);
+  private readonly cacheTtlMs = 60 * 1000;
+  private cachedTerms: { value: ContentTerm[]; expiresAt: number } | null = null;
+
+  constructor(
+    @InjectRepository(ContentFilterTerm)
+    private readonly termsRepo: Repository<ContentFilterTerm>,
+    @InjectRepository(ContentFilterState)
+    private readonly stateRepo: Repository<ContentFilterState>,
+  ) {}
+
+  /**
+   * Enabled terms. The built-in defaults apply until the list is managed through the admin API.
+   */
+  async getTerms(): Promise<ContentTerm[]> {
+    if (this.cachedTerms && Date.now() < this.cachedTerms.expiresAt) {
+      return this.cachedTerms.value;
+    }
+
+    let terms: ContentTerm[] = DEFAULT_CONTENT_TERMS;
+    try {
+      const managed = await this.stateRepo.exists({ where: { id: CONTENT_FILTER_STATE_ID } });
+      if (managed) {
+        terms = (await this.termsRepo.find()).filter(row => row.enabled);
+      }
+    } catch (error) {
+      this.logger.error('Failed to load content filter terms, using defaults:', error);
+    }
+
+    this.cachedTerms = { value: terms, expiresAt: Date.now() + this.cacheTtlMs };
+    return terms;
+  }
+
+  async classify(text: string, language?: string): Promise<ContentClassification> {
+    const matches = findContentMatches(text, await this.getTerms(), language);
+    return {
+      severity: maxContentSeverity(matches.map(match => match.severity)),
+      matches,
+    };
+  }
+
+  /**
+   * Returns a synchronous masker for the rating, so generators can mask many lines after one lookup.
+   */
+  async getMasker(rating: ContentRating = 'explicit', language?: string): Promise<(text: string) => string> {
+    const { maskFrom } = CONTENT_RATING_RULES[rating] || CONTENT_RATING_RULES.explicit;
+    if (!maskFrom) return text => text;
+
+    const terms = await this.getTerms();
+    return text => maskContent(text, terms, maskFrom, language);
+  }
+
+  /**
+   * Severity of a song's lyrics against the current term list, so term changes apply without
+   * re-saving songs. A label-supplied explicit flag counts as moderate; one derived from the lyrics
+   * when the song was saved is ignored, since it may be stale.
+   */
+  async getSongSeverity(song: Song): Promise<ContentSeverity | null> {
+    const metadata = song.metadata || {};
+    const { severity } = await this.classify(song.lyrics || '', song.language);
+    const labelled = metadata.explicit && metadata.explicitSource !== 'lyrics';
+    return maxContentSeverity([severity, labelled ? 'moderate' : null]);
+  }
+
+  async isSongAllowed(song: Song, rating: ContentRating = 'explicit'): Promise<boolean> {
+    const { excludeFrom } = CONTENT_RATING_RULES[rating] || CONTENT_RATING_RULES.explicit;
+    if (!excludeFrom) return true;
+    const severity = await this.getSongSeverity(song);
+    return !severity || SEVERITY_RANK[severity] < SEVERITY_RANK[excludeFrom];
+  }
+
+  // Admin management
+
+  async listTerms(language?: string): Promise<ContentFilterTerm[]> {
+    return this.termsRepo.find({
+      where: language ? { language } : {},
+      order: { language: 'ASC', term: 'ASC' },
+    });
+  }
+
+  async addTerm(input: { term: string; language?: string; severity: ContentSeverity }): Promise<ContentFilterTerm> {
+    const term = input.term.trim().toLowerCase();
+    const language = input.language || '*';
+    const existing = await this.termsRepo.findOne({ where: { term, language } });
+    if (existing) {
+      throw new BadRequestException(`Term "${term}" already exists for language ${language}`);
+    }
+
+    await this.markManaged();
+    const saved = await this.termsRepo.save(this.termsRepo.create({ term, language, severity: input.severity }));
+    this.cachedTerms = null;
+    return saved;
+  }
+
+  async updateTerm(id: string, input: { severity?: ContentSeverity; enabled?: boolean }): Promise<ContentFilterTerm> {
+    const term = await this.termsRepo.findOne({ where: { id } });
+    if (!term) throw new NotFoundException('Content filter term not found');
+
+    Object.assign(term, input);
+    await this.markManaged();
+    const saved = await this.termsRepo.save(term);
+    this.cachedTerms = null;
+    return saved;
+  }
+
+  async removeTerm(id: string): Promise<{ id: string }> {
+    const term = await this.termsRepo.findOne({ where: { id } });
+    if (!term) throw new NotFoundException('Content filter term not found');
+
+    await this.markManaged();
+    await this.termsRepo.remove(term);
+    this.cachedTerms = null;
+    return { id };
+  }
+
+  /**
+   * Copies the built-in defaults into the managed list so they can be edited individually.
+   */
+  async importDefaults(): Promise<{ imported: number }> {
+    await this.markManaged();
+    let imported = 0;
+    for (const term of DEFAULT_CONTENT_TERMS) {
+      const language = term.language || '*';
+      const existing = await this.termsRepo.findOne({ where: { term: term.term, language } });
+      if (existing) continue;
+      await this.termsRepo.save(this.termsRepo.create({ term: term.term, language, severity: term.severity }));
+      imported++;
+    }
+    this.cachedTerms = null;
+    return { imported };
+  }
+
+  private async markManaged(): Promise<void> {
+    await this.stateRepo.upsert({ id: CONTENT_FILTER_STATE_ID }, ['id']);
+  }
+}
@@ -0,0 +1,16 @@
+import { Entity, PrimaryColumn, CreateDateColumn } from 'typeorm';
+
+export const CONTENT_FILTER_STATE_ID = 'terms';
+
+/**
+ * Present once the term list has been changed through the admin API. From then on only the managed
+ * terms apply, even when none are left.
+ */
+@Entity('content_filter_state')
+export class ContentFilterState {
+  @PrimaryColumn({ length: 16 })
+  id: string;
+
+  @CreateDateColumn({ name: 'managed_since' })
+  managedSince: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type ContentSeverity = 'mild' | 'moderate' | 'severe';
+
+@Entity('content_filter_terms')
+@Index(['term', 'language'], { unique: true })
+export class ContentFilterTerm {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // A single word or a phrase; matched on whole words, case-insensitively
+  @Column()
+  term: string;
+
+  // BCP 47 code, or "*" for terms that apply to every language
+  @Column({ length: 16, default: '*' })
+  language: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  severity: ContentSeverity;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
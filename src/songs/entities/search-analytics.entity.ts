@@ -38,6 +38,10 @@ export class SearchAnalytics {
   @Column({ nullable: true })
   clickedSongId?: string;
 
+  // 1-based rank of the clicked song across pages
+  @Column({ type: 'int', nullable: true })
+  clickPosition?: number;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata?: Record<string, any>;
 
@@ -0,0 +1,106 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum SongImportStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface SongImportRowError {
+  row: number;
+  title?: string;
+  message: string;
+}
+
+export interface SongImportDuplicate {
+  row: number;
+  title: string;
+  artist: string;
+  duplicateOf: { id: string; title: string; artist: string };
+  similarity: number;
+  message: string;
+}
+
+export interface SongImportCounts {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  possibleDuplicates: number;
+}
+
+@Entity('song_import_jobs')
+@Index(['status'])
+export class SongImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'enum',
+    enum: SongImportStatus,
+    default: SongImportStatus.QUEUED,
+  })
+  status: SongImportStatus;
+
+  @Column({ length: 8 })
+  format: 'csv' | 'jsonl';
+
+  @Column({ name: 'original_name', nullable: true })
+  originalName: string | null;
+
+  // S3 key of the uploaded file, readable from every worker; removed once the job completes or finally fails
+  @Column({ name: 'file_key' })
+  fileKey: string;
+
+  @Column({ name: 'dry_run', default: false })
+  dryRun: boolean;
+
+  @Column('jsonb', { default: {} })
+  options: { upsert?: boolean; allowNearDuplicates?: boolean };
+
+  // Rows fully handled; a retried job resumes after this row
+  @Column({ name: 'processed_rows', default: 0 })
+  processedRows: number;
+
+  // Percentage of the file read
+  @Column({ default: 0 })
+  progress: number;
+
+  @Column('jsonb', {
+    default: { inserted: 0, updated: 0, skipped: 0, invalid: 0, possibleDuplicates: 0 },
+  })
+  counts: SongImportCounts;
+
+  // Capped; counts.invalid holds the full number
+  @Column('jsonb', { default: [] })
+  errors: SongImportRowError[];
+
+  @Column('jsonb', { name: 'possible_duplicates', default: [] })
+  possibleDuplicates: SongImportDuplicate[];
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason: string | null;
+
+  @Column({ name: 'created_by', nullable: true })
+  createdBy: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
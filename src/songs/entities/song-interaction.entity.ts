@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum SongInteractionType {
+  PLAY = 'play', // the song was played to players when a round started
+  SEARCH = 'search', // the song was listed in search results
+  CLICK = 'click', // a search result for the song was opened
+  ROUND = 'round', // the song was picked for a game round
+}
+
+// Append-only log the trending job aggregates; old rows are purged once outside every window
+@Entity('song_interactions')
+@Index(['songId', 'occurredAt'])
+@Index(['occurredAt'])
+export class SongInteraction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Same type as songs.id, which the trending job joins on
+  @Column({ name: 'song_id', type: 'uuid' })
+  songId: string;
+
+  @Column({ length: 16 })
+  type: SongInteractionType;
+
+  @Column({ name: 'user_id', nullable: true })
+  userId: string | null;
+
+  // Session or search the interaction happened in
+  @Column({ name: 'context_id', nullable: true })
+  contextId: string | null;
+
+  @CreateDateColumn({ name: 'occurred_at' })
+  occurredAt: Date;
+}
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ModerationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  ESCALATED = 'escalated',
+}
+
+export type ModerationAction = 'opened' | 'assigned' | 'approved' | 'rejected' | 'escalated';
+
+export interface ModerationAuditEntry {
+  action: ModerationAction;
+  fromStatus: ModerationStatus | null;
+  toStatus: ModerationStatus;
+  actorId?: string;
+  reviewerId?: string;
+  reason?: string;
+  at: Date;
+}
+
+@Entity('song_moderation_cases')
+@Index(['songId'])
+@Index(['status'])
+@Index(['reviewerId'])
+export class SongModerationCase {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'song_id' })
+  songId: string;
+
+  @Column({
+    type: 'enum',
+    enum: ModerationStatus,
+    default: ModerationStatus.PENDING,
+  })
+  status: ModerationStatus;
+
+  // Why the case was opened
+  @Column('text')
+  reason: string;
+
+  // Why it was approved or rejected
+  @Column('text', { nullable: true })
+  resolution: string | null;
+
+  @Column({ name: 'opened_by', nullable: true })
+  openedBy: string | null;
+
+  @Column({ name: 'reviewer_id', nullable: true })
+  reviewerId: string | null;
+
+  @Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  // Append-only record of every state change and assignment
+  @Column('jsonb', { name: 'audit_trail', default: [] })
+  auditTrail: ModerationAuditEntry[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
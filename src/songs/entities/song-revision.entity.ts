@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type SongRevisionAction = 'create' | 'update' | 'bulk_upsert' | 'restore';
+
+// Editable fields of a song; derived metadata (stats, sections, hashes) is recomputed on restore
+export interface SongSnapshot {
+  title: string;
+  artist: string;
+  album?: string | null;
+  genre?: string | null;
+  releaseYear?: number | null;
+  durationSeconds?: number | null;
+  audioUrl?: string | null;
+  coverImageUrl?: string | null;
+  lyrics?: string | null;
+  language?: string | null;
+  transliteration?: Record<string, any> | null;
+  timedLyrics?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+export interface SongFieldChange {
+  field: keyof SongSnapshot;
+  from: any;
+  to: any;
+}
+
+@Entity('song_revisions')
+@Index(['songId', 'revisionNumber'], { unique: true })
+export class SongRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'song_id' })
+  songId: string;
+
+  // 1 for the revision recorded at creation, then increasing per song
+  @Column({ name: 'revision_number' })
+  revisionNumber: number;
+
+  @Column({ length: 16 })
+  action: SongRevisionAction;
+
+  @Column('jsonb')
+  snapshot: SongSnapshot;
+
+  // Field changes against the previous revision
+  @Column('jsonb', { default: [] })
+  changes: SongFieldChange[];
+
+  @Column({ name: 'author_id', nullable: true })
+  authorId: string | null;
+
+  @Column('text', { nullable: true })
+  reason: string | null;
+
+  @Column({ name: 'restored_from', nullable: true })
+  restoredFrom: number | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  Index,
+} from 'typeorm';
+
+export enum TrendingWindow {
+  HOURLY = 'hourly',
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
+// One row per song with recent interactions per window; the whole window is replaced on each run
+@Entity('song_trending_scores')
+@Index(['window', 'rank'])
+export class SongTrendingScore {
+  @PrimaryColumn({ name: 'song_id', type: 'uuid' })
+  songId: string;
+
+  // "window" is reserved in Postgres
+  @PrimaryColumn({ name: 'time_window', length: 16 })
+  window: TrendingWindow;
+
+  // Sum of weighted interactions, each decayed by its age
+  @Column('double precision')
+  score: number;
+
+  @Column()
+  rank: number;
+
+  // Raw counts within the window's horizon
+  @Column({ default: 0 })
+  plays: number;
+
+  @Column({ default: 0 })
+  searches: number;
+
+  @Column({ default: 0 })
+  clicks: number;
+
+  @Column({ default: 0 })
+  rounds: number;
+
+  @Column({ name: 'computed_at', type: 'timestamp' })
+  computedAt: Date;
+}
@@ -0,0 +1,47 @@
+import { findLyricMatch, trigramSimilarity } from "./lyric-match.util";
+
+describe("lyric-match.util", () => {
+  const lyrics = [
+    "[Verse 1]",
+    "We were dancing in the pale moonlight",
+    "Holding on to you so tight",
+    "Never let the morning come",
+  ].join("\n");
+
+  it("should find the line and highlight the matched words", () => {
+    const match = findLyricMatch(lyrics, "dancing in the moonlight");
+
+    expect(match.line).toBe("We were dancing in the pale moonlight");
+    expect(match.lineNumber).toBe(2);
+    expect(match.highlights.map(({ start, end }) => match.line.slice(start, end))).toEqual([
+      "dancing",
+      "in",
+      "the",
+      "moonlight",
+    ]);
+  });
+
+  it("should tolerate misspelt words", () => {
+    const match = findLyricMatch(lyrics, "holdin onto you so tite");
+
+    expect(match.lineNumber).toBe(3);
+    expect(match.score).toBeGreaterThan(0.3);
+  });
+
+  it("should prefer words in the order they were remembered", () => {
+    const inOrder = findLyricMatch("the morning never came\nnever let the morning come", "never let the morning");
+
+    expect(inOrder.lineNumber).toBe(2);
+  });
+
+  it("should return null when nothing resembles the query", () => {
+    expect(findLyricMatch(lyrics, "submarine yellow")).toBeNull();
+    expect(findLyricMatch(null, "anything")).toBeNull();
+  });
+
+  it("should compute pg_trgm style similarity", () => {
+    expect(trigramSimilarity("moonlight", "moonlight")).toBe(1);
+    expect(trigramSimilarity("moonlite", "moonlight")).toBeGreaterThan(0.4);
+    expect(trigramSimilarity("cat", "dog")).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { normalizeText } from "./lyrics.util";
+
+export interface HighlightRange {
+  start: number; // UTF-16 offset into the line, inclusive
+  end: number; // exclusive
+}
+
+export interface LyricLineMatch {
+  line: string;
+  lineNumber: number; // 1-based, counting every line of the stored lyrics
+  highlights: HighlightRange[];
+  score: number; // 0-1
+}
+
+interface PositionedWord {
+  word: string; // normalised
+  start: number;
+  end: number;
+}
+
+// pg_trgm's default similarity_threshold is 0.3; a little stricter since this runs per word
+const WORD_SIMILARITY = 0.4;
+const MIN_LINE_SCORE = 0.3;
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}']+/gu;
+
+function positionedWords(text: string): PositionedWord[] {
+  const words: PositionedWord[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalizeText(match[0]);
+    if (word) words.push({ word, start: match.index!, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+// Same padding as pg_trgm: two spaces before, one after
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i <= padded.length - 3; i++) result.add(padded.slice(i, i + 3));
+  return result;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const gram of left) if (right.has(gram)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Aligns the query words with the line in order, tolerating misspelt words.
+ * Scores coverage of the query, discounted for fuzzy matches and for gaps between matched words.
+ */
+function scoreLine(queryWords: string[], lineWords: PositionedWord[]): { score: number; highlights: HighlightRange[] } {
+  const highlights: HighlightRange[] = [];
+  let similarityTotal = 0;
+  let gaps = 0;
+  let cursor = 0;
+  let lastMatched = -1;
+
+  for (const queryWord of queryWords) {
+    let best = -1;
+    let bestSimilarity = 0;
+    for (let i = cursor; i < lineWords.length; i++) {
+      const similarity = trigramSimilarity(queryWord, lineWords[i].word);
+      if (similarity >= WORD_SIMILARITY && similarity > bestSimilarity) {
+        best = i;
+        bestSimilarity = similarity;
+        if (similarity === 1) break;
+      }
+    }
+    if (best === -1) continue;
+
+    if (lastMatched !== -1) gaps += best - lastMatched - 1;
+    highlights.push({ start: lineWords[best].start, end: lineWords[best].end });
+    similarityTotal += bestSimilarity;
+    lastMatched = best;
+    cursor = best + 1;
+  }
+
+  const coverage = similarityTotal / queryWords.length;
+  const contiguity = highlights.length > 1 ? 1 / (1 + gaps / highlights.length) : 1;
+  return { score: coverage * (0.8 + 0.2 * contiguity), highlights };
+}
+
+/**
+ * The lyric line that best matches a half-remembered phrase, with offsets of the matched words.
+ */
+export function findLyricMatch(lyrics: string | null | undefined, query: string): LyricLineMatch | null {
+  const queryWords = positionedWords(query).map(word => word.word);
+  if (!lyrics || queryWords.length === 0) return null;
+
+  let best: LyricLineMatch | null = null;
+  const lines = lyrics.split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const lineWords = positionedWords(lines[index]);
+    if (lineWords.length === 0) continue;
+
+    const { score, highlights } = scoreLine(queryWords, lineWords);
+    if (score >= MIN_LINE_SCORE && (!best || score > best.score)) {
+      best = { line: lines[index], lineNumber: index + 1, highlights, score: Math.round(score * 100) / 100 };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,258 @@
+import {
+  computeLyricsHash,
+  computeLyricsSignature,
+  computeSignatureBands,
+  estimateSimilarity,
+  detectScript,
+  isLrcLyrics,
+  findContentMatches,
+  isLyricsGameCompatible,
+  maskContent,
+  normalizeText,
+  normalizeTitle,
+  parseAndValidateLyrics,
+  parseLrc,
+  parseLyricStructure,
+  romanize,
+  tokenizeWords,
+} from "./lyrics.util";
+
+describe("lyrics.util", () => {
+  describe("parseLrc", () => {
+    it("should return null for plain lyrics", () => {
+      expect(parseLrc("First line of the song\nSecond line of the song")).toBeNull();
+      expect(isLrcLyrics("First line of the song")).toBe(false);
+    });
+
+    it("should parse line timestamps and strip tags from the text", () => {
+      const lrc = [
+        "[ar:Test Artist]",
+        "[ti:Test Song]",
+        "[00:12.50]Hello darkness my old friend",
+        "[00:17.00]I've come to talk with you again",
+      ].join("\n");
+
+      const result = parseLrc(lrc);
+
+      expect(result.text).toBe("Hello darkness my old friend\nI've come to talk with you again");
+      expect(result.timed.format).toBe("lrc");
+      expect(result.timed.lines).toEqual([
+        { text: "Hello darkness my old friend", time: 12.5, endTime: 17, words: undefined },
+        { text: "I've come to talk with you again", time: 17, words: undefined },
+      ]);
+    });
+
+    it("should expand lines with several timestamps in song order", () => {
+      const lrc = "[00:30.00][00:10.00]Chorus line here\n[00:20.00]Verse line here";
+
+      const result = parseLrc(lrc);
+
+      expect(result.timed.lines.map(l => [l.time, l.text])).toEqual([
+        [10, "Chorus line here"],
+        [20, "Verse line here"],
+        [30, "Chorus line here"],
+      ]);
+    });
+
+    it("should parse enhanced LRC word timings and apply the offset", () => {
+      const lrc = [
+        "[offset:500]",
+        "[00:12.00]<00:12.00>Hello <00:12.40>world <00:13.10>again",
+        "[00:15.00]<00:15.00>Second <00:15.50>line",
+      ].join("\n");
+
+      const result = parseLrc(lrc);
+
+      expect(result.timed.format).toBe("enhanced_lrc");
+      expect(result.timed.offsetMs).toBe(500);
+      expect(result.text).toBe("Hello world again\nSecond line");
+      expect(result.timed.lines[0].time).toBe(11.5);
+      expect(result.timed.lines[0].words).toEqual([
+        { text: "Hello", time: 11.5 },
+        { text: "world", time: 11.9 },
+        { text: "again", time: 12.6 },
+      ]);
+    });
+  });
+
+  describe("parseLyricStructure", () => {
+    it("should split lyrics on section headers", () => {
+      const lyrics = [
+        "[Verse 1]",
+        "Walking down the empty street",
+        "[Chorus: Both]",
+        "Sing it loud tonight",
+        "[Bridge]",
+        "Hold on a little longer",
+        "[Chorus]",
+      ].join("\n");
+
+      const sections = parseLyricStructure(lyrics);
+
+      expect(sections.map(s => [s.type, s.label])).toEqual([
+        ["verse", "Verse 1"],
+        ["chorus", "Chorus: Both"],
+        ["bridge", "Bridge"],
+        ["chorus", "Chorus"],
+      ]);
+      // An empty repeated header reuses the earlier chorus lines
+      expect(sections[3].lines).toEqual(["Sing it loud tonight"]);
+    });
+
+    it("should detect repeated blocks as the chorus when there are no headers", () => {
+      const lyrics = [
+        "First verse line one\nFirst verse line two",
+        "Repeat after me now\nThis is the hook",
+        "Second verse line one\nSecond verse line two",
+        "Repeat after me now\nThis is the hook",
+      ].join("\n\n");
+
+      const sections = parseLyricStructure(lyrics);
+
+      expect(sections.map(s => s.label)).toEqual(["Verse 1", "Chorus", "Verse 2", "Chorus"]);
+    });
+  });
+
+  describe("parseAndValidateLyrics", () => {
+    it("should compute stats on the text of LRC lyrics", () => {
+      const parsed = parseAndValidateLyrics("[00:01.00]Line one is here\n[00:05.00]Line two is here");
+
+      expect(parsed.lines).toEqual(["Line one is here", "Line two is here"]);
+      expect(parsed.hasTimings).toBe(true);
+    });
+
+    it("should not count section headers as lyric lines", () => {
+      const parsed = parseAndValidateLyrics("[Verse 1]\nLine one is here\n[Chorus]\nLine two is here");
+
+      expect(parsed.totalLines).toBe(2);
+    });
+  });
+
+  describe("normalizeText", () => {
+    it("should fold Latin accents but keep other scripts", () => {
+      expect(normalizeText("¡Canción, Bonita!")).toBe("cancion bonita");
+      expect(normalizeText("Привет, мир!")).toBe("привет мир");
+      expect(normalizeText("사랑해요…")).toBe("사랑해요");
+      expect(normalizeText("がんばって")).toBe("がんばって");
+    });
+
+    it("should give different lyrics in non-Latin scripts different hashes", () => {
+      expect(computeLyricsHash("Привет мир")).not.toBe(computeLyricsHash("こんにちは世界"));
+    });
+  });
+
+  describe("tokenizeWords", () => {
+    it("should split unspaced scripts into words", () => {
+      const words = tokenizeWords("今日は天気がいい", "ja");
+
+      expect(words.length).toBeGreaterThan(1);
+      expect(words.join("")).toBe("今日は天気がいい");
+    });
+
+    it("should split spaced scripts on whitespace and punctuation", () => {
+      expect(tokenizeWords("Я помню, чудное мгновенье")).toEqual(["Я", "помню", "чудное", "мгновенье"]);
+    });
+  });
+
+  describe("romanize", () => {
+    it("should romanise Cyrillic and Greek and leave other text alone", () => {
+      expect(romanize("Катюша")).toBe("Katyusha");
+      expect(romanize("Αγάπη")).toBe("Agapi");
+      expect(romanize("Hello")).toBe("Hello");
+    });
+  });
+
+  describe("isLyricsGameCompatible", () => {
+    it("should accept lyrics in non-Latin scripts", () => {
+      const parsed = parseAndValidateLyrics("君の名前を呼んでいる\n夜空に星が光る");
+
+      expect(parsed.script).toBe("japanese");
+      expect(isLyricsGameCompatible(parsed)).toBe(true);
+    });
+
+    it("should reject lyrics without any words", () => {
+      expect(detectScript("♪ ♪ ♪")).toBe("other");
+      expect(isLyricsGameCompatible(parseAndValidateLyrics("♪ ♪ ♪\n♪ ♪ ♪"))).toBe(false);
+    });
+  });
+
+  describe("content filtering", () => {
+    const terms = [
+      { term: "damn", language: "en", severity: "mild" as const },
+      { term: "ass", language: "en", severity: "moderate" as const },
+      { term: "mierda", language: "es", severity: "moderate" as const },
+      { term: "go to hell", severity: "severe" as const },
+    ];
+
+    it("should match whole words and phrases only", () => {
+      const matches = findContentMatches("Damn, class dismissed. Go to... HELL", terms);
+
+      expect(matches.map(m => m.term)).toEqual(["damn", "go to hell"]);
+    });
+
+    it("should only apply language-specific terms to that language", () => {
+      expect(findContentMatches("mierda", terms, "en")).toHaveLength(0);
+      expect(findContentMatches("mierda", terms, "es-MX")).toHaveLength(1);
+    });
+
+    it("should mask terms at or above the given severity", () => {
+      expect(maskContent("Damn, kiss my ass", terms, "mild")).toBe("D***, kiss my a**");
+      expect(maskContent("Damn, kiss my ass", terms, "moderate")).toBe("Damn, kiss my a**");
+    });
+
+    it("should record the worst severity in the lyrics stats", () => {
+      const parsed = parseAndValidateLyrics("Damn this road\nKiss my ass goodbye", terms);
+
+      expect(parsed.contentSeverity).toBe("moderate");
+    });
+  });
+
+  describe("normalizeTitle", () => {
+    it("should strip version suffixes", () => {
+      expect(normalizeTitle("Yesterday (Remastered 2009)")).toBe("yesterday");
+      expect(normalizeTitle("Yesterday - Remastered 2009")).toBe("yesterday");
+      expect(normalizeTitle("Layla [Live at the Royal Albert Hall]")).toBe("layla");
+      expect(normalizeTitle("Stay (feat. Someone)")).toBe("stay");
+      expect(normalizeTitle("Stay ft. Someone")).toBe("stay");
+    });
+
+    it("should keep titles that only contain version words", () => {
+      expect(normalizeTitle("Live and Let Die")).toBe("live and let die");
+      expect(normalizeTitle("(Live)")).toBe("live");
+    });
+  });
+
+  describe("lyric signatures", () => {
+    const original = [
+      "We were dancing in the pale moonlight",
+      "Holding on to you so tight",
+      "Never let the morning come",
+      "Singing till the night is done",
+      "Every star above is burning bright",
+      "Calling out your name tonight",
+    ].join("\n");
+
+    it("should rate a lightly edited version as near-identical", () => {
+      const live = `[Intro]\n${original}\nThank you, goodnight!`;
+
+      const similarity = estimateSimilarity(computeLyricsSignature(original), computeLyricsSignature(live));
+
+      expect(similarity).toBeGreaterThan(0.8);
+    });
+
+    it("should rate unrelated lyrics as dissimilar", () => {
+      const other = "Rain keeps falling on the empty street\nNobody left for me to meet\nCold coffee and a broken phone";
+
+      expect(estimateSimilarity(computeLyricsSignature(original), computeLyricsSignature(other))).toBeLessThan(0.2);
+    });
+
+    it("should share a band between near-identical lyrics", () => {
+      const bands = computeSignatureBands(computeLyricsSignature(original));
+      const copyBands = computeSignatureBands(computeLyricsSignature(original.toUpperCase()));
+
+      expect(bands).toHaveLength(16);
+      expect(copyBands.some(band => bands.includes(band))).toBe(true);
+      expect(computeSignatureBands(computeLyricsSignature(""))).toEqual([]);
+    });
+  });
+});
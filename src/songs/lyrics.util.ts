@@ -1,55 +1,547 @@
-import crypto from "crypto";
+import * as crypto from "crypto";
+import { LyricSection, LyricSectionType, TimedLyricLine, TimedLyricWord, TimedLyrics } from "../GameRound/entities/song.entity";
+import { ContentSeverity } from "./entities/content-filter-term.entity";
 
 export type ParsedLyrics = {
   lines: string[];
   totalLines: number;
   avgLineLength: number;
   profanityScore: number; // 0..1
+  contentSeverity: ContentSeverity | null; // worst filtered term found
   containsNonAscii: boolean;
+  script: LyricScript;
+  wordCount: number;
+  hasTimings: boolean;
 };
 
-const PROFANITY_LIST = [
-  "badword1",
-  "badword2",
-  "badword3",
+export type ContentTerm = {
+  term: string;
+  language?: string; // "*" or omitted for every language
+  severity: ContentSeverity;
+};
+
+export type ContentMatch = ContentTerm & { count: number };
+
+export type LyricScript =
+  | "latin"
+  | "cyrillic"
+  | "greek"
+  | "arabic"
+  | "hebrew"
+  | "devanagari"
+  | "thai"
+  | "hangul"
+  | "japanese"
+  | "han"
+  | "other";
+
+export type ParsedLrc = {
+  text: string; // plain lyrics with all tags removed
+  timed: TimedLyrics;
+};
+
+const LRC_LINE = /^((?:\[\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?\])+)(.*)$/;
+const LRC_LINE_TAG = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LRC_WORD_TAG = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const LRC_META_TAG = /^\[([a-z#]+):(.*)\]$/i;
+
+// "[Verse 1]", "[Chorus: Artist]", "(Bridge)"
+const SECTION_HEADER = /^[\[(]\s*([^\])]+?)\s*[\])]\s*:?$/;
+const SECTION_TYPES: Array<[RegExp, LyricSectionType]> = [
+  [/^pre[- ]?chorus/i, "pre_chorus"],
+  [/^post[- ]?chorus/i, "post_chorus"],
+  [/^(chorus|refrain|hook)/i, "chorus"],
+  [/^verse/i, "verse"],
+  [/^bridge/i, "bridge"],
+  [/^intro/i, "intro"],
+  [/^outro/i, "outro"],
 ];
 
+const SCRIPT_PATTERNS: Array<[LyricScript, RegExp]> = [
+  ["latin", /\p{Script=Latin}/gu],
+  ["cyrillic", /\p{Script=Cyrillic}/gu],
+  ["greek", /\p{Script=Greek}/gu],
+  ["arabic", /\p{Script=Arabic}/gu],
+  ["hebrew", /\p{Script=Hebrew}/gu],
+  ["devanagari", /\p{Script=Devanagari}/gu],
+  ["thai", /\p{Script=Thai}/gu],
+  ["hangul", /\p{Script=Hangul}/gu],
+  ["japanese", /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ["han", /\p{Script=Han}/gu],
+];
+
+// Scripts written without spaces between words; these need a word segmenter
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Intl.Segmenter ships with Node 16+ but is not in the ES2021 lib typings
+type WordSegment = { segment: string; isWordLike?: boolean };
+type WordSegmenter = { segment(text: string): Iterable<WordSegment> };
+const Segmenter: (new (locale?: string, options?: { granularity: "word" }) => WordSegmenter) | undefined =
+  (Intl as any).Segmenter;
+
+const CYRILLIC_LATIN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "yo", ж: "zh", з: "z", и: "i", й: "y",
+  к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f",
+  х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya",
+  і: "i", ї: "yi", є: "ye", ґ: "g", ў: "u",
+};
+
+const GREEK_LATIN: Record<string, string> = {
+  α: "a", β: "v", γ: "g", δ: "d", ε: "e", ζ: "z", η: "i", θ: "th", ι: "i", κ: "k", λ: "l",
+  μ: "m", ν: "n", ξ: "x", ο: "o", π: "p", ρ: "r", σ: "s", ς: "s", τ: "t", υ: "y", φ: "f",
+  χ: "ch", ψ: "ps", ω: "o",
+};
+
+// Bracketed or dashed title suffixes that mark a version of a song rather than a different song
+const VERSION_KEYWORDS =
+  "remaster(?:ed)?|live|acoustic|unplugged|radio edit|edit|version|mix|remix|mono|stereo|demo|deluxe|" +
+  "explicit|clean|single|extended|instrumental|bonus track|feat\\.?|ft\\.?|featuring|re-?recorded|anniversary|\\d{4}";
+const BRACKETED_VERSION = new RegExp(`\\s*[([][^)\\]]*\\b(?:${VERSION_KEYWORDS})\\b[^)\\]]*[)\\]]`, "gi");
+const DASHED_VERSION = new RegExp(`\\s+[-–—]\\s+[^-–—]*\\b(?:${VERSION_KEYWORDS})\\b.*$`, "i");
+const FEATURING = /\s+(?:feat\.?|ft\.|featuring)\s+.*$/i;
+
+export const MINHASH_SIZE = 64;
+export const MINHASH_BANDS = 16; // 4 rows per band: pairs above ~0.8 similarity almost always share a band
+const SHINGLE_SIZE = 3;
+
+export const SEVERITY_RANK: Record<ContentSeverity, number> = {
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+};
+
+// Used until terms are managed through the content filter admin API
+export const DEFAULT_CONTENT_TERMS: ContentTerm[] = [
+  { term: "damn", language: "en", severity: "mild" },
+  { term: "hell", language: "en", severity: "mild" },
+  { term: "crap", language: "en", severity: "mild" },
+  { term: "shit", language: "en", severity: "moderate" },
+  { term: "bitch", language: "en", severity: "moderate" },
+  { term: "ass", language: "en", severity: "moderate" },
+  { term: "fuck", language: "en", severity: "severe" },
+  { term: "fucking", language: "en", severity: "severe" },
+  { term: "motherfucker", language: "en", severity: "severe" },
+  { term: "mierda", language: "es", severity: "moderate" },
+  { term: "joder", language: "es", severity: "severe" },
+  { term: "puta", language: "es", severity: "severe" },
+  { term: "merde", language: "fr", severity: "moderate" },
+  { term: "putain", language: "fr", severity: "severe" },
+  { term: "scheiße", language: "de", severity: "moderate" },
+  { term: "porra", language: "pt", severity: "moderate" },
+  { term: "блядь", language: "ru", severity: "severe" },
+];
+
+// Lowercases and strips punctuation in any script. Accents are folded only on Latin
+// letters: marks on kana, Hangul or Devanagari change the word, not just its spelling.
 export function normalizeText(text: string): string {
   return text
     .toLowerCase()
     .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{N}\p{M}\s]/gu, " ")
     .replace(/\s+/g, " ")
     .trim();
 }
 
+// Word segments of a line. Spaced scripts split on whitespace and punctuation;
+// Chinese, Japanese, Thai etc. go through Intl.Segmenter.
+export function segmentWords(text: string, language?: string): WordSegment[] {
+  if (Segmenter && UNSPACED_SCRIPT.test(text)) {
+    return Array.from(new Segmenter(language, { granularity: "word" }).segment(text)).map(s => ({
+      segment: s.segment,
+      isWordLike: s.isWordLike,
+    }));
+  }
+  return Array.from(text.matchAll(/[\p{L}\p{N}\p{M}'’-]+|[^\p{L}\p{N}\p{M}'’-]+/gu)).map(([segment]) => ({
+    segment,
+    isWordLike: /[\p{L}\p{N}]/u.test(segment),
+  }));
+}
+
+export function tokenizeWords(text: string, language?: string): string[] {
+  return segmentWords(text, language)
+    .filter(s => s.isWordLike)
+    .map(s => s.segment);
+}
+
+export function isUnspacedScript(text: string): boolean {
+  return UNSPACED_SCRIPT.test(text);
+}
+
+// Dominant writing system by letter count; kana anywhere marks the text as Japanese
+export function detectScript(text?: string): LyricScript {
+  if (!text) return "other";
+  let best: LyricScript = "other";
+  let bestCount = 0;
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    const count = (text.match(pattern) || []).length;
+    if (script === "japanese" && count > 0) return "japanese";
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Rule-based romanisation for Cyrillic and Greek. Other scripts need a
+// transliteration supplied with the song and are returned unchanged.
+export function romanize(text: string): string {
+  return Array.from(text.normalize("NFD").replace(/(\p{Script=Greek})\p{M}+/gu, "$1").normalize("NFC"))
+    .map(char => {
+      const lower = char.toLowerCase();
+      const latin = CYRILLIC_LATIN[lower] ?? GREEK_LATIN[lower];
+      if (latin === undefined) return char;
+      return char !== lower && latin ? latin.charAt(0).toUpperCase() + latin.slice(1) : latin;
+    })
+    .join("");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word, case-insensitive pattern for a term; phrase words may be separated
+// by any punctuation or whitespace. Unspaced scripts match anywhere.
+function contentTermPattern(term: string): RegExp {
+  const words = term.trim().split(/\s+/).map(escapeRegExp).join("[^\\p{L}\\p{N}]+");
+  return isUnspacedScript(term)
+    ? new RegExp(words, "giu")
+    : new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+function appliesTo(term: ContentTerm, language?: string): boolean {
+  if (!term.language || term.language === "*" || !language) return true;
+  return language.toLowerCase().split("-")[0] === term.language.toLowerCase().split("-")[0];
+}
+
+export function findContentMatches(text: string, terms: ContentTerm[], language?: string): ContentMatch[] {
+  if (!text) return [];
+  const folded = text.normalize("NFC");
+  return terms
+    .filter(term => term.term.trim() && appliesTo(term, language))
+    .map(term => ({ ...term, count: (folded.match(contentTermPattern(term.term)) || []).length }))
+    .filter(match => match.count > 0);
+}
+
+export function maxContentSeverity(severities: Array<ContentSeverity | null | undefined>): ContentSeverity | null {
+  return severities.reduce<ContentSeverity | null>(
+    (max, severity) => (severity && (!max || SEVERITY_RANK[severity] > SEVERITY_RANK[max]) ? severity : max),
+    null,
+  );
+}
+
+// Masks every term at or above minSeverity, keeping the first letter of each word: "damn" -> "d***"
+export function maskContent(text: string, terms: ContentTerm[], minSeverity: ContentSeverity, language?: string): string {
+  if (!text) return text;
+  return terms
+    .filter(term => term.term.trim() && appliesTo(term, language) && SEVERITY_RANK[term.severity] >= SEVERITY_RANK[minSeverity])
+    // Longest first so phrases are masked before the words inside them
+    .sort((a, b) => b.term.length - a.term.length)
+    .reduce(
+      (masked, term) =>
+        masked.replace(contentTermPattern(term.term), match =>
+          match.replace(/[\p{L}\p{N}\p{M}]+/gu, word => {
+            const chars = Array.from(word);
+            return chars[0] + "*".repeat(chars.length - 1);
+          }),
+        ),
+      text.normalize("NFC"),
+    );
+}
+
+// "Yesterday - Remastered 2009" and "Yesterday (Live at the BBC)" both become "yesterday"
+export function normalizeTitle(title: string): string {
+  const stripped = (title || "")
+    .replace(BRACKETED_VERSION, "")
+    .replace(DASHED_VERSION, "")
+    .replace(FEATURING, "");
+  return normalizeText(stripped || title || "");
+}
+
+// Murmur3 finaliser: spreads one 32-bit hash into independent-looking permutations
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function lyricShingles(lyrics: string): Set<string> {
+  const lrc = parseLrc(lyrics);
+  const text = (lrc ? lrc.text : lyrics)
+    .split("\n")
+    .filter(line => !isSectionHeader(line))
+    .join("\n");
+  const words = tokenizeWords(normalizeText(text));
+  const shingles = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length) shingles.add(words.join(" "));
+    return shingles;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return shingles;
+}
+
+// MinHash signature over 3-word shingles; matching positions estimate Jaccard similarity
+export function computeLyricsSignature(lyrics?: string): number[] | null {
+  if (!lyrics) return null;
+  const shingles = lyricShingles(lyrics);
+  if (shingles.size === 0) return null;
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const h = mix32(base ^ Math.imul(i + 1, 0x9e3779b9));
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+// Locality-sensitive hashing bands: similar signatures share at least one band key
+export function computeSignatureBands(signature: number[] | null): string[] {
+  if (!signature) return [];
+  const rows = signature.length / MINHASH_BANDS;
+  return Array.from({ length: MINHASH_BANDS }, (_, band) =>
+    `${band}:${fnv1a(signature.slice(band * rows, (band + 1) * rows).join(",")).toString(16)}`,
+  );
+}
+
+export function estimateSimilarity(a: number[] | null, b: number[] | null): number {
+  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
+  const same = a.reduce((count, value, i) => count + (value === b[i] ? 1 : 0), 0);
+  return same / a.length;
+}
+
 export function computeLyricsHash(lyrics?: string): string | null {
   if (!lyrics) return null;
   const normalized = normalizeText(lyrics);
   return crypto.createHash("sha256").update(normalized).digest("hex");
 }
 
-export function parseAndValidateLyrics(lyrics?: string): ParsedLyrics | null {
+function toSeconds(minutes: string, seconds: string, fraction?: string): number {
+  const frac = fraction ? Number(fraction) / Math.pow(10, fraction.length) : 0;
+  return roundTime(Number(minutes) * 60 + Number(seconds) + frac);
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function stripWordTags(text: string): string {
+  return text.replace(LRC_WORD_TAG, "").replace(/\s+/g, " ").trim();
+}
+
+// Enhanced LRC: "<00:12.00>Hello <00:12.40>world". Untagged leading text starts with the line.
+function parseWordTimings(body: string, lineTime: number): TimedLyricWord[] {
+  const tags = Array.from(body.matchAll(LRC_WORD_TAG));
+  if (tags.length === 0) return [];
+
+  const words: TimedLyricWord[] = [];
+  const pushWords = (segment: string, time: number) => {
+    for (const text of segment.trim().split(/\s+/).filter(Boolean)) {
+      words.push({ text, time });
+    }
+  };
+
+  pushWords(body.slice(0, tags[0].index), lineTime);
+  tags.forEach((tag, i) => {
+    const start = tag.index + tag[0].length;
+    const end = i + 1 < tags.length ? tags[i + 1].index : body.length;
+    pushWords(body.slice(start, end), toSeconds(tag[1], tag[2], tag[3]));
+  });
+  return words;
+}
+
+export function isLrcLyrics(lyrics?: string): boolean {
+  if (!lyrics) return false;
+  const lines = lyrics.replace(/\r\n?/g, "\n").split("\n").map(l => l.trim()).filter(Boolean);
+  const content = lines.filter(l => !LRC_META_TAG.test(l) || LRC_LINE.test(l));
+  const timed = content.filter(l => LRC_LINE.test(l)).length;
+  return timed > 0 && timed >= content.length / 2;
+}
+
+// Parses LRC and enhanced-LRC lyrics into plain text plus line/word timestamps.
+// Returns null when the input is not LRC.
+export function parseLrc(lyrics?: string): ParsedLrc | null {
+  if (!isLrcLyrics(lyrics)) return null;
+
+  let offsetMs = 0;
+  let hasWordTimings = false;
+  const lines: TimedLyricLine[] = [];
+
+  for (const rawLine of lyrics.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+    const match = LRC_LINE.exec(line);
+    if (!match) {
+      const meta = LRC_META_TAG.exec(line);
+      if (meta && meta[1].toLowerCase() === "offset") {
+        offsetMs = parseInt(meta[2], 10) || 0;
+      }
+      continue;
+    }
+
+    const [, tags, body] = match;
+    const text = stripWordTags(body);
+    const times = Array.from(tags.matchAll(LRC_LINE_TAG)).map(t => toSeconds(t[1], t[2], t[3]));
+    const words = parseWordTimings(body, times[0]);
+    if (words.length) hasWordTimings = true;
+
+    // A line tagged with several timestamps (e.g. a repeated chorus) is emitted once per timestamp
+    for (const time of times) {
+      const shift = time - times[0];
+      lines.push({
+        text,
+        time,
+        words: words.length ? words.map(w => ({ text: w.text, time: roundTime(w.time + shift) })) : undefined,
+      });
+    }
+  }
+
+  // Positive offsets make lyrics appear earlier
+  const offset = offsetMs / 1000;
+  for (const line of lines) {
+    line.time = roundTime(Math.max(0, line.time - offset));
+    line.words?.forEach(w => (w.time = roundTime(Math.max(0, w.time - offset))));
+  }
+  lines.sort((a, b) => a.time - b.time);
+  lines.forEach((line, i) => {
+    if (i + 1 < lines.length) line.endTime = lines[i + 1].time;
+  });
+
+  return {
+    // Empty timed lines mark instrumental gaps; keep them as block separators
+    text: lines.map(l => l.text).join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+    timed: {
+      format: hasWordTimings ? "enhanced_lrc" : "lrc",
+      offsetMs,
+      lines,
+    },
+  };
+}
+
+export function isSectionHeader(line: string): boolean {
+  return SECTION_HEADER.test(line.trim());
+}
+
+function sectionTypeFor(label: string): LyricSectionType {
+  const match = SECTION_TYPES.find(([pattern]) => pattern.test(label));
+  return match ? match[1] : "other";
+}
+
+function splitBlocks(lyrics: string): string[][] {
+  return lyrics
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map(block => block.split("\n").map(l => l.trim()).filter(Boolean))
+    .filter(block => block.length > 0);
+}
+
+// Splits lyrics into sections using "[Verse 1]"-style headers. Without headers,
+// blank-line separated blocks that repeat are treated as the chorus.
+export function parseLyricStructure(lyrics?: string): LyricSection[] {
+  if (!lyrics) return [];
+  const lrc = parseLrc(lyrics);
+  if (lrc) lyrics = lrc.text;
+
+  const lines = lyrics.replace(/\r\n?/g, "\n").split("\n").map(l => l.trim()).filter(Boolean);
+  return lines.some(isSectionHeader) ? sectionsFromHeaders(lines) : sectionsFromRepetition(lyrics);
+}
+
+function sectionsFromHeaders(lines: string[]): LyricSection[] {
+  const sections: LyricSection[] = [];
+  let current: LyricSection | null = null;
+
+  for (const line of lines) {
+    const header = SECTION_HEADER.exec(line);
+    if (header) {
+      current = { type: sectionTypeFor(header[1]), label: header[1], lines: [] };
+      sections.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { type: "intro", label: "Intro", lines: [] };
+      sections.push(current);
+    }
+    current.lines.push(line);
+  }
+
+  // A bare "[Chorus]" header means "repeat the chorus": reuse the lines of the last one with content
+  sections.forEach((section, i) => {
+    if (section.lines.length > 0) return;
+    const previous = sections.slice(0, i).reverse().find(s => s.type === section.type && s.lines.length > 0);
+    if (previous) section.lines = [...previous.lines];
+  });
+
+  return sections.filter(s => s.lines.length > 0);
+}
+
+function sectionsFromRepetition(lyrics: string): LyricSection[] {
+  const blocks = splitBlocks(lyrics);
+  const counts = new Map<string, number>();
+  for (const block of blocks) {
+    const key = normalizeText(block.join(" "));
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  let verseNumber = 0;
+  return blocks.map(block => {
+    const isChorus = (counts.get(normalizeText(block.join(" "))) || 0) > 1;
+    if (isChorus) return { type: "chorus" as const, label: "Chorus", lines: block };
+    verseNumber++;
+    return { type: "verse" as const, label: `Verse ${verseNumber}`, lines: block };
+  });
+}
+
+export function parseAndValidateLyrics(
+  lyrics?: string,
+  contentTerms: ContentTerm[] = DEFAULT_CONTENT_TERMS,
+  language?: string,
+): ParsedLyrics | null {
   if (!lyrics) return null;
+  const lrc = parseLrc(lyrics);
+  if (lrc) lyrics = lrc.text;
   const raw = lyrics.replace(/\r\n?/g, "\n");
-  const lines = raw.split("\n").map(l => l.trim()).filter(Boolean);
+  const lines = raw.split("\n").map(l => l.trim()).filter(l => l && !isSectionHeader(l));
   const totalLines = lines.length;
-  const lengths = lines.map(l => l.length);
+  // Count characters, not UTF-16 code units, so emoji and astral CJK are not double counted
+  const lengths = lines.map(l => Array.from(l.normalize("NFC")).length);
   const avgLineLength = lengths.length
     ? lengths.reduce((a, b) => a + b, 0) / lengths.length
     : 0;
-  const normalized = normalizeText(lyrics);
-  const profanityHits = PROFANITY_LIST.reduce((acc, word) => acc + (normalized.includes(word) ? 1 : 0), 0);
+  const contentMatches = findContentMatches(lines.join("\n"), contentTerms, language);
+  const profanityHits = contentMatches.reduce((acc, match) => acc + match.count, 0);
   const profanityScore = Math.min(1, profanityHits / Math.max(1, totalLines / 4));
   const containsNonAscii = /[^\x00-\x7F]/.test(lyrics);
+  const wordCount = lines.reduce((acc, line) => acc + tokenizeWords(line).length, 0);
 
   return {
     lines,
     totalLines,
     avgLineLength,
     profanityScore,
+    contentSeverity: maxContentSeverity(contentMatches.map(match => match.severity)),
     containsNonAscii,
+    script: detectScript(lines.join("\n")),
+    wordCount,
+    hasTimings: !!lrc,
   };
 }
 
@@ -57,7 +549,9 @@ export function isLyricsGameCompatible(parsed: ParsedLyrics | null): boolean {
   if (!parsed) return true;
   if (parsed.totalLines < 2) return false;
   if (parsed.avgLineLength < 3) return false;
-  if (parsed.profanityScore > 0.5) return false;
+  // Explicit lyrics are playable; sessions filter them by content rating instead
+  // Nothing to blank or guess when the lines hold no words (e.g. "♪ ♪ ♪")
+  if (parsed.wordCount < parsed.totalLines) return false;
   return true;
 }
 
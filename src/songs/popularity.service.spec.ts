@@ -0,0 +1,92 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { PopularityService } from './popularity.service';
+import { Song } from '../GameRound/entities/song.entity';
+import { SearchAnalytics } from './entities/search-analytics.entity';
+import { SongInteraction } from './entities/song-interaction.entity';
+import { SongTrendingScore, TrendingWindow } from './entities/song-trending-score.entity';
+
+describe('PopularityService', () => {
+  let service: PopularityService;
+  let manager: { query: jest.Mock };
+  let trendingRepo: { find: jest.Mock; manager: { transaction: jest.Mock } };
+  let songs: Partial<Song>[];
+
+  beforeEach(async () => {
+    songs = [{ id: 'a', title: 'A' }, { id: 'b', title: 'B' }];
+    manager = { query: jest.fn() };
+    trendingRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      manager: { transaction: jest.fn().mockImplementation(work => work(manager)) },
+    };
+    const songsRepo = {
+      createQueryBuilder: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockImplementation(async () => songs),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PopularityService,
+        { provide: getRepositoryToken(Song), useValue: songsRepo },
+        { provide: getRepositoryToken(SearchAnalytics), useValue: {} },
+        { provide: getRepositoryToken(SongInteraction), useValue: {} },
+        { provide: getRepositoryToken(SongTrendingScore), useValue: trendingRepo },
+      ],
+    }).compile();
+
+    service = module.get<PopularityService>(PopularityService);
+  });
+
+  it('should replace the window with decayed scores', async () => {
+    manager.query
+      .mockResolvedValueOnce([{ locked: true }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ song_id: 'a' }, { song_id: 'b' }]);
+
+    await expect(service.computeTrendingScores(TrendingWindow.DAILY)).resolves.toBe(2);
+
+    expect(manager.query.mock.calls[1]).toEqual([expect.stringContaining('DELETE'), ['daily']]);
+    const [sql, params] = manager.query.mock.calls[2];
+    expect(sql).toContain("WHEN 'play' THEN 1");
+    expect(sql).toContain('exp(-ln(2)');
+    expect(params).toEqual(['daily', 24 * 3600, 72]);
+  });
+
+  it('should join interactions and scores to songs on columns of the same type', async () => {
+    // Postgres has no uuid = varchar operator, so a mismatch fails every trending run
+    const dataSource = new DataSource({ type: 'postgres', entities: [Song, SongInteraction, SongTrendingScore] });
+    await (dataSource as any).buildMetadatas();
+    const columnType = (entity: Function, column: string) =>
+      dataSource.driver.normalizeType(dataSource.getMetadata(entity).findColumnWithDatabaseName(column)!);
+
+    expect(columnType(Song, 'id')).toBe('uuid');
+    expect(columnType(SongInteraction, 'song_id')).toBe('uuid');
+    expect(columnType(SongTrendingScore, 'song_id')).toBe('uuid');
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    manager.query.mockResolvedValueOnce([{ locked: false }]);
+
+    await expect(service.computeTrendingScores(TrendingWindow.HOURLY)).resolves.toBeNull();
+    expect(manager.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return trending songs in rank order and drop deleted songs', async () => {
+    trendingRepo.find.mockResolvedValue([
+      { songId: 'b', score: 4.2, rank: 1, plays: 3, searches: 2, clicks: 1, rounds: 3 },
+      { songId: 'gone', score: 2, rank: 2, plays: 1, searches: 0, clicks: 0, rounds: 1 },
+      { songId: 'a', score: 1.1, rank: 3, plays: 1, searches: 0, clicks: 0, rounds: 1 },
+    ]);
+
+    const trending = await service.getTrendingSongs(3, TrendingWindow.WEEKLY);
+
+    expect(trendingRepo.find).toHaveBeenCalledWith({ where: { window: 'weekly' }, order: { rank: 'ASC' }, take: 3 });
+    expect(trending.map(entry => [entry.song.id, entry.rank])).toEqual([
+      ['b', 1],
+      ['a', 3],
+    ]);
+  });
+});
@@ -1,15 +1,41 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Song } from '../GameRound/entities/song.entity';
 import { SearchAnalytics } from './entities/search-analytics.entity';
+import { SongInteraction, SongInteractionType } from './entities/song-interaction.entity';
+import { SongTrendingScore, TrendingWindow } from './entities/song-trending-score.entity';
 
-export interface PopularityMetrics {
-  playCount: number;
-  searchCount: number;
-  clickThroughRate: number;
-  userEngagement: number;
-  recencyBoost: number;
+export interface TrendingWindowConfig {
+  halfLifeHours: number; // an interaction counts half as much after this long
+  horizonHours: number; // older interactions are ignored
+}
+
+export const TRENDING_WINDOWS: Record<TrendingWindow, TrendingWindowConfig> = {
+  [TrendingWindow.HOURLY]: { halfLifeHours: 1, horizonHours: 6 },
+  [TrendingWindow.DAILY]: { halfLifeHours: 24, horizonHours: 72 },
+  [TrendingWindow.WEEKLY]: { halfLifeHours: 168, horizonHours: 504 },
+};
+
+export const INTERACTION_WEIGHTS: Record<SongInteractionType, number> = {
+  [SongInteractionType.PLAY]: 1,
+  [SongInteractionType.ROUND]: 0.5,
+  [SongInteractionType.CLICK]: 0.8,
+  [SongInteractionType.SEARCH]: 0.2,
+};
+
+// Past the longest horizon an interaction no longer affects any window
+const INTERACTION_RETENTION_DAYS = 30;
+
+export interface TrendingSong {
+  song: Song;
+  score: number;
+  rank: number;
+  plays: number;
+  searches: number;
+  clicks: number;
+  rounds: number;
 }
 
 @Injectable()
@@ -21,147 +47,119 @@ export class PopularityService {
     private readonly songsRepo: Repository<Song>,
     @InjectRepository(SearchAnalytics)
     private readonly analyticsRepo: Repository<SearchAnalytics>,
+    @InjectRepository(SongInteraction)
+    private readonly interactionsRepo: Repository<SongInteraction>,
+    @InjectRepository(SongTrendingScore)
+    private readonly trendingRepo: Repository<SongTrendingScore>,
   ) {}
 
-  async calculatePopularityScore(songId: string): Promise<number> {
-    try {
-      const metrics = await this.getPopularityMetrics(songId);
-      
-      // Weighted scoring algorithm
-      const score = 
-        (metrics.playCount * 0.3) +
-        (metrics.searchCount * 0.2) +
-        (metrics.clickThroughRate * 100 * 0.2) +
-        (metrics.userEngagement * 0.2) +
-        (metrics.recencyBoost * 0.1);
-
-      // Normalize to 0-100 scale
-      return Math.min(Math.max(score, 0), 100);
-    } catch (error) {
-      this.logger.error(`Failed to calculate popularity score for song ${songId}:`, error);
-      return 0;
-    }
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async refreshHourlyTrending(): Promise<void> {
+    await this.computeTrendingScores(TrendingWindow.HOURLY);
   }
 
-  private async getPopularityMetrics(songId: string): Promise<PopularityMetrics> {
-    // Load song and bail out if missing to avoid undefined dereferences
-    const song = await this.songsRepo.findOne({ where: { id: songId } });
-    if (!song) {
-      this.logger.warn(`Song ${songId} not found while computing popularity metrics`);
-      throw new Error('Song not found');
-    }
-
-    const metadata = song.metadata || {} as any;
-
-    const playCount = typeof metadata.playCount === 'number' ? metadata.playCount : 0;
-    const searchCount = typeof metadata.searchCount === 'number' ? metadata.searchCount : 0;
-    const clickCount = typeof metadata.clickCount === 'number' ? metadata.clickCount : 0;
-    const clickThroughRate = searchCount > 0 ? clickCount / searchCount : 0;
-
-    // Calculate user engagement and recency boost using the validated song
-    const userEngagement = this.calculateUserEngagement(song);
-    const recencyBoost = this.calculateRecencyBoost(song);
-
-    return {
-      playCount,
-      searchCount,
-      clickThroughRate,
-      userEngagement,
-      recencyBoost,
-    };
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshDailyAndWeeklyTrending(): Promise<void> {
+    await this.computeTrendingScores(TrendingWindow.DAILY);
+    await this.computeTrendingScores(TrendingWindow.WEEKLY);
   }
 
-  private calculateUserEngagement(song: Song): number {
-    // Base engagement on various factors
-    let engagement = 0;
-
-    // Lyrics completeness
-    if (song.lyrics && song.lyrics.length > 100) {
-      engagement += 0.3;
-    }
-
-    // Metadata completeness
-    if (song.album) engagement += 0.1;
-    if (song.genre) engagement += 0.1;
-    if (song.coverImageUrl) engagement += 0.1;
-    if (song.audioUrl) engagement += 0.1;
-
-    // Duration (longer songs might be more engaging)
-    if (song.durationSeconds && song.durationSeconds > 180) {
-      engagement += 0.1;
-    }
-
-    // Release year recency
-    if (song.releaseYear) {
-      const currentYear = new Date().getFullYear();
-      const yearDiff = currentYear - song.releaseYear;
-      if (yearDiff <= 5) {
-        engagement += 0.2;
-      } else if (yearDiff <= 10) {
-        engagement += 0.1;
-      }
-    }
-
-    return Math.min(engagement, 1);
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeOldInteractions(): Promise<void> {
+    const result = await this.interactionsRepo
+      .createQueryBuilder()
+      .delete()
+      .where(`occurred_at < now() - make_interval(days => :days)`, { days: INTERACTION_RETENTION_DAYS })
+      .execute();
+    this.logger.log(`Purged ${result.affected || 0} interactions older than ${INTERACTION_RETENTION_DAYS} days`);
   }
 
-  private calculateRecencyBoost(song: Song): number {
-    const now = new Date();
-    const createdAt = song.createdAt;
-    const daysSinceCreation = Math.floor((now.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Boost for recently added songs
-    if (daysSinceCreation <= 7) {
-      return 1.0;
-    } else if (daysSinceCreation <= 30) {
-      return 0.8;
-    } else if (daysSinceCreation <= 90) {
-      return 0.6;
-    } else if (daysSinceCreation <= 365) {
-      return 0.4;
-    } else {
-      return 0.2;
-    }
-  }
+  /**
+   * Replaces the window's scores: every interaction within the horizon contributes its type weight,
+   * halved for each half-life of age. Returns the number of songs scored, or null when another
+   * instance is already computing this window.
+   */
+  async computeTrendingScores(window: TrendingWindow): Promise<number | null> {
+    const { halfLifeHours, horizonHours } = TRENDING_WINDOWS[window];
+    const weightCase = Object.values(SongInteractionType)
+      .map(type => `WHEN '${type}' THEN ${INTERACTION_WEIGHTS[type]}`)
+      .join(' ');
 
-  async updatePopularityScore(songId: string): Promise<void> {
     try {
-      const score = await this.calculatePopularityScore(songId);
-      
-      await this.songsRepo.update(songId, {
-        metadata: () => `coalesce(metadata, '{}'::jsonb) || '{"popularity": ${score}}'::jsonb`,
+      return await this.trendingRepo.manager.transaction(async manager => {
+        // Crons fire on every instance; the first one to take the lock does the work
+        const [{ locked }] = await manager.query(
+          `SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked`,
+          [`song_trending:${window}`],
+        );
+        if (!locked) return null;
+
+        await manager.query(`DELETE FROM song_trending_scores WHERE time_window = $1`, [window]);
+        const inserted = await manager.query(
+          `INSERT INTO song_trending_scores
+             (song_id, time_window, score, rank, plays, searches, clicks, rounds, computed_at)
+           SELECT song_id, $1, score, rank() OVER (ORDER BY score DESC), plays, searches, clicks, rounds, now()
+           FROM (
+             SELECT i.song_id,
+                    SUM(CASE i.type ${weightCase} ELSE 0 END
+                        * exp(-ln(2) * extract(epoch FROM now() - i.occurred_at) / $2)) AS score,
+                    COUNT(*) FILTER (WHERE i.type = 'play') AS plays,
+                    COUNT(*) FILTER (WHERE i.type = 'search') AS searches,
+                    COUNT(*) FILTER (WHERE i.type = 'click') AS clicks,
+                    COUNT(*) FILTER (WHERE i.type = 'round') AS rounds
+             FROM song_interactions i
+             JOIN songs s ON s.id = i.song_id
+             WHERE i.occurred_at >= now() - make_interval(hours => $3)
+             GROUP BY i.song_id
+           ) scored
+           RETURNING song_id`,
+          [window, halfLifeHours * 3600, horizonHours],
+        );
+        this.logger.log(`Computed ${window} trending scores for ${inserted.length} songs`);
+        return inserted.length;
       });
-
-      this.logger.log(`Updated popularity score for song ${songId}: ${score}`);
     } catch (error) {
-      this.logger.error(`Failed to update popularity score for song ${songId}:`, error);
+      this.logger.error(`Failed to compute ${window} trending scores:`, error);
+      return null;
     }
   }
 
-  async batchUpdatePopularityScores(songIds: string[]): Promise<void> {
+  async getTrendingSongs(limit: number = 10, window: TrendingWindow = TrendingWindow.DAILY): Promise<TrendingSong[]> {
     try {
-      for (const songId of songIds) {
-        await this.updatePopularityScore(songId);
-      }
-    } catch (error) {
-      this.logger.error('Failed to batch update popularity scores:', error);
-    }
-  }
+      const scores = await this.trendingRepo.find({
+        where: { window },
+        order: { rank: 'ASC' },
+        take: limit,
+      });
+      if (scores.length === 0) return [];
 
-  async getTrendingSongs(limit: number = 10): Promise<Song[]> {
-    try {
-      return await this.songsRepo
+      const songs = await this.songsRepo
         .createQueryBuilder('song')
-        .orderBy("(song.metadata->>'popularity')::int", 'DESC', 'NULLS LAST')
-        .addOrderBy('song.createdAt', 'DESC')
-        .take(limit)
+        .where('song.id IN (:...ids)', { ids: scores.map(score => score.songId) })
         .getMany();
+      const songsById = new Map(songs.map(song => [song.id, song]));
+
+      return scores
+        .filter(score => songsById.has(score.songId))
+        .map(({ songId, score, rank, plays, searches, clicks, rounds }) => ({
+          song: songsById.get(songId)!,
+          score,
+          rank,
+          plays,
+          searches,
+          clicks,
+          rounds,
+        }));
     } catch (error) {
       this.logger.error('Failed to get trending songs:', error);
       return [];
     }
   }
 
+  async getSongTrending(songId: string): Promise<SongTrendingScore[]> {
+    return this.trendingRepo.find({ where: { songId } });
+  }
+
   async getMostSearchedSongs(limit: number = 10): Promise<Song[]> {
     try {
       const results = await this.analyticsRepo
@@ -175,7 +173,7 @@ export class PopularityService {
         .getRawMany();
 
       const songIds = results.map(r => r.clicked_song_id);
-      
+
       if (songIds.length === 0) {
         return [];
       }
@@ -200,37 +198,4 @@ export class PopularityService {
       return [];
     }
   }
-
-  async recordSongInteraction(songId: string, interactionType: 'play' | 'search' | 'click'): Promise<void> {
-    try {
-      const song = await this.songsRepo.findOne({ where: { id: songId } });
-      if (!song) {
-        this.logger.warn(`Song ${songId} not found for interaction tracking`);
-        return;
-      }
-
-      const metadata = song.metadata || {};
-      
-      switch (interactionType) {
-        case 'play':
-          metadata.playCount = (metadata.playCount || 0) + 1;
-          break;
-        case 'search':
-          metadata.searchCount = (metadata.searchCount || 0) + 1;
-          break;
-        case 'click':
-          metadata.clickCount = (metadata.clickCount || 0) + 1;
-          break;
-      }
-
-      metadata.lastInteraction = new Date().toISOString();
-
-      await this.songsRepo.update(songId, { metadata });
-
-      // Update popularity score
-      await this.updatePopularityScore(songId);
-    } catch (error) {
-      this.logger.error(`Failed to record ${interactionType} interaction for song ${songId}:`, error);
-    }
-  }
 }
@@ -0,0 +1,55 @@
+import { buildTasteProfile, hasTaste, mergeCategoryStats, scoreRecommendation, topPreferences } from "./recommendation.util";
+
+describe("recommendation.util", () => {
+  const history = [
+    { songId: "s1", artist: "Adele", genre: "Pop", isCorrect: true },
+    { songId: "s2", artist: "Adele", genre: "Pop", isCorrect: true },
+    { songId: "s3", artist: "Metallica", genre: "Metal", isCorrect: false },
+  ];
+
+  it("should collect played songs and weight artists by answer outcome", () => {
+    const profile = buildTasteProfile(history);
+
+    expect([...profile.playedSongIds]).toEqual(["s1", "s2", "s3"]);
+    expect(profile.artists.get("adele")).toBe(1);
+    expect(profile.artists.get("metallica")).toBe(0.25);
+  });
+
+  it("should prefer genres played often at a moderate accuracy", () => {
+    const profile = buildTasteProfile([], {
+      rock: { roundsPlayed: 40, accuracyRate: 0.7 },
+      jazz: { roundsPlayed: 40, accuracyRate: 1 },
+      classical: { roundsPlayed: 40, accuracyRate: 0.05 },
+      general: { roundsPlayed: 100, accuracyRate: 0.7 },
+    });
+
+    expect(topPreferences(profile.genres, 3)).toEqual(["rock", "jazz", "classical"]);
+    expect(profile.genres.has("general")).toBe(false);
+  });
+
+  it("should fall back to history for genres missing from performance stats", () => {
+    const profile = buildTasteProfile(history, { pop: { roundsPlayed: 10, accuracyRate: 0.7 } });
+
+    expect(profile.genres.get("pop")).toBe(1);
+    expect(profile.genres.get("metal")).toBeGreaterThan(0);
+  });
+
+  it("should merge per-genre accuracy across every performance row", () => {
+    const merged = mergeCategoryStats([
+      { Rock: { roundsPlayed: 10, correctAnswers: 9, accuracyRate: 0.9 } },
+      { rock: { roundsPlayed: 30, accuracyRate: 0.5 }, jazz: { roundsPlayed: 0, accuracyRate: 0 } },
+      null,
+    ]);
+
+    expect(merged).toEqual({ rock: { roundsPlayed: 40, correctAnswers: 24, accuracyRate: 0.6 } });
+  });
+
+  it("should rank matching songs above merely popular ones", () => {
+    const profile = buildTasteProfile(history);
+    const match = scoreRecommendation({ artist: "Adele", genre: "Pop" }, profile, 0.1);
+    const popular = scoreRecommendation({ artist: "Someone", genre: "Country" }, profile, 1);
+
+    expect(match).toBeGreaterThan(popular);
+    expect(hasTaste(buildTasteProfile([]))).toBe(false);
+  });
+});
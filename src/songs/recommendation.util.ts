@@ -0,0 +1,122 @@
+export interface PlayedRound {
+  songId: string;
+  artist: string;
+  genre?: string | null;
+  isCorrect: boolean;
+}
+
+export interface CategoryStats {
+  roundsPlayed: number;
+  accuracyRate: number;
+  correctAnswers?: number;
+}
+
+export interface TasteProfile {
+  playedSongIds: Set<string>;
+  genres: Map<string, number>; // 0-1, relative to the user's strongest genre
+  artists: Map<string, number>; // 0-1
+}
+
+// Genres where the user answers about this often are engaging without being a walkover
+const TARGET_ACCURACY = 0.7;
+// Knowing an artist is the strongest signal; one they got wrong is still worth another try
+const CORRECT_ARTIST_WEIGHT = 1;
+const INCORRECT_ARTIST_WEIGHT = 0.5;
+// Analytics files rounds without a genre under this category
+const UNCATEGORISED = "general";
+
+const key = (value?: string | null) => (value || "").trim().toLowerCase();
+
+function normalise(weights: Map<string, number>): Map<string, number> {
+  const max = Math.max(0, ...weights.values());
+  if (max === 0) return new Map();
+  return new Map([...weights].map(([name, weight]) => [name, weight / max]));
+}
+
+/**
+ * Genre and artist preferences from the rounds a user played and their per-genre accuracy.
+ * Per-genre stats come from PlayerPerformance when available, otherwise from the rounds themselves.
+ */
+export function buildTasteProfile(history: PlayedRound[], categories: Record<string, CategoryStats> = {}): TasteProfile {
+  const stats = new Map<string, CategoryStats>();
+  for (const [genre, value] of Object.entries(categories)) {
+    if (key(genre) !== UNCATEGORISED && value?.roundsPlayed > 0) stats.set(key(genre), value);
+  }
+
+  const fromHistory = new Map<string, { rounds: number; correct: number }>();
+  const artists = new Map<string, number>();
+  for (const round of history) {
+    const genre = key(round.genre);
+    if (genre) {
+      const entry = fromHistory.get(genre) || { rounds: 0, correct: 0 };
+      entry.rounds++;
+      if (round.isCorrect) entry.correct++;
+      fromHistory.set(genre, entry);
+    }
+    const artist = key(round.artist);
+    const weight = round.isCorrect ? CORRECT_ARTIST_WEIGHT : INCORRECT_ARTIST_WEIGHT;
+    artists.set(artist, (artists.get(artist) || 0) + weight);
+  }
+  for (const [genre, { rounds, correct }] of fromHistory) {
+    if (!stats.has(genre)) stats.set(genre, { roundsPlayed: rounds, accuracyRate: correct / rounds });
+  }
+
+  const genres = new Map<string, number>();
+  for (const [genre, { roundsPlayed, accuracyRate }] of stats) {
+    const fit = 1 - Math.min(1, Math.abs(accuracyRate - TARGET_ACCURACY) / TARGET_ACCURACY);
+    genres.set(genre, Math.log1p(roundsPlayed) * (0.5 + 0.5 * fit));
+  }
+
+  return {
+    playedSongIds: new Set(history.map(round => round.songId)),
+    genres: normalise(genres),
+    artists: normalise(artists),
+  };
+}
+
+/**
+ * Per-genre stats summed over all of a user's PlayerPerformance rows, weighting each row's accuracy by
+ * the rounds behind it
+ */
+export function mergeCategoryStats(rows: Array<Record<string, CategoryStats> | null | undefined>): Record<string, CategoryStats> {
+  const totals = new Map<string, { rounds: number; correct: number }>();
+  for (const categories of rows) {
+    for (const [genre, value] of Object.entries(categories || {})) {
+      if (!(value?.roundsPlayed > 0)) continue;
+      const entry = totals.get(key(genre)) || { rounds: 0, correct: 0 };
+      entry.rounds += value.roundsPlayed;
+      entry.correct += value.correctAnswers ?? value.accuracyRate * value.roundsPlayed;
+      totals.set(key(genre), entry);
+    }
+  }
+
+  const merged: Record<string, CategoryStats> = {};
+  for (const [genre, { rounds, correct }] of totals) {
+    merged[genre] = { roundsPlayed: rounds, correctAnswers: correct, accuracyRate: correct / rounds };
+  }
+  return merged;
+}
+
+export function hasTaste(profile: TasteProfile): boolean {
+  return profile.genres.size > 0 || profile.artists.size > 0;
+}
+
+/**
+ * 0-1 match of a candidate song to the profile; popularity (0-1) breaks ties and carries cold starts.
+ */
+export function scoreRecommendation(
+  song: { genre?: string | null; artist: string },
+  profile: TasteProfile,
+  popularity: number,
+): number {
+  const genre = profile.genres.get(key(song.genre)) || 0;
+  const artist = profile.artists.get(key(song.artist)) || 0;
+  return 0.5 * genre + 0.3 * artist + 0.2 * Math.min(1, Math.max(0, popularity));
+}
+
+export function topPreferences(weights: Map<string, number>, count: number): string[] {
+  return [...weights]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([name]) => name);
+}
@@ -0,0 +1,115 @@
+import { Song } from "../GameRound/entities/song.entity";
+import { SongFieldChange, SongSnapshot } from "./entities/song-revision.entity";
+
+export interface LyricLineChange {
+  type: "equal" | "added" | "removed";
+  line: string;
+}
+
+const SNAPSHOT_FIELDS: Array<keyof SongSnapshot> = [
+  "title",
+  "artist",
+  "album",
+  "genre",
+  "releaseYear",
+  "durationSeconds",
+  "audioUrl",
+  "coverImageUrl",
+  "lyrics",
+  "language",
+  "transliteration",
+  "timedLyrics",
+  "metadata",
+];
+
+// Recomputed by enrichMetadata on every save; not part of an edit
+const DERIVED_METADATA_KEYS = [
+  "lyricsStats",
+  "sections",
+  "contentSeverity",
+  "fingerprint",
+  "lyricsHash",
+  "normalizedTitle",
+  "lyricsSignature",
+  "lyricsBands",
+];
+
+// Live values (and counters from before the interaction log) that a restore must keep as they are
+const LIVE_METADATA_KEYS = ["popularity", "playCount", "searchCount", "clickCount", "lastInteraction"];
+
+export function toSongSnapshot(song: Partial<Song>): SongSnapshot {
+  const snapshot: Record<string, any> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = song[field] ?? null;
+  }
+  const metadata = { ...(song.metadata || {}) };
+  for (const key of [...DERIVED_METADATA_KEYS, ...LIVE_METADATA_KEYS]) delete metadata[key];
+  snapshot.metadata = metadata;
+  return snapshot as SongSnapshot;
+}
+
+/**
+ * Fields to assign to a song to bring it back to a snapshot, keeping its live counters.
+ */
+export function fromSongSnapshot(snapshot: SongSnapshot, current: Song): Partial<Song> {
+  const liveMetadata: Record<string, any> = {};
+  for (const key of LIVE_METADATA_KEYS) {
+    if (current.metadata?.[key] !== undefined) liveMetadata[key] = current.metadata[key];
+  }
+  const { metadata, ...fields } = snapshot;
+  return { ...(fields as Partial<Song>), metadata: { ...(metadata || {}), ...liveMetadata } };
+}
+
+// Key order differs between jsonb reads and in-memory objects, so compare canonically
+function canonical(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function diffSnapshots(before: SongSnapshot | null, after: SongSnapshot): SongFieldChange[] {
+  return SNAPSHOT_FIELDS.filter(field => canonical(before?.[field]) !== canonical(after[field])).map(field => ({
+    field,
+    from: before?.[field] ?? null,
+    to: after[field] ?? null,
+  }));
+}
+
+/**
+ * Line diff of two lyric texts via longest common subsequence.
+ */
+export function diffLyricLines(before?: string | null, after?: string | null): LyricLineChange[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LyricLineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "equal", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", line: a[i++] });
+    } else {
+      changes.push({ type: "added", line: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", line: a[i++] });
+  while (j < b.length) changes.push({ type: "added", line: b[j++] });
+  return changes;
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SearchReportsService } from './search-reports.service';
+import { SearchAnalytics } from './entities/search-analytics.entity';
+import { SearchReportType } from './search.dto';
+
+describe('SearchReportsService', () => {
+  let service: SearchReportsService;
+  let qb: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    qb = {};
+    for (const method of ['where', 'andWhere', 'select', 'addSelect', 'groupBy', 'andHaving', 'orderBy', 'addOrderBy', 'limit']) {
+      qb[method] = jest.fn().mockReturnValue(qb);
+    }
+    qb.getRawMany = jest.fn().mockResolvedValue([
+      { query: 'hello', searches: 12, users: 4, lastSearchedAt: new Date('2026-10-01T10:00:00Z') },
+      { query: 'rock, "live"', searches: 3, users: 1, lastSearchedAt: new Date('2026-10-02T08:30:00Z') },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchReportsService,
+        { provide: getRepositoryToken(SearchAnalytics), useValue: { createQueryBuilder: jest.fn().mockReturnValue(qb) } },
+      ],
+    }).compile();
+
+    service = module.get<SearchReportsService>(SearchReportsService);
+  });
+
+  it('should filter by date range and group by normalised query', async () => {
+    const report = await service.getReport(SearchReportType.ZERO_RESULTS, {
+      from: '2026-10-01',
+      to: '2026-10-08',
+      minSearches: 2,
+      limit: 20,
+    });
+
+    expect(qb.andWhere).toHaveBeenCalledWith('analytics.createdAt >= :from', { from: new Date('2026-10-01') });
+    expect(qb.andWhere).toHaveBeenCalledWith('analytics.createdAt < :to', { to: new Date('2026-10-08') });
+    expect(qb.andWhere).toHaveBeenCalledWith('analytics.resultCount = 0');
+    expect(qb.groupBy).toHaveBeenCalledWith('LOWER(TRIM(analytics.query))');
+    expect(qb.andHaving).toHaveBeenCalledWith('COUNT(*) >= :minSearches', { minSearches: 2 });
+    expect(qb.limit).toHaveBeenCalledWith(20);
+    expect(report).toMatchObject({ report: 'zero-results', from: '2026-10-01', to: '2026-10-08' });
+  });
+
+  it('should not group click positions by query', async () => {
+    await service.getReport(SearchReportType.CLICK_POSITIONS, {});
+
+    expect(qb.groupBy).toHaveBeenCalledTimes(1);
+    expect(qb.groupBy).toHaveBeenCalledWith('analytics.clickPosition');
+  });
+
+  it('should render the report columns as csv', async () => {
+    const report = await service.getReport(SearchReportType.ZERO_RESULTS, {});
+
+    expect(service.toCsv(report)).toBe(
+      'query,searches,users,lastSearchedAt\n' +
+        'hello,12,4,2026-10-01T10:00:00.000Z\n' +
+        '"rock, ""live""",3,1,2026-10-02T08:30:00.000Z\n',
+    );
+  });
+
+  it('should keep spreadsheets from running queries as formulas', async () => {
+    qb.getRawMany.mockResolvedValue(
+      ['=HYPERLINK("x")', '+1', '-cmd', '@SUM(A1)', '\tx', 'safe'].map(query => ({ query, searches: -1, users: 1, lastSearchedAt: null })),
+    );
+    const report = await service.getReport(SearchReportType.ZERO_RESULTS, {});
+
+    expect(service.toCsv(report).split('\n').slice(1, -1)).toEqual([
+      `"'=HYPERLINK(""x"")",-1,1,`,
+      "'+1,-1,1,",
+      "'-cmd,-1,1,",
+      "'@SUM(A1),-1,1,",
+      "'\tx,-1,1,",
+      'safe,-1,1,',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { SearchAnalytics } from './entities/search-analytics.entity';
+import { SearchReportQueryDto, SearchReportType } from './search.dto';
+import { csvCell } from './catalogue-export.util';
+
+export interface SearchReport {
+  report: SearchReportType;
+  from: string | null;
+  to: string | null;
+  columns: string[];
+  rows: Array<Record<string, any>>;
+}
+
+// Queries differing only in case or surrounding spaces are the same query
+const QUERY_KEY = 'LOWER(TRIM(analytics.query))';
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+interface ReportDefinition {
+  columns: string[];
+  build(qb: SelectQueryBuilder<SearchAnalytics>, query: SearchReportQueryDto): SelectQueryBuilder<SearchAnalytics>;
+}
+
+const REPORTS: Record<SearchReportType, ReportDefinition> = {
+  // Searches that found nothing, i.e. songs people expect in the catalogue
+  [SearchReportType.ZERO_RESULTS]: {
+    columns: ['query', 'searches', 'users', 'lastSearchedAt'],
+    build: qb =>
+      qb
+        .select(QUERY_KEY, 'query')
+        .addSelect('COUNT(*)::int', 'searches')
+        .addSelect('COUNT(DISTINCT analytics.userId)::int', 'users')
+        .addSelect('MAX(analytics.createdAt)', 'lastSearchedAt')
+        .andWhere('analytics.resultCount = 0')
+        .orderBy('"searches"', 'DESC')
+        .addOrderBy('"lastSearchedAt"', 'DESC'),
+  },
+  [SearchReportType.CLICK_THROUGH]: {
+    columns: ['query', 'searches', 'clicks', 'clickThroughRate', 'averageClickPosition', 'averageResultCount'],
+    build: qb =>
+      qb
+        .select(QUERY_KEY, 'query')
+        .addSelect('COUNT(*)::int', 'searches')
+        .addSelect('(COUNT(*) FILTER (WHERE analytics.clicked))::int', 'clicks')
+        .addSelect('ROUND((COUNT(*) FILTER (WHERE analytics.clicked))::numeric / COUNT(*), 4)::float', 'clickThroughRate')
+        .addSelect('ROUND(AVG(analytics.clickPosition), 2)::float', 'averageClickPosition')
+        .addSelect('ROUND(AVG(analytics.resultCount), 1)::float', 'averageResultCount')
+        .orderBy('"searches"', 'DESC')
+        .addOrderBy('"clickThroughRate"', 'ASC'),
+  },
+  // How far down the results people click; not grouped by query
+  [SearchReportType.CLICK_POSITIONS]: {
+    columns: ['position', 'clicks', 'share'],
+    build: qb =>
+      qb
+        .select('analytics.clickPosition', 'position')
+        .addSelect('COUNT(*)::int', 'clicks')
+        .addSelect('ROUND(COUNT(*)::numeric / SUM(COUNT(*)) OVER (), 4)::float', 'share')
+        .andWhere('analytics.clicked = true')
+        .andWhere('analytics.clickPosition IS NOT NULL')
+        .groupBy('analytics.clickPosition')
+        .orderBy('"position"', 'ASC'),
+  },
+  [SearchReportType.SLOW_QUERIES]: {
+    columns: ['query', 'searches', 'averageResponseTimeMs', 'p95ResponseTimeMs', 'maxResponseTimeMs'],
+    build: (qb, query) =>
+      qb
+        .select(QUERY_KEY, 'query')
+        .addSelect('COUNT(*)::int', 'searches')
+        .addSelect('ROUND(AVG(analytics.responseTime))::int', 'averageResponseTimeMs')
+        .addSelect('percentile_cont(0.95) WITHIN GROUP (ORDER BY analytics.responseTime)::int', 'p95ResponseTimeMs')
+        .addSelect('MAX(analytics.responseTime)', 'maxResponseTimeMs')
+        .andHaving('percentile_cont(0.95) WITHIN GROUP (ORDER BY analytics.responseTime) >= :slowThresholdMs', {
+          slowThresholdMs: query.slowThresholdMs ?? 500,
+        })
+        .orderBy('"p95ResponseTimeMs"', 'DESC'),
+  },
+  // Results came back but nobody opened one: poor ranking or the wrong songs
+  [SearchReportType.ABANDONED]: {
+    columns: ['query', 'searches', 'users', 'averageResultCount', 'lastSearchedAt'],
+    build: qb =>
+      qb
+        .select(QUERY_KEY, 'query')
+        .addSelect('COUNT(*)::int', 'searches')
+        .addSelect('COUNT(DISTINCT analytics.userId)::int', 'users')
+        .addSelect('ROUND(AVG(analytics.resultCount), 1)::float', 'averageResultCount')
+        .addSelect('MAX(analytics.createdAt)', 'lastSearchedAt')
+        .andWhere('analytics.resultCount > 0')
+        .andHaving('COUNT(*) FILTER (WHERE analytics.clicked) = 0')
+        .orderBy('"searches"', 'DESC')
+        .addOrderBy('"lastSearchedAt"', 'DESC'),
+  },
+};
+
+/**
+ * Reporting over search_analytics for the content team.
+ */
+@Injectable()
+export class SearchReportsService {
+  constructor(
+    @InjectRepository(SearchAnalytics)
+    private readonly analyticsRepo: Repository<SearchAnalytics>,
+  ) {}
+
+  async getReport(report: SearchReportType, query: SearchReportQueryDto): Promise<SearchReport> {
+    const definition = REPORTS[report];
+    const qb = this.analyticsRepo.createQueryBuilder('analytics').where("TRIM(analytics.query) <> ''");
+    if (query.from) qb.andWhere('analytics.createdAt >= :from', { from: new Date(query.from) });
+    if (query.to) qb.andWhere('analytics.createdAt < :to', { to: new Date(query.to) });
+
+    definition.build(qb, query);
+    if (report !== SearchReportType.CLICK_POSITIONS) {
+      qb.groupBy(QUERY_KEY).andHaving('COUNT(*) >= :minSearches', { minSearches: query.minSearches || 1 });
+    }
+    const rows = await qb.limit(query.limit || 50).getRawMany();
+
+    return { report, from: query.from || null, to: query.to || null, columns: definition.columns, rows };
+  }
+
+  toCsv(report: SearchReport): string {
+    const lines = [report.columns.join(',')];
+    for (const row of report.rows) {
+      lines.push(report.columns.map(column => reportCell(row[column])).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// Search queries are user input, so text a spreadsheet would evaluate is kept as text with a leading '
+function reportCell(value: unknown): string {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? csvCell(`'${value}`) : csvCell(value);
+}
@@ -11,19 +11,31 @@ import {
   HttpStatus,
   DefaultValuePipe,
   ParseIntPipe,
+  ParseEnumPipe,
+  StreamableFile,
 } from '@nestjs/common';
 import { JwtAccessGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../security/guards/roles.guard';
+import { AdminOnly } from '../security/decorators/security.decorators';
+import { CacheService } from './cache.service';
+import { SearchReportsService } from './search-reports.service';
 import { SearchService } from './search.service';
 import {
   AdvancedSearchDto,
   SearchSuggestionDto,
   SearchAnalyticsDto,
   FuzzySearchDto,
+  SearchReportQueryDto,
+  SearchReportType,
 } from './search.dto';
 
 @Controller('search')
 export class SearchController {
-  constructor(private readonly searchService: SearchService) {}
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly cacheService: CacheService,
+    private readonly reportsService: SearchReportsService,
+  ) {}
 
   @Post('advanced')
   @HttpCode(HttpStatus.OK)
@@ -80,4 +92,27 @@ export class SearchController {
   async getTrendingSearches(@Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number) {
     return this.searchService.getTrendingSearches(limit);
   }
+
+  @Get('reports/:report')
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  async getReport(
+    @Param('report', new ParseEnumPipe(SearchReportType)) report: SearchReportType,
+    @Query() query: SearchReportQueryDto,
+  ) {
+    const result = await this.reportsService.getReport(report, query);
+    if (query.format !== 'csv') return result;
+
+    return new StreamableFile(Buffer.from(this.reportsService.toCsv(result)), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="search-${report}.csv"`,
+    });
+  }
+
+  @Get('cache/metrics')
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  async getCacheMetrics() {
+    return this.cacheService.getMetrics();
+  }
 }
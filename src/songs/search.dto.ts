@@ -1,4 +1,4 @@
-import { IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, MaxLength, Min, ValidateNested, ValidateIf, ArrayMinSize, ArrayMaxSize, registerDecorator, ValidationOptions, ValidationArguments } from 'class-validator';
+import { IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsISO8601, IsNotEmpty, IsNumber, IsOptional, IsString, Max, MaxLength, Min, ValidateNested, ValidateIf, ArrayMinSize, ArrayMaxSize, registerDecorator, ValidationOptions, ValidationArguments } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
 export enum SearchFilterType {
@@ -86,6 +86,11 @@ export function IsValidSearchFilter(validationOptions?: ValidationOptions) {
   };
 }
 
+export enum SearchMode {
+  DEFAULT = 'default',
+  LYRICS_PHRASE = 'lyricsPhrase', // ordered phrase or misspelt lyric line
+}
+
 export enum SearchSortBy {
   RELEVANCE = 'relevance',
   POPULARITY = 'popularity',
@@ -228,6 +233,10 @@ export class AdvancedSearchDto {
   @IsOptional()
   query?: string;
 
+  @IsEnum(SearchMode)
+  @IsOptional()
+  mode?: SearchMode = SearchMode.DEFAULT;
+
   @IsArray()
   @IsOptional()
   @IsValidSearchFilter({ each: true })
@@ -265,6 +274,10 @@ export class AdvancedSearchDto {
   @IsBoolean()
   @IsOptional()
   enableSuggestions?: boolean = false;
+
+  @IsBoolean()
+  @IsOptional()
+  includeFacets?: boolean = true;
 }
 
 export class SearchSuggestionDto {
@@ -294,6 +307,50 @@ export class FuzzySearchDto {
   threshold?: number;
 }
 
+export enum SearchReportType {
+  ZERO_RESULTS = 'zero-results',
+  CLICK_THROUGH = 'click-through',
+  CLICK_POSITIONS = 'click-positions',
+  SLOW_QUERIES = 'slow-queries',
+  ABANDONED = 'abandoned',
+}
+
+export class SearchReportQueryDto {
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  // Exclusive
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  limit?: number = 50;
+
+  // Ignore queries searched fewer times than this
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @IsOptional()
+  minSearches?: number = 1;
+
+  // Slow-query report: p95 response time at or above this counts as slow
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  @IsOptional()
+  slowThresholdMs?: number = 500;
+
+  @IsIn(['json', 'csv'])
+  @IsOptional()
+  format?: 'json' | 'csv' = 'json';
+}
+
 export class SearchAnalyticsDto {
   @IsString()
   @IsOptional()
@@ -333,6 +390,13 @@ export class SearchAnalyticsDto {
   searchId?: string;
 }
 
+export class LyricMatchDto {
+  line: string;
+  lineNumber: number; // 1-based
+  highlights: Array<{ start: number; end: number }>; // offsets into line, end exclusive
+  score: number; // 0-1
+}
+
 export class SearchResultDto {
   id: string;
   title: string;
@@ -348,6 +412,25 @@ export class SearchResultDto {
   relevanceScore?: number;
   lyrics?: string;
   matchedFields?: string[];
+  lyricMatch?: LyricMatchDto; // lyricsPhrase mode only
+}
+
+export class FacetBucketDto {
+  value: string | number | boolean | null;
+  label?: string;
+  from?: number; // numeric buckets, inclusive; usable as a "between" filter
+  to?: number;
+  count: number;
+}
+
+// Each facet is counted with every filter applied except its own, so selecting a genre
+// narrows the other facets but still lists the alternative genres
+export class SearchFacetsDto {
+  genres: FacetBucketDto[];
+  decades: FacetBucketDto[];
+  artists: FacetBucketDto[];
+  durations: FacetBucketDto[];
+  explicit: FacetBucketDto[];
 }
 
 export class SearchResponseDto {
@@ -360,6 +443,7 @@ export class SearchResponseDto {
   sortBy: SearchSortBy;
   responseTime: number;
   suggestions?: string[];
+  facets?: SearchFacetsDto;
   analytics: {
     cached: boolean;
     searchId: string;
@@ -3,6 +3,7 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { SearchService } from './search.service';
 import { CacheService } from './cache.service';
+import { SongInteractionService } from './song-interaction.service';
 import { Song } from '../GameRound/entities/song.entity';
 import { SearchAnalytics } from './entities/search-analytics.entity';
 import { SearchSuggestion } from './entities/search-suggestion.entity';
@@ -47,10 +48,21 @@ describe('SearchService', () => {
         take: jest.fn().mockReturnThis(),
         getManyAndCount: jest.fn().mockResolvedValue([mockSongs, 1]),
         getMany: jest.fn().mockResolvedValue(mockSongs),
+        addSelect: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([]),
+        setParameters: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        getRawAndEntities: jest.fn().mockResolvedValue({
+          entities: mockSongs,
+          raw: [{ song_id: '1', title_score: 0.9, artist_score: 0.2, album_score: 0.1, text_score: 0.3, score: 0.9 }],
+        }),
       }),
     };
 
     const mockAnalyticsRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
       create: jest.fn().mockReturnValue({}),
       save: jest.fn().mockResolvedValue({}),
       update: jest.fn().mockResolvedValue({}),
@@ -106,6 +118,10 @@ describe('SearchService', () => {
           provide: CacheService,
           useValue: mockCacheService,
         },
+        {
+          provide: SongInteractionService,
+          useValue: { record: jest.fn(), recordMany: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -139,6 +155,26 @@ describe('SearchService', () => {
       expect(result.limit).toBe(20);
     });
 
+    it('should return facet counts alongside the results', async () => {
+      const queryBuilder = (songsRepo.createQueryBuilder as jest.Mock)();
+      (queryBuilder.getRawMany as jest.Mock)
+        .mockResolvedValueOnce([{ value: 'Pop', count: '4' }])
+        .mockResolvedValueOnce([{ value: 1980, count: '3' }])
+        .mockResolvedValueOnce([{ value: 'Test Artist', count: '2' }])
+        .mockResolvedValueOnce([{ value: '2_4m', count: '5' }])
+        .mockResolvedValueOnce([{ value: true, count: '1' }]);
+
+      const result = await service.advancedSearch({ query: 'facets', page: 1, limit: 20 });
+
+      expect(result.facets.genres).toEqual([{ value: 'Pop', count: 4 }]);
+      expect(result.facets.decades).toEqual([{ value: 1980, label: '1980s', from: 1980, to: 1989, count: 3 }]);
+      expect(result.facets.durations.find(bucket => bucket.value === '2_4m').count).toBe(5);
+      expect(result.facets.explicit).toEqual([
+        { value: true, label: 'Explicit', count: 1 },
+        { value: false, label: 'Clean', count: 0 },
+      ]);
+    });
+
     it('should return cached results when available', async () => {
       const searchDto = {
         query: 'cached test',
@@ -187,6 +223,13 @@ describe('SearchService', () => {
       expect(result).toBeDefined();
       expect(Array.isArray(result)).toBe(true);
     });
+
+    it('should score results from the database index', async () => {
+      const result = await service.fuzzySearch('tset song', 0.6);
+
+      expect(songsRepo.createQueryBuilder).toHaveBeenCalled();
+      expect(result[0]).toMatchObject({ id: '1', relevanceScore: 90, matchedFields: ['title'] });
+    });
   });
 
   describe('getSuggestions', () => {
@@ -234,9 +277,22 @@ describe('SearchService', () => {
     it('should track click events', async () => {
       await service.trackClick('user-123', 'search-456', 'song-789');
 
+      const [where, changes] = (analyticsRepo.update as jest.Mock).mock.calls[0];
+      expect(where.metadata.getSql('metadata')).toBe("metadata->>'searchId' = :searchId");
+      expect(where.metadata.objectLiteralParameters).toEqual({ searchId: 'search-456' });
+      expect(changes).toEqual({ clicked: true, clickedSongId: 'song-789', clickPosition: undefined });
+    });
+
+    it('should record the clicked position across result pages', async () => {
+      (analyticsRepo.findOne as jest.Mock).mockResolvedValueOnce({
+        metadata: { searchId: 'search-456', resultSongIds: ['song-1', 'song-789'], resultOffset: 20 },
+      });
+
+      await service.trackClick('user-123', 'search-456', 'song-789');
+
       expect(analyticsRepo.update).toHaveBeenCalledWith(
-        { id: 'search-456' },
-        { clicked: true, clickedSongId: 'song-789' }
+        expect.anything(),
+        { clicked: true, clickedSongId: 'song-789', clickPosition: 22 }
       );
     });
   });
@@ -1,12 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, Like, Between, In, Raw } from 'typeorm';
-import { CacheService } from './cache.service';
-import Fuse from 'fuse.js';
+import { CacheService, SEARCH_CACHE_TAG } from './cache.service';
 import * as stringSimilarity from 'string-similarity';
 import { Song } from '../GameRound/entities/song.entity';
 import { SearchAnalytics } from './entities/search-analytics.entity';
 import { SearchSuggestion } from './entities/search-suggestion.entity';
+import { SongInteractionType } from './entities/song-interaction.entity';
+import { SongInteractionService } from './song-interaction.service';
 import {
   AdvancedSearchDto,
   SearchResponseDto,
@@ -15,25 +16,32 @@ import {
   SearchAnalyticsDto,
   SearchSortBy,
   SearchFilterType,
+  SearchMode,
+  SearchFacetsDto,
+  FacetBucketDto,
+  SearchFilterDto,
 } from './search.dto';
+import { findLyricMatch } from './lyric-match.util';
+
+export interface SearchResultPage {
+  songIds: string[];
+  offset: number; // results on earlier pages
+}
+
+const FUZZY_SEARCH_LIMIT = 50;
+const LYRIC_PHRASE_MATCH = "to_tsvector('simple', coalesce(song.lyrics,'')) @@ phraseto_tsquery('simple', :phraseQuery)";
+const GENRE_FACET_LIMIT = 20;
+const ARTIST_FACET_LIMIT = 10;
+const DURATION_BUCKETS: Array<{ value: string; label: string; from: number; to: number }> = [
+  { value: 'under_2m', label: 'Under 2 min', from: 0, to: 119 },
+  { value: '2_4m', label: '2-4 min', from: 120, to: 239 },
+  { value: '4_6m', label: '4-6 min', from: 240, to: 359 },
+  { value: 'over_6m', label: 'Over 6 min', from: 360, to: 86399 },
+];
 
 @Injectable()
 export class SearchService {
   private readonly logger = new Logger(SearchService.name);
-  private readonly fuseOptions = {
-    keys: [
-      { name: 'title', weight: 0.4 },
-      { name: 'artist', weight: 0.3 },
-      { name: 'album', weight: 0.1 },
-      { name: 'genre', weight: 0.1 },
-      { name: 'lyrics', weight: 0.1 },
-    ],
-    threshold: 0.6,
-    includeScore: true,
-    includeMatches: true,
-  };
-
-  private fuse: Fuse<Song> | null = null;
 
   constructor(
     @InjectRepository(Song)
@@ -43,20 +51,8 @@ export class SearchService {
     @InjectRepository(SearchSuggestion)
     private readonly suggestionRepo: Repository<SearchSuggestion>,
     private readonly cacheService: CacheService,
-  ) {
-    this.initializeFuse();
-  }
-
-  private async initializeFuse() {
-    try {
-      const songs = await this.songsRepo.find({
-        select: ['id', 'title', 'artist', 'album', 'genre', 'lyrics', 'releaseYear', 'durationSeconds', 'coverImageUrl', 'audioUrl', 'metadata'],
-      });
-      this.fuse = new Fuse(songs, this.fuseOptions);
-    } catch (error) {
-      this.logger.error('Failed to initialize Fuse.js:', error);
-    }
-  }
+    private readonly interactionService: SongInteractionService,
+  ) {}
 
   async advancedSearch(dto: AdvancedSearchDto, userId?: string): Promise<SearchResponseDto> {
     const startTime = Date.now();
@@ -76,7 +72,8 @@ export class SearchService {
           sortBy: dto.sortBy,
           responseTime: Date.now() - startTime,
           searchId,
-        });
+        }, this.resultPage(dto, cachedResult.data));
+        await this.recordSearchAppearances(dto, cachedResult.data, userId, searchId);
         
         return {
           ...cachedResult,
@@ -95,6 +92,8 @@ export class SearchService {
         suggestions = await this.generateSuggestions(dto.query);
       }
 
+      const facets = dto.includeFacets !== false ? await this.computeFacets(dto) : undefined;
+
       // Build response
       const response: SearchResponseDto = {
         data: results.data,
@@ -106,11 +105,12 @@ export class SearchService {
         sortBy: dto.sortBy || SearchSortBy.RELEVANCE,
         responseTime,
         suggestions,
+        facets,
         analytics: { cached: false, searchId },
       };
 
       // Cache results
-      await this.cacheService.set(cacheKey, response, 300000); // 5 minutes
+      await this.cacheService.set(cacheKey, response, 300000, [SEARCH_CACHE_TAG]); // 5 minutes
 
       // Track analytics
       await this.trackSearchAnalytics({
@@ -121,7 +121,8 @@ export class SearchService {
         sortBy: dto.sortBy,
         responseTime,
         searchId,
-      });
+      }, this.resultPage(dto, results.data));
+      await this.recordSearchAppearances(dto, results.data, userId, searchId);
 
       return response;
     } catch (error) {
@@ -130,11 +131,32 @@ export class SearchService {
     }
   }
 
+  private resultPage(dto: AdvancedSearchDto, results: SearchResultDto[]): SearchResultPage {
+    return { songIds: results.map(result => result.id), offset: ((dto.page || 1) - 1) * (dto.limit || 20) };
+  }
+
+  // Browsing without a query says nothing about interest in the listed songs
+  private async recordSearchAppearances(
+    dto: AdvancedSearchDto,
+    results: SearchResultDto[],
+    userId: string | undefined,
+    searchId: string,
+  ): Promise<void> {
+    if (!dto.query) return;
+    await this.interactionService.recordMany(
+      results.map(result => result.id),
+      SongInteractionType.SEARCH,
+      { userId, contextId: searchId },
+    );
+  }
+
   private async performSearch(dto: AdvancedSearchDto): Promise<{ data: SearchResultDto[]; total: number }> {
     const queryBuilder = this.songsRepo.createQueryBuilder('song');
 
     // Apply search query
-    if (dto.query) {
+    if (dto.query && dto.mode === SearchMode.LYRICS_PHRASE) {
+      this.applyLyricPhraseQuery(queryBuilder, dto.query);
+    } else if (dto.query) {
       const searchQuery = this.buildSearchQuery(dto.query);
       queryBuilder.where(searchQuery.where, searchQuery.parameters);
 
@@ -179,6 +201,25 @@ export class SearchService {
     return { data: results, total };
   }
 
+  /**
+   * Matches the words in order (phraseto_tsquery), or approximately via pg_trgm's `<%` word similarity
+   * (pg_trgm.word_similarity_threshold) so misspelt or half-remembered lines still match.
+   * Uses the 'simple' config because lyrics are not all English.
+   */
+  private applyLyricPhraseQuery(queryBuilder: any, query: string): void {
+    const condition = this.buildLyricPhraseQuery(query);
+    const similarity = `word_similarity(:phraseQuery, coalesce(song.lyrics,''))`;
+
+    queryBuilder.where(condition.where, condition.parameters);
+    queryBuilder.addSelect(`(CASE WHEN ${LYRIC_PHRASE_MATCH} THEN 1 ELSE 0 END) + ${similarity}`, 'rank');
+    queryBuilder.orderBy('rank', 'DESC');
+    queryBuilder.addOrderBy('song.createdAt', 'DESC');
+  }
+
+  private buildLyricPhraseQuery(query: string): { where: string; parameters: any } {
+    return { where: `(${LYRIC_PHRASE_MATCH} OR :phraseQuery <% song.lyrics)`, parameters: { phraseQuery: query } };
+  }
+
   private buildSearchQuery(query: string): { where: string; parameters: any } {
     const parameters: any = { tsQuery: query };
     const where = `to_tsvector('english', coalesce(song.title,'') || ' ' || coalesce(song.artist,'') || ' ' || coalesce(song.album,'') || ' ' || coalesce(song.genre,'') || ' ' || coalesce(song.lyrics,'')) @@ plainto_tsquery('english', :tsQuery)`;
@@ -203,26 +244,29 @@ export class SearchService {
 
       case SearchFilterType.YEAR_RANGE:
         if (filter.operator === 'between') {
+          const [yearFrom, yearTo] = this.rangeBounds(filter.value);
           return {
             where: 'song.releaseYear BETWEEN :yearFrom AND :yearTo',
-            parameters: { yearFrom: filter.value.from, yearTo: filter.value.to },
+            parameters: { yearFrom, yearTo },
           };
         }
         break;
 
       case SearchFilterType.DURATION_RANGE:
         if (filter.operator === 'between') {
+          const [durationFrom, durationTo] = this.rangeBounds(filter.value);
           return {
             where: 'song.durationSeconds BETWEEN :durationFrom AND :durationTo',
-            parameters: { durationFrom: filter.value.from, durationTo: filter.value.to },
+            parameters: { durationFrom, durationTo },
           };
         }
         break;
 
       case SearchFilterType.EXPLICIT:
+        // Songs without the flag count as clean, matching the explicit facet
         return {
-          where: 'song.metadata->>:explicit = :explicitValue',
-          parameters: { explicit: 'explicit', explicitValue: filter.value },
+          where: "COALESCE((song.metadata->>'explicit')::boolean, false) = :explicitValue",
+          parameters: { explicitValue: filter.value },
         };
 
       default:
@@ -232,6 +276,101 @@ export class SearchService {
     return { where: '1=1', parameters: {} };
   }
 
+  // The validator accepts [from, to]; older clients send { from, to }
+  private rangeBounds(value: any): [number, number] {
+    return Array.isArray(value) ? [value[0], value[1]] : [value?.from, value?.to];
+  }
+
+  /**
+   * Facet counts for the current query. Each facet skips filters of its own type so the
+   * other options of a selected facet stay visible. Failures only drop the facets.
+   */
+  private async computeFacets(dto: AdvancedSearchDto): Promise<SearchFacetsDto | undefined> {
+    try {
+      const [genres, decades, artists, durations, explicit] = await Promise.all([
+        this.facetQuery(dto, SearchFilterType.GENRE)
+          .select('song.genre', 'value')
+          .addSelect('COUNT(*)', 'count')
+          .andWhere('song.genre IS NOT NULL')
+          .groupBy('song.genre')
+          .orderBy('count', 'DESC')
+          .limit(GENRE_FACET_LIMIT)
+          .getRawMany(),
+        this.facetQuery(dto, SearchFilterType.YEAR_RANGE)
+          .select('(FLOOR(song.releaseYear / 10) * 10)::int', 'value')
+          .addSelect('COUNT(*)', 'count')
+          .andWhere('song.releaseYear IS NOT NULL')
+          .groupBy('value')
+          .orderBy('value', 'ASC')
+          .getRawMany(),
+        this.facetQuery(dto, SearchFilterType.ARTIST)
+          .select('song.artist', 'value')
+          .addSelect('COUNT(*)', 'count')
+          .groupBy('song.artist')
+          .orderBy('count', 'DESC')
+          .limit(ARTIST_FACET_LIMIT)
+          .getRawMany(),
+        this.facetQuery(dto, SearchFilterType.DURATION_RANGE)
+          .select(
+            `CASE ${DURATION_BUCKETS.map(bucket => `WHEN song.durationSeconds <= ${bucket.to} THEN '${bucket.value}'`).join(' ')} END`,
+            'value',
+          )
+          .addSelect('COUNT(*)', 'count')
+          .andWhere('song.durationSeconds IS NOT NULL')
+          .groupBy('value')
+          .getRawMany(),
+        this.facetQuery(dto, SearchFilterType.EXPLICIT)
+          .select("COALESCE((song.metadata->>'explicit')::boolean, false)", 'value')
+          .addSelect('COUNT(*)', 'count')
+          .groupBy('value')
+          .getRawMany(),
+      ]);
+
+      const toBuckets = (rows: Array<{ value: any; count: string }>): FacetBucketDto[] =>
+        rows.map(row => ({ value: row.value, count: Number(row.count) }));
+
+      return {
+        genres: toBuckets(genres),
+        decades: decades.map(row => ({
+          value: Number(row.value),
+          label: `${row.value}s`,
+          from: Number(row.value),
+          to: Number(row.value) + 9,
+          count: Number(row.count),
+        })),
+        artists: toBuckets(artists),
+        durations: DURATION_BUCKETS.map(bucket => ({
+          ...bucket,
+          count: Number(durations.find(row => row.value === bucket.value)?.count || 0),
+        })),
+        explicit: [true, false].map(value => ({
+          value,
+          label: value ? 'Explicit' : 'Clean',
+          count: Number(explicit.find(row => row.value === value)?.count || 0),
+        })),
+      };
+    } catch (error) {
+      this.logger.error('Failed to compute search facets:', error);
+      return undefined;
+    }
+  }
+
+  private facetQuery(dto: AdvancedSearchDto, excludeType: SearchFilterType) {
+    const queryBuilder = this.songsRepo.createQueryBuilder('song');
+    if (dto.query) {
+      const condition =
+        dto.mode === SearchMode.LYRICS_PHRASE ? this.buildLyricPhraseQuery(dto.query) : this.buildSearchQuery(dto.query);
+      queryBuilder.where(condition.where, condition.parameters);
+    }
+    (dto.filters || [])
+      .filter((filter: SearchFilterDto) => filter.type !== excludeType)
+      .forEach((filter, index) => {
+        const condition = this.buildFilterCondition(filter, `filter_${index}`);
+        queryBuilder.andWhere(condition.where, condition.parameters);
+      });
+    return queryBuilder;
+  }
+
   private applySorting(queryBuilder: any, sortBy: SearchSortBy): void {
     switch (sortBy) {
       case SearchSortBy.POPULARITY:
@@ -280,7 +419,14 @@ export class SearchService {
       }
 
       // Calculate relevance score if query exists
-      if (dto.query) {
+      if (dto.query && dto.mode === SearchMode.LYRICS_PHRASE) {
+        const lyricMatch = findLyricMatch(song.lyrics, dto.query);
+        if (lyricMatch) {
+          result.lyricMatch = lyricMatch;
+          result.matchedFields = ['lyrics'];
+        }
+        result.relevanceScore = Math.round((lyricMatch?.score || 0) * 100);
+      } else if (dto.query) {
         result.relevanceScore = this.calculateRelevanceScore(song, dto.query);
       }
 
@@ -340,35 +486,67 @@ export class SearchService {
     return Math.min(score, 100); // Cap at 100
   }
 
-  async fuzzySearch(query: string, threshold: number = 0.6): Promise<SearchResultDto[]> {
-    if (!this.fuse) {
-      await this.initializeFuse();
-    }
-
-    if (!this.fuse) {
-      return [];
-    }
+  /**
+   * Typo-tolerant search over the song table's trigram indexes and generated search_vector,
+   * so new and edited songs are searchable as soon as they are saved.
+   * `threshold` keeps the old Fuse meaning: 0 is an exact match, 1 matches anything.
+   * Candidates come from the indexed `<%` operator, so pg_trgm.word_similarity_threshold
+   * (default 0.6) also bounds how loose a match can be.
+   */
+  async fuzzySearch(query: string, threshold: number = 0.6, limit: number = FUZZY_SEARCH_LIMIT): Promise<SearchResultDto[]> {
+    const minScore = 1 - threshold;
+    const titleScore = 'word_similarity(:fuzzyQuery, coalesce(song.title, \'\'))';
+    const artistScore = 'word_similarity(:fuzzyQuery, coalesce(song.artist, \'\'))';
+    const albumScore = 'word_similarity(:fuzzyQuery, coalesce(song.album, \'\'))';
+    // Normalisation 32 maps ts_rank into 0-1 alongside the similarity scores
+    const textScore = "ts_rank(song.searchVector, plainto_tsquery('simple', :fuzzyQuery), 32)";
+    const score = `GREATEST(${titleScore}, ${artistScore} * 0.9, ${albumScore} * 0.7, ${textScore})`;
+
+    const { entities, raw } = await this.songsRepo
+      .createQueryBuilder('song')
+      .addSelect(titleScore, 'title_score')
+      .addSelect(artistScore, 'artist_score')
+      .addSelect(albumScore, 'album_score')
+      .addSelect(textScore, 'text_score')
+      .addSelect(score, 'score')
+      .where(
+        `(:fuzzyQuery <% song.title OR :fuzzyQuery <% song.artist OR :fuzzyQuery <% song.album
+          OR song.searchVector @@ plainto_tsquery('simple', :fuzzyQuery))`,
+      )
+      .andWhere(`${score} >= :minScore`)
+      .setParameters({ fuzzyQuery: query, minScore })
+      .orderBy('score', 'DESC')
+      .limit(limit)
+      .getRawAndEntities();
+
+    const scoresById = new Map(raw.map(row => [row.song_id, row]));
+    return entities.map(song => {
+      const row = scoresById.get(song.id) || {};
+      const matchedFields = [
+        ['title', row.title_score],
+        ['artist', row.artist_score],
+        ['album', row.album_score],
+      ]
+        .filter(([, fieldScore]) => Number(fieldScore) >= minScore)
+        .map(([field]) => field as string);
+      if (Number(row.text_score) > 0 && matchedFields.length === 0) matchedFields.push('lyrics');
 
-    const results = this.fuse.search(query);
-    const filteredResults = results
-      .filter(result => (result.score ?? 0) <= threshold)
-      .map(result => ({
-        id: result.item.id,
-        title: result.item.title,
-        artist: result.item.artist,
-        album: result.item.album,
-        genre: result.item.genre,
-        releaseYear: result.item.releaseYear,
-        durationSeconds: result.item.durationSeconds,
-        coverImageUrl: result.item.coverImageUrl,
-        audioUrl: result.item.audioUrl,
-        popularity: result.item.metadata?.popularity,
-        explicit: result.item.metadata?.explicit,
-        relevanceScore: (1 - (result.score || 0)) * 100,
-        matchedFields: result.matches?.map(match => match.key) || [],
-      }));
-
-    return filteredResults;
+      return {
+        id: song.id,
+        title: song.title,
+        artist: song.artist,
+        album: song.album,
+        genre: song.genre,
+        releaseYear: song.releaseYear,
+        durationSeconds: song.durationSeconds,
+        coverImageUrl: song.coverImageUrl,
+        audioUrl: song.audioUrl,
+        popularity: song.metadata?.popularity,
+        explicit: song.metadata?.explicit,
+        relevanceScore: Math.round(Number(row.score || 0) * 100),
+        matchedFields,
+      };
+    });
   }
 
   async getSuggestions(dto: SearchSuggestionDto): Promise<string[]> {
@@ -397,7 +575,10 @@ export class SearchService {
     return result;
   }
 
-  async trackSearchAnalytics(dto: SearchAnalyticsDto): Promise<void> {
+  /**
+   * Records a search. The returned page, when given, lets a later click be stored with its position.
+   */
+  async trackSearchAnalytics(dto: SearchAnalyticsDto, page?: SearchResultPage): Promise<void> {
     try {
       const analytics = this.analyticsRepo.create({
         userId: dto.userId,
@@ -411,6 +592,7 @@ export class SearchService {
         metadata: {
           timestamp: new Date(),
           searchId: dto.searchId,
+          ...(page && { resultSongIds: page.songIds, resultOffset: page.offset }),
         },
       });
 
@@ -427,10 +609,18 @@ export class SearchService {
 
   async trackClick(userId: string, searchId: string, songId: string): Promise<void> {
     try {
+      const bySearchId = { metadata: Raw(alias => `${alias}->>'searchId' = :searchId`, { searchId }) };
+      const search = await this.analyticsRepo.findOne({ where: bySearchId });
+      const index: number = search?.metadata?.resultSongIds?.indexOf(songId) ?? -1;
       await this.analyticsRepo.update(
-        { metadata: Raw(alias => `${alias}->>'searchId' = :searchId`, { searchId }) },
-        { clicked: true, clickedSongId: songId }
+        bySearchId,
+        {
+          clicked: true,
+          clickedSongId: songId,
+          clickPosition: index >= 0 ? (search!.metadata!.resultOffset || 0) + index + 1 : undefined,
+        }
       );
+      await this.interactionService.record(songId, SongInteractionType.CLICK, { userId, contextId: searchId });
     } catch (error) {
       this.logger.error('Failed to track click:', error);
     }
@@ -460,6 +650,7 @@ export class SearchService {
   private buildCacheKey(dto: AdvancedSearchDto): string {
     const keyParts = [
       'search',
+      dto.mode || SearchMode.DEFAULT,
       dto.query || '',
       JSON.stringify(dto.filters || []),
       dto.sortBy || SearchSortBy.RELEVANCE,
@@ -468,6 +659,7 @@ export class SearchService {
       dto.includeLyrics ? 'lyrics:1' : 'lyrics:0',
       dto.enableSuggestions ? 'sug:1' : 'sug:0',
       dto.fuzzyThreshold !== undefined ? `fz:${dto.fuzzyThreshold}` : 'fz:na',
+      dto.includeFacets !== false ? 'facets:1' : 'facets:0',
     ];
     return keyParts.join(':');
   }
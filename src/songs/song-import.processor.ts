@@ -0,0 +1,26 @@
+import { Logger } from '@nestjs/common';
+import { Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+import { SONG_IMPORT_QUEUE, SongImportJobData, SongImportService } from './song-import.service';
+
+@Processor(SONG_IMPORT_QUEUE)
+export class SongImportProcessor {
+  private readonly logger = new Logger(SongImportProcessor.name);
+
+  constructor(private readonly songImportService: SongImportService) {}
+
+  @Process()
+  async handleImport(job: Job<SongImportJobData>) {
+    this.logger.log(`Processing import ${job.data.importJobId} (attempt ${job.attemptsMade + 1})`);
+    try {
+      const result = await this.songImportService.run(job.data.importJobId);
+      return { counts: result.counts };
+    } catch (error) {
+      // No retry left, so nothing will read the upload again
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.songImportService.discardUpload(job.data.importJobId);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { Readable } from 'stream';
+import * as AWS from 'aws-sdk';
+import { SongImportService } from './song-import.service';
+import { SongImportJob, SongImportStatus } from './entities/song-import-job.entity';
+
+jest.mock('aws-sdk', () => ({ S3: jest.fn() }));
+
+describe('SongImportService', () => {
+  let service: SongImportService;
+  let jobs: Map<string, SongImportJob>;
+  let file: string;
+  let songsService: { importItem: jest.Mock; invalidateSearchCache: jest.Mock };
+  let failJobSaves: boolean;
+
+  // Jobs are copied in and out, like a database would, so only what was saved survives a retry
+  const copy = (job: SongImportJob) => Object.assign(new SongImportJob(), structuredClone({ ...job }));
+  const store = async (job: SongImportJob) => {
+    if (failJobSaves) throw new Error('Connection terminated');
+    jobs.set(job.id, copy(job));
+    return job;
+  };
+
+  const queuedJob = (overrides: Partial<SongImportJob> = {}): SongImportJob =>
+    Object.assign(new SongImportJob(), {
+      id: 'import-1',
+      status: SongImportStatus.QUEUED,
+      format: 'jsonl',
+      originalName: 'catalogue.jsonl',
+      fileKey: 'catalogue-imports/import-1.jsonl',
+      dryRun: false,
+      options: { upsert: true },
+      processedRows: 0,
+      progress: 0,
+      counts: { inserted: 0, updated: 0, skipped: 0, invalid: 0, possibleDuplicates: 0 },
+      errors: [],
+      possibleDuplicates: [],
+      createdBy: 'admin-1',
+      ...overrides,
+    });
+
+  const lines = (...records: object[]) => records.map(record => JSON.stringify(record)).join('\n');
+  const song = (title: string) => ({ title, artist: 'The Testers', lyrics: 'la la la' });
+
+  beforeEach(() => {
+    jobs = new Map();
+    file = '';
+    failJobSaves = false;
+
+    (AWS.S3 as unknown as jest.Mock).mockImplementation(() => ({
+      headObject: () => ({ promise: async () => ({ ContentLength: Buffer.byteLength(file) }) }),
+      getObject: () => ({ createReadStream: () => Readable.from([Buffer.from(file)]) }),
+      deleteObject: () => ({ promise: async () => ({}) }),
+    }));
+
+    // Writes each song in a transaction that also runs the import's checkpoint
+    const manager = { getRepository: () => ({ save: store }) };
+    songsService = {
+      importItem: jest.fn().mockImplementation(async (_item, options) => {
+        if (!options.dryRun) await options.onWrite('inserted', manager);
+        return { status: 'inserted' };
+      }),
+      invalidateSearchCache: jest.fn().mockResolvedValue(undefined),
+    };
+    const jobsRepo = {
+      findOne: jest.fn().mockImplementation(async ({ where }) => (jobs.has(where.id) ? copy(jobs.get(where.id)) : null)),
+      save: jest.fn().mockImplementation(store),
+    };
+
+    service = new SongImportService(
+      jobsRepo as any,
+      {} as any,
+      songsService as any,
+      { getTerms: jest.fn().mockResolvedValue([]) } as any,
+      { get: jest.fn() } as any,
+    );
+  });
+
+  it('should import each row and complete the job', async () => {
+    jobs.set('import-1', queuedJob());
+    file = lines(song('First'), song('Second'));
+
+    const job = await service.run('import-1');
+
+    expect(job.status).toBe(SongImportStatus.COMPLETED);
+    expect(job.counts.inserted).toBe(2);
+    expect(songsService.importItem).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'First' }),
+      expect.objectContaining({ revision: { authorId: 'admin-1', reason: 'Catalogue import catalogue.jsonl' } }),
+      [],
+    );
+    expect(songsService.invalidateSearchCache).toHaveBeenCalled();
+  });
+
+  it('should resume after the last checkpoint when retried', async () => {
+    jobs.set('import-1', queuedJob());
+    file = lines(song('First'), song('Second'), song('Third'));
+    songsService.importItem.mockImplementationOnce(songsService.importItem.getMockImplementation());
+    songsService.importItem.mockRejectedValueOnce(new Error('Deadlock detected'));
+
+    await expect(service.run('import-1')).rejects.toThrow('Deadlock detected');
+    expect(jobs.get('import-1')).toEqual(expect.objectContaining({ status: SongImportStatus.FAILED, processedRows: 1 }));
+
+    const job = await service.run('import-1');
+
+    expect(songsService.importItem.mock.calls.map(([item]) => item.title)).toEqual(['First', 'Second', 'Second', 'Third']);
+    expect(job.counts.inserted).toBe(3);
+  });
+
+  it('should not write a row again when the worker died right after saving it', async () => {
+    jobs.set('import-1', queuedJob());
+    file = lines(song('First'));
+    // The song and its checkpoint commit together; every later save of the job is lost
+    songsService.importItem.mockImplementationOnce(async (_item, options) => {
+      await options.onWrite('updated', { getRepository: () => ({ save: store }) });
+      failJobSaves = true;
+      return { status: 'updated' };
+    });
+
+    await expect(service.run('import-1')).rejects.toThrow('Connection terminated');
+    failJobSaves = false;
+    const job = await service.run('import-1');
+
+    expect(songsService.importItem).toHaveBeenCalledTimes(1);
+    expect(job.status).toBe(SongImportStatus.COMPLETED);
+    expect(job.counts).toEqual(expect.objectContaining({ inserted: 0, updated: 1 }));
+  });
+
+  it('should report repeats within the file on a dry run, including after a retry', async () => {
+    jobs.set('import-1', queuedJob({ dryRun: true, processedRows: 2 }));
+    file = lines(song('First'), song('Second'), song('first '));
+
+    const job = await service.run('import-1');
+
+    expect(songsService.importItem).not.toHaveBeenCalled();
+    expect(job.errors).toEqual([{ row: 3, title: 'first ', message: 'Duplicate of row 1 in this file' }]);
+    expect(job.counts.invalid).toBe(1);
+    expect(songsService.invalidateSearchCache).not.toHaveBeenCalled();
+  });
+
+  it('should check dry-run rows against the catalogue without writing them', async () => {
+    jobs.set('import-1', queuedJob({ dryRun: true }));
+    file = lines(song('First'), song('Second'));
+
+    const job = await service.run('import-1');
+
+    expect(songsService.importItem).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ dryRun: true }), []);
+    expect(job.counts).toEqual(expect.objectContaining({ inserted: 2, invalid: 0 }));
+    expect(job.errors).toEqual([]);
+  });
+
+  it('should count every invalid row but report only the first thousand', async () => {
+    jobs.set('import-1', queuedJob());
+    file = [...Array(1005)].map((_, index) => (index % 2 ? '[1, 2]' : '{"artist": "No Title"}')).join('\n');
+
+    const job = await service.run('import-1');
+
+    expect(job.counts.invalid).toBe(1005);
+    expect(job.errors).toHaveLength(1000);
+    expect(job.errors[1]).toEqual({ row: 2, message: 'Each line must be a JSON object' });
+    expect(job.errors[999].row).toBe(1000);
+    expect(songsService.importItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,299 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { EntityManager, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import * as AWS from 'aws-sdk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { PassThrough } from 'stream';
+import { SongsService } from './songs.service';
+import { ContentFilterService } from './content-filter.service';
+import { BulkSongItemDto } from './songs.dto';
+import { SongImportJob, SongImportStatus } from './entities/song-import-job.entity';
+import { CatalogueFormat, detectCatalogueFormat, readCatalogueRecords, toSongInput } from './catalogue-import.util';
+import { ContentTerm, normalizeText, normalizeTitle } from './lyrics.util';
+
+export const SONG_IMPORT_QUEUE = 'song-import';
+
+export interface SongImportJobData {
+  importJobId: string;
+}
+
+export interface StartImportOptions {
+  format?: CatalogueFormat;
+  dryRun?: boolean;
+  upsert?: boolean;
+  allowNearDuplicates?: boolean;
+}
+
+export interface UploadedCatalogue {
+  path: string;
+  originalname?: string;
+  mimetype?: string;
+}
+
+const MAX_REPORTED_ROWS = 1000;
+const CHECKPOINT_EVERY_ROWS = 100;
+const IMPORT_ATTEMPTS = 3;
+
+@Injectable()
+export class SongImportService {
+  private readonly logger = new Logger(SongImportService.name);
+  private readonly s3: AWS.S3;
+  private readonly bucketName: string;
+
+  constructor(
+    @InjectRepository(SongImportJob)
+    private readonly jobsRepo: Repository<SongImportJob>,
+    @InjectQueue(SONG_IMPORT_QUEUE)
+    private readonly importQueue: Queue<SongImportJobData>,
+    private readonly songsService: SongsService,
+    private readonly contentFilterService: ContentFilterService,
+    private readonly configService: ConfigService,
+  ) {
+    this.s3 = new AWS.S3({
+      accessKeyId: this.configService.get('AWS_ACCESS_KEY_ID'),
+      secretAccessKey: this.configService.get('AWS_SECRET_ACCESS_KEY'),
+      region: this.configService.get('AWS_REGION'),
+    });
+    this.bucketName = this.configService.get('AWS_S3_BUCKET_NAME');
+  }
+
+  /**
+   * Records an import for an uploaded file and queues it. The file is moved to S3 so whichever instance
+   * picks up the job can read it; it is deleted once the job completes or runs out of attempts.
+   */
+  async startImport(file: UploadedCatalogue, options: StartImportOptions, actorId?: string): Promise<SongImportJob> {
+    const format = options.format || detectCatalogueFormat(file.originalname, file.mimetype);
+    if (!format) {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      throw new BadRequestException('Unsupported file type; upload a .csv or .jsonl file or pass format');
+    }
+
+    const fileKey = `catalogue-imports/${crypto.randomUUID()}.${format}`;
+    try {
+      await this.s3
+        .upload({ Bucket: this.bucketName, Key: fileKey, Body: fs.createReadStream(file.path) })
+        .promise();
+    } catch (error) {
+      this.logger.error(`Failed to store uploaded catalogue ${file.originalname || file.path}:`, error);
+      throw new BadRequestException('Failed to store uploaded file');
+    } finally {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+    }
+
+    const job = await this.jobsRepo.save(
+      this.jobsRepo.create({
+        status: SongImportStatus.QUEUED,
+        format,
+        originalName: file.originalname || null,
+        fileKey,
+        dryRun: !!options.dryRun,
+        options: { upsert: options.upsert ?? true, allowNearDuplicates: !!options.allowNearDuplicates },
+        createdBy: actorId || null,
+      }),
+    );
+
+    await this.importQueue.add(
+      { importJobId: job.id },
+      { jobId: job.id, attempts: IMPORT_ATTEMPTS, backoff: { type: 'exponential', delay: 5000 }, removeOnComplete: true },
+    );
+    this.logger.log(`Queued ${job.dryRun ? 'dry-run ' : ''}${format} import ${job.id}`);
+    return job;
+  }
+
+  async getJob(id: string): Promise<SongImportJob> {
+    const job = await this.jobsRepo.findOne({ where: { id } });
+    if (!job) throw new NotFoundException('Import job not found');
+    return job;
+  }
+
+  /**
+   * Streams the file row by row. A row that changes the catalogue is checkpointed in the same transaction
+   * as the song, and other rows every CHECKPOINT_EVERY_ROWS rows, so a retried job skips rows it already
+   * handled and never writes a song, or its revision, twice.
+   */
+  async run(id: string): Promise<SongImportJob> {
+    const job = await this.getJob(id);
+    if (job.status === SongImportStatus.COMPLETED) return job;
+
+    job.status = SongImportStatus.RUNNING;
+    job.startedAt = job.startedAt || new Date();
+    job.failureReason = null;
+    await this.jobsRepo.save(job);
+
+    try {
+      const terms = await this.contentFilterService.getTerms();
+      const { ContentLength: size } = await this.s3
+        .headObject({ Bucket: this.bucketName, Key: job.fileKey })
+        .promise();
+      const download = this.s3.getObject({ Bucket: this.bucketName, Key: job.fileKey }).createReadStream();
+      let bytesRead = 0;
+      download.on('data', (chunk: Buffer) => (bytesRead += chunk.length));
+      download.on('error', error => stream.destroy(error));
+      const stream = download.pipe(new PassThrough());
+      const resumeAfter = job.processedRows;
+      const seenInFile = new Map<string, number>(); // dry runs save nothing, so in-file repeats are caught here
+
+      try {
+        for await (const { row, record, error } of readCatalogueRecords(stream, job.format)) {
+          if (row <= resumeAfter) {
+            // Rebuilt from the rows already handled, so a retried dry run still reports repeats of them
+            if (job.dryRun && record) await this.rememberInFile(record, row, seenInFile);
+            continue;
+          }
+
+          job.progress = size ? Math.min(99, Math.floor((bytesRead / size) * 100)) : 0;
+          let changed = false;
+          if (error || !record) {
+            this.recordError(job, row, error || 'Empty row');
+          } else {
+            changed = await this.importRecord(job, row, record, terms, seenInFile);
+          }
+
+          job.processedRows = row;
+          if (!changed && row % CHECKPOINT_EVERY_ROWS === 0) {
+            await this.jobsRepo.save(job);
+          }
+        }
+      } finally {
+        download.destroy();
+        stream.destroy();
+      }
+
+      job.status = SongImportStatus.COMPLETED;
+      job.progress = 100;
+      job.finishedAt = new Date();
+      await this.jobsRepo.save(job);
+      if (!job.dryRun) await this.songsService.invalidateSearchCache();
+      await this.discardUpload(job);
+      this.logger.log(`Import ${job.id} finished: ${JSON.stringify(job.counts)}`);
+      return job;
+    } catch (error) {
+      job.status = SongImportStatus.FAILED;
+      job.failureReason = (error as Error).message;
+      await this.jobsRepo.save(job);
+      this.logger.error(`Import ${job.id} failed at row ${job.processedRows + 1}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the uploaded file of a job that completed or will not be retried
+   */
+  async discardUpload(jobOrId: SongImportJob | string): Promise<void> {
+    const job = typeof jobOrId === 'string' ? await this.jobsRepo.findOne({ where: { id: jobOrId } }) : jobOrId;
+    if (!job) return;
+    try {
+      await this.s3.deleteObject({ Bucket: this.bucketName, Key: job.fileKey }).promise();
+    } catch (error) {
+      // Logged but not thrown; the object may already be gone
+      this.logger.warn(`Failed to delete upload of import ${job.id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Whether the row inserted or updated a song
+   */
+  private async importRecord(
+    job: SongImportJob,
+    row: number,
+    record: Record<string, any>,
+    terms: ContentTerm[],
+    seenInFile: Map<string, number>,
+  ): Promise<boolean> {
+    const { item, message } = await this.toImportItem(record);
+    if (message) {
+      this.recordError(job, row, message, item.title);
+      return false;
+    }
+
+    if (job.dryRun) {
+      const firstRow = seenInFile.get(this.inFileKey(item));
+      if (firstRow) {
+        this.recordError(job, row, `Duplicate of row ${firstRow} in this file`, item.title);
+        return false;
+      }
+      seenInFile.set(this.inFileKey(item), row);
+    }
+
+    const outcome = await this.songsService.importItem(
+      item,
+      {
+        ...job.options,
+        dryRun: job.dryRun,
+        revision: { authorId: job.createdBy, reason: `Catalogue import ${job.originalName || job.id}` },
+        onWrite: (status, manager) => this.checkpointWrite(manager, job, row, status),
+      },
+      terms,
+    );
+    switch (outcome.status) {
+      case 'inserted':
+      case 'updated':
+        job.counts = { ...job.counts, [outcome.status]: job.counts[outcome.status] + 1 };
+        return !job.dryRun;
+      case 'skipped':
+        job.counts = { ...job.counts, skipped: job.counts.skipped + 1 };
+        break;
+      case 'incompatible':
+        this.recordError(job, row, outcome.reason, item.title);
+        break;
+      case 'possible_duplicate':
+        job.counts = { ...job.counts, possibleDuplicates: job.counts.possibleDuplicates + 1 };
+        if (job.possibleDuplicates.length < MAX_REPORTED_ROWS) {
+          job.possibleDuplicates = [...job.possibleDuplicates, { row, ...outcome.duplicate }];
+        }
+        break;
+    }
+    return false;
+  }
+
+  /**
+   * Saves the job as it will be once the written row is counted. A copy is saved, so should the
+   * transaction roll back, the job in memory still resumes before this row.
+   */
+  private async checkpointWrite(
+    manager: EntityManager,
+    job: SongImportJob,
+    row: number,
+    status: 'inserted' | 'updated',
+  ): Promise<void> {
+    await manager.getRepository(SongImportJob).save({
+      ...job,
+      processedRows: row,
+      counts: { ...job.counts, [status]: job.counts[status] + 1 },
+    });
+  }
+
+  private async rememberInFile(record: Record<string, any>, row: number, seenInFile: Map<string, number>): Promise<void> {
+    const { item, message } = await this.toImportItem(record);
+    if (!message && !seenInFile.has(this.inFileKey(item))) {
+      seenInFile.set(this.inFileKey(item), row);
+    }
+  }
+
+  private async toImportItem(record: Record<string, any>): Promise<{ item: BulkSongItemDto; message?: string }> {
+    const item = plainToInstance(BulkSongItemDto, toSongInput(record));
+    const validationErrors = await validate(item, { whitelist: true }); // drops export-only columns such as id
+    if (validationErrors.length === 0) return { item };
+    const message = validationErrors
+      .map(failure => Object.values(failure.constraints || {}).join(', ') || `${failure.property} is invalid`)
+      .join('; ');
+    return { item, message };
+  }
+
+  private inFileKey(item: BulkSongItemDto): string {
+    return `${normalizeTitle(item.title)}::${normalizeText(item.artist)}`;
+  }
+
+  private recordError(job: SongImportJob, row: number, message: string, title?: string): void {
+    job.counts = { ...job.counts, invalid: job.counts.invalid + 1 };
+    if (job.errors.length < MAX_REPORTED_ROWS) {
+      job.errors = [...job.errors, { row, title, message }];
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SongInteraction, SongInteractionType } from './entities/song-interaction.entity';
+
+export interface InteractionContext {
+  userId?: string | null;
+  contextId?: string | null;
+}
+
+/**
+ * Writes the interaction log. Tracking is best effort: failures are logged, never thrown to the caller.
+ */
+@Injectable()
+export class SongInteractionService {
+  private readonly logger = new Logger(SongInteractionService.name);
+
+  constructor(
+    @InjectRepository(SongInteraction)
+    private readonly interactionsRepo: Repository<SongInteraction>,
+  ) {}
+
+  async record(songId: string, type: SongInteractionType, context: InteractionContext = {}): Promise<void> {
+    await this.recordMany([songId], type, context);
+  }
+
+  async recordMany(songIds: string[], type: SongInteractionType, context: InteractionContext = {}): Promise<void> {
+    if (songIds.length === 0) return;
+    try {
+      await this.interactionsRepo.insert(
+        songIds.map(songId => ({
+          songId,
+          type,
+          userId: context.userId || null,
+          contextId: context.contextId || null,
+        })),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record ${type} interaction for ${songIds.length} song(s):`, error);
+    }
+  }
+}
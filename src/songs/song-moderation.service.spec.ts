@@ -0,0 +1,109 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SongModerationService } from './song-moderation.service';
+import { ModerationStatus, SongModerationCase } from './entities/song-moderation-case.entity';
+import { Song } from '../GameRound/entities/song.entity';
+
+describe('SongModerationService', () => {
+  let service: SongModerationService;
+  let cases: SongModerationCase[];
+  let song: Song;
+  let casesRepo: Record<string, any>;
+
+  beforeEach(async () => {
+    cases = [];
+    song = { id: 'song-1', moderationStatus: ModerationStatus.APPROVED } as Song;
+
+    const songsRepo = {
+      findOne: jest.fn().mockImplementation(async () => song),
+      save: jest.fn().mockImplementation(async data => data),
+    };
+    casesRepo = {
+      create: jest.fn().mockImplementation(data => ({ ...data })),
+      save: jest.fn().mockImplementation(async data => {
+        if (!data.id) {
+          data.id = `case-${cases.length + 1}`;
+          cases.push(data);
+        }
+        return data;
+      }),
+      findOne: jest.fn().mockImplementation(async ({ where }) =>
+        cases.find(c => (where.id ? c.id === where.id : c.songId === where.songId && where.status.value.includes(c.status))) || null,
+      ),
+    };
+
+    const manager = {
+      transaction: jest.fn().mockImplementation(async work => work(manager)),
+      getRepository: jest.fn().mockImplementation(entity => (entity === Song ? songsRepo : casesRepo)),
+    };
+    casesRepo.manager = manager;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SongModerationService,
+        { provide: getRepositoryToken(SongModerationCase), useValue: casesRepo },
+      ],
+    }).compile();
+
+    service = module.get<SongModerationService>(SongModerationService);
+  });
+
+  it('should take a flagged song out of play until it is approved', async () => {
+    const moderationCase = await service.openCase('song-1', 'Wrong lyrics', 'admin-1');
+    expect(song.moderationStatus).toBe(ModerationStatus.PENDING);
+
+    await service.approve(moderationCase.id, 'admin-2', 'Lyrics checked');
+
+    expect(song.moderationStatus).toBe(ModerationStatus.APPROVED);
+    expect(moderationCase.resolution).toBe('Lyrics checked');
+    expect(moderationCase.auditTrail.map(entry => entry.action)).toEqual(['opened', 'approved']);
+  });
+
+  it('should refuse a second open case for the same song', async () => {
+    await service.openCase('song-1', 'Wrong lyrics');
+
+    await expect(service.openCase('song-1', 'Again')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should record reviewer assignment and escalation in the audit trail', async () => {
+    const moderationCase = await service.openCase('song-1', 'Possible copyright issue');
+
+    await service.assignReviewer(moderationCase.id, 'reviewer-1', 'admin-1');
+    await service.escalate(moderationCase.id, 'reviewer-1', 'Needs legal');
+    await service.reject(moderationCase.id, 'legal-1', 'Not licensed');
+
+    expect(song.moderationStatus).toBe(ModerationStatus.REJECTED);
+    expect(moderationCase.auditTrail.map(entry => [entry.action, entry.fromStatus, entry.toStatus])).toEqual([
+      ['opened', null, ModerationStatus.PENDING],
+      ['assigned', ModerationStatus.PENDING, ModerationStatus.PENDING],
+      ['escalated', ModerationStatus.PENDING, ModerationStatus.ESCALATED],
+      ['rejected', ModerationStatus.ESCALATED, ModerationStatus.REJECTED],
+    ]);
+  });
+
+  it('should lock the case while assigning a reviewer', async () => {
+    const moderationCase = await service.openCase('song-1', 'Wrong lyrics');
+    casesRepo.findOne.mockClear();
+
+    await service.assignReviewer(moderationCase.id, 'reviewer-1', 'admin-1');
+
+    expect(casesRepo.manager.transaction).toHaveBeenCalled();
+    expect(casesRepo.findOne).toHaveBeenCalledWith({ where: { id: moderationCase.id }, lock: { mode: 'pessimistic_write' } });
+    expect(moderationCase.reviewerId).toBe('reviewer-1');
+  });
+
+  it('should not assign a reviewer to a resolved case', async () => {
+    const moderationCase = await service.openCase('song-1', 'Wrong lyrics');
+    await service.approve(moderationCase.id, 'admin-1');
+
+    await expect(service.assignReviewer(moderationCase.id, 'reviewer-1')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should not reopen a resolved case', async () => {
+    const moderationCase = await service.openCase('song-1', 'Wrong lyrics');
+    await service.reject(moderationCase.id, 'admin-1', 'Duplicate upload');
+
+    await expect(service.approve(moderationCase.id, 'admin-1')).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,187 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Song } from '../GameRound/entities/song.entity';
+import {
+  ModerationAction,
+  ModerationStatus,
+  SongModerationCase,
+} from './entities/song-moderation-case.entity';
+
+const OPEN_STATUSES = [ModerationStatus.PENDING, ModerationStatus.ESCALATED];
+
+// Approved and rejected are final; a song is re-reviewed by opening a new case
+const ALLOWED_TRANSITIONS: Record<ModerationStatus, ModerationStatus[]> = {
+  [ModerationStatus.PENDING]: [ModerationStatus.APPROVED, ModerationStatus.REJECTED, ModerationStatus.ESCALATED],
+  [ModerationStatus.ESCALATED]: [ModerationStatus.APPROVED, ModerationStatus.REJECTED],
+  [ModerationStatus.APPROVED]: [],
+  [ModerationStatus.REJECTED]: [],
+};
+
+export interface ModerationCaseFilters {
+  status?: ModerationStatus;
+  reviewerId?: string;
+  songId?: string;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class SongModerationService {
+  private readonly logger = new Logger(SongModerationService.name);
+
+  constructor(
+    @InjectRepository(SongModerationCase)
+    private readonly casesRepo: Repository<SongModerationCase>,
+  ) {}
+
+  /**
+   * Flags a song for review. The song stops being playable until the case is approved.
+   */
+  async openCase(songId: string, reason: string, actorId?: string): Promise<SongModerationCase> {
+    const saved = await this.casesRepo.manager.transaction(async manager => {
+      // Locking the song keeps two flags from both opening a case
+      const song = await manager.getRepository(Song).findOne({
+        where: { id: songId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!song) throw new NotFoundException('Song not found');
+
+      const cases = manager.getRepository(SongModerationCase);
+      const open = await cases.findOne({ where: { songId, status: In(OPEN_STATUSES) } });
+      if (open) {
+        throw new BadRequestException(`Song already has an open moderation case (${open.id})`);
+      }
+
+      const moderationCase = cases.create({
+        songId,
+        status: ModerationStatus.PENDING,
+        reason,
+        openedBy: actorId || null,
+        auditTrail: [],
+      });
+      this.appendAudit(moderationCase, 'opened', null, { actorId, reason });
+
+      const opened = await cases.save(moderationCase);
+      await this.syncSongStatus(manager, song, ModerationStatus.PENDING);
+      return opened;
+    });
+
+    this.logger.log(`Opened moderation case ${saved.id} for song ${songId}`);
+    return saved;
+  }
+
+  async assignReviewer(caseId: string, reviewerId: string, actorId?: string): Promise<SongModerationCase> {
+    // Locked like a transition, so an assignment cannot overwrite a concurrent resolution
+    return this.casesRepo.manager.transaction(async manager => {
+      const cases = manager.getRepository(SongModerationCase);
+      const moderationCase = await cases.findOne({ where: { id: caseId }, lock: { mode: 'pessimistic_write' } });
+      if (!moderationCase) throw new NotFoundException('Moderation case not found');
+      if (!OPEN_STATUSES.includes(moderationCase.status)) {
+        throw new BadRequestException(`Cannot assign a reviewer to a ${moderationCase.status} case`);
+      }
+
+      moderationCase.reviewerId = reviewerId;
+      this.appendAudit(moderationCase, 'assigned', moderationCase.status, { actorId, reviewerId });
+      return cases.save(moderationCase);
+    });
+  }
+
+  async approve(caseId: string, actorId?: string, reason?: string): Promise<SongModerationCase> {
+    return this.transition(caseId, ModerationStatus.APPROVED, 'approved', actorId, reason);
+  }
+
+  async reject(caseId: string, actorId?: string, reason?: string): Promise<SongModerationCase> {
+    if (!reason) throw new BadRequestException('A reason is required to reject a song');
+    return this.transition(caseId, ModerationStatus.REJECTED, 'rejected', actorId, reason);
+  }
+
+  async escalate(caseId: string, actorId?: string, reason?: string): Promise<SongModerationCase> {
+    return this.transition(caseId, ModerationStatus.ESCALATED, 'escalated', actorId, reason);
+  }
+
+  async getCase(caseId: string): Promise<SongModerationCase> {
+    const moderationCase = await this.casesRepo.findOne({ where: { id: caseId } });
+    if (!moderationCase) throw new NotFoundException('Moderation case not found');
+    return moderationCase;
+  }
+
+  async listCases(
+    filters: ModerationCaseFilters,
+  ): Promise<{ data: SongModerationCase[]; total: number; page: number; limit: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Record<string, any> = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.reviewerId) where.reviewerId = filters.reviewerId;
+    if (filters.songId) where.songId = filters.songId;
+
+    const [data, total] = await this.casesRepo.findAndCount({
+      where,
+      order: { createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total, page, limit };
+  }
+
+  /**
+   * Every case ever opened for a song, newest first, each with its audit trail.
+   */
+  async getSongHistory(songId: string): Promise<SongModerationCase[]> {
+    return this.casesRepo.find({ where: { songId }, order: { createdAt: 'DESC' } });
+  }
+
+  private async transition(
+    caseId: string,
+    toStatus: ModerationStatus,
+    action: ModerationAction,
+    actorId?: string,
+    reason?: string,
+  ): Promise<SongModerationCase> {
+    // The case and the song's status change together or not at all
+    return this.casesRepo.manager.transaction(async manager => {
+      const cases = manager.getRepository(SongModerationCase);
+      const moderationCase = await cases.findOne({ where: { id: caseId }, lock: { mode: 'pessimistic_write' } });
+      if (!moderationCase) throw new NotFoundException('Moderation case not found');
+
+      const fromStatus = moderationCase.status;
+      if (!ALLOWED_TRANSITIONS[fromStatus].includes(toStatus)) {
+        throw new BadRequestException(`Cannot move a ${fromStatus} case to ${toStatus}`);
+      }
+
+      moderationCase.status = toStatus;
+      if (toStatus === ModerationStatus.APPROVED || toStatus === ModerationStatus.REJECTED) {
+        moderationCase.resolution = reason || null;
+        moderationCase.resolvedAt = new Date();
+      }
+      this.appendAudit(moderationCase, action, fromStatus, { actorId, reason });
+
+      const saved = await cases.save(moderationCase);
+      const song = await manager.getRepository(Song).findOne({ where: { id: moderationCase.songId } });
+      if (song) {
+        await this.syncSongStatus(manager, song, toStatus);
+      } else {
+        this.logger.warn(`Song ${moderationCase.songId} for moderation case ${caseId} no longer exists`);
+      }
+      return saved;
+    });
+  }
+
+  private appendAudit(
+    moderationCase: SongModerationCase,
+    action: ModerationAction,
+    fromStatus: ModerationStatus | null,
+    details: { actorId?: string; reviewerId?: string; reason?: string },
+  ): void {
+    moderationCase.auditTrail = [
+      ...(moderationCase.auditTrail || []),
+      { action, fromStatus, toStatus: moderationCase.status, ...details, at: new Date() },
+    ];
+  }
+
+  private async syncSongStatus(manager: EntityManager, song: Song, status: ModerationStatus): Promise<void> {
+    song.moderationStatus = status;
+    await manager.getRepository(Song).save(song);
+  }
+}
@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SongRevisionService } from './song-revision.service';
+import { SongRevision } from './entities/song-revision.entity';
+import { Song } from '../GameRound/entities/song.entity';
+import { fromSongSnapshot } from './revision-diff.util';
+
+describe('SongRevisionService', () => {
+  let service: SongRevisionService;
+  let revisions: SongRevision[];
+
+  const song = (overrides: Partial<Song> = {}) =>
+    ({
+      id: 'song-1',
+      title: 'Midnight Light',
+      artist: 'The Testers',
+      lyrics: 'We were dancing\nIn the pale moonlight',
+      metadata: { bpm: 120, playCount: 3, lyricsStats: { totalLines: 2 } },
+      ...overrides,
+    }) as Song;
+
+  beforeEach(async () => {
+    revisions = [];
+    const revisionsRepo = {
+      create: jest.fn().mockImplementation(data => ({ ...data })),
+      save: jest.fn().mockImplementation(async data => {
+        revisions.push(data);
+        return data;
+      }),
+      findOne: jest.fn().mockImplementation(async ({ where }) => {
+        const forSong = revisions.filter(r => r.songId === where.songId);
+        if (where.revisionNumber) return forSong.find(r => r.revisionNumber === where.revisionNumber) || null;
+        return forSong[forSong.length - 1] || null;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SongRevisionService, { provide: getRepositoryToken(SongRevision), useValue: revisionsRepo }],
+    }).compile();
+
+    service = module.get<SongRevisionService>(SongRevisionService);
+  });
+
+  it('should number revisions and record only editorial changes', async () => {
+    await service.record(song(), 'create', { authorId: 'admin-1' });
+    const counterOnly = await service.record(song({ metadata: { bpm: 120, playCount: 50 } }), 'update');
+    const edit = await service.record(song({ lyrics: 'We were dancing\nIn the bright moonlight' }), 'update', {
+      authorId: 'admin-2',
+      reason: 'Typo',
+    });
+
+    expect(counterOnly).toBeNull();
+    expect(edit.revisionNumber).toBe(2);
+    expect(edit.changes.map(change => change.field)).toEqual(['lyrics']);
+    expect(edit).toMatchObject({ authorId: 'admin-2', reason: 'Typo' });
+  });
+
+  it('should number revisions through the transaction that saved the song', async () => {
+    const lockedRevisionsRepo = {
+      create: jest.fn().mockImplementation(data => ({ ...data })),
+      save: jest.fn().mockImplementation(async data => data),
+      findOne: jest.fn().mockResolvedValue({ revisionNumber: 4, snapshot: null }),
+    };
+    const manager = { getRepository: jest.fn().mockReturnValue(lockedRevisionsRepo) };
+
+    const revision = await service.record(song(), 'update', {}, undefined, manager as any);
+
+    expect(manager.getRepository).toHaveBeenCalledWith(SongRevision);
+    expect(revision.revisionNumber).toBe(5);
+    expect(revisions).toHaveLength(0);
+  });
+
+  it('should diff two revisions line by line', async () => {
+    await service.record(song(), 'create');
+    await service.record(song({ lyrics: 'We were dancing\nIn the bright moonlight' }), 'update');
+
+    const diff = await service.diff('song-1', 1, 2);
+
+    expect(diff.lyrics).toEqual([
+      { type: 'equal', line: 'We were dancing' },
+      { type: 'removed', line: 'In the pale moonlight' },
+      { type: 'added', line: 'In the bright moonlight' },
+    ]);
+  });
+
+  it('should restore snapshot fields but keep live counters', async () => {
+    const first = await service.record(song(), 'create');
+
+    const restored = fromSongSnapshot(first.snapshot, song({ lyrics: 'Broken', metadata: { playCount: 40 } }));
+
+    expect(restored.lyrics).toBe('We were dancing\nIn the pale moonlight');
+    expect(restored.metadata).toEqual({ bpm: 120, playCount: 40 });
+  });
+});
@@ -0,0 +1,87 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Song } from '../GameRound/entities/song.entity';
+import { SongFieldChange, SongRevision, SongRevisionAction } from './entities/song-revision.entity';
+import { LyricLineChange, diffLyricLines, diffSnapshots, toSongSnapshot } from './revision-diff.util';
+
+export interface RevisionContext {
+  authorId?: string | null;
+  reason?: string | null;
+}
+
+export interface RevisionDiff {
+  songId: string;
+  from: number;
+  to: number;
+  changes: SongFieldChange[];
+  lyrics: LyricLineChange[] | null; // line diff when the lyrics differ
+}
+
+@Injectable()
+export class SongRevisionService {
+  constructor(
+    @InjectRepository(SongRevision)
+    private readonly revisionsRepo: Repository<SongRevision>,
+  ) {}
+
+  /**
+   * Snapshots the song as saved. Returns null when nothing editable changed since the last revision.
+   * Pass the manager of the transaction that saved the song, with its row locked, so revision numbers
+   * are taken one at a time and the song is never saved without its revision.
+   */
+  async record(
+    song: Song,
+    action: SongRevisionAction,
+    context: RevisionContext = {},
+    restoredFrom?: number,
+    manager?: EntityManager,
+  ): Promise<SongRevision | null> {
+    const revisionsRepo = manager ? manager.getRepository(SongRevision) : this.revisionsRepo;
+    const previous = await revisionsRepo.findOne({
+      where: { songId: song.id },
+      order: { revisionNumber: 'DESC' },
+    });
+    const snapshot = toSongSnapshot(song);
+    const changes = diffSnapshots(previous?.snapshot || null, snapshot);
+    if (previous && changes.length === 0) return null;
+
+    return revisionsRepo.save(
+      revisionsRepo.create({
+        songId: song.id,
+        revisionNumber: (previous?.revisionNumber || 0) + 1,
+        action,
+        snapshot,
+        changes,
+        authorId: context.authorId || null,
+        reason: context.reason || null,
+        restoredFrom: restoredFrom ?? null,
+      }),
+    );
+  }
+
+  async list(songId: string): Promise<SongRevision[]> {
+    return this.revisionsRepo.find({ where: { songId }, order: { revisionNumber: 'DESC' } });
+  }
+
+  async get(songId: string, revisionNumber: number): Promise<SongRevision> {
+    const revision = await this.revisionsRepo.findOne({ where: { songId, revisionNumber } });
+    if (!revision) throw new NotFoundException(`Revision ${revisionNumber} not found for this song`);
+    return revision;
+  }
+
+  async diff(songId: string, from: number, to: number): Promise<RevisionDiff> {
+    if (from === to) throw new BadRequestException('Choose two different revisions to compare');
+    const [before, after] = await Promise.all([this.get(songId, from), this.get(songId, to)]);
+    const changes = diffSnapshots(before.snapshot, after.snapshot);
+    const lyricsChanged = changes.some(change => change.field === 'lyrics');
+
+    return {
+      songId,
+      from,
+      to,
+      changes,
+      lyrics: lyricsChanged ? diffLyricLines(before.snapshot.lyrics, after.snapshot.lyrics) : null,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { ExecutionContext, INestApplication, ValidationPipe } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as request from 'supertest';
+import { SongsController } from './songs.controller';
+import { SongsService } from './songs.service';
+import { SongModerationService } from './song-moderation.service';
+import { SongImportService } from './song-import.service';
+import { SongRevisionService } from './song-revision.service';
+import { PopularityService } from './popularity.service';
+import { ContentFilterService } from './content-filter.service';
+import { CacheService } from './cache.service';
+import { Song } from '../GameRound/entities/song.entity';
+import { GameRound } from '../GameRound/entities/game-round.entity';
+import { PlayerPerformance } from '../analytics/entities/player-performance.entity';
+import { JwtAccessGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../security/guards/roles.guard';
+
+describe('SongsController', () => {
+  let app: INestApplication;
+  let revisionService: { record: jest.Mock };
+  let stored: Song;
+
+  const lyrics = 'We were dancing in the light\nUnder stars that shone so bright\nHolding on with all our might';
+
+  beforeEach(async () => {
+    stored = { id: 'song-1', title: 'Midnight Light', artist: 'The Testers', lyrics, metadata: {} } as Song;
+    revisionService = { record: jest.fn().mockResolvedValue(null) };
+    const manager = {
+      save: jest.fn().mockImplementation(async song => ({ id: 'song-1', ...song })),
+      findOne: jest.fn().mockImplementation(async () => ({ ...stored })),
+    };
+    const songsRepo = {
+      create: jest.fn().mockImplementation(data => ({ ...data })),
+      createQueryBuilder: jest.fn().mockImplementation(() => {
+        const qb: Record<string, jest.Mock> = {};
+        for (const method of ['where', 'andWhere', 'limit']) qb[method] = jest.fn().mockReturnValue(qb);
+        qb.getMany = jest.fn().mockResolvedValue([]);
+        return qb;
+      }),
+      findOne: jest.fn().mockImplementation(async () => ({ ...stored })),
+      manager: { transaction: jest.fn().mockImplementation(work => work(manager)) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SongsController],
+      providers: [
+        SongsService,
+        { provide: getRepositoryToken(Song), useValue: songsRepo },
+        { provide: getRepositoryToken(GameRound), useValue: {} },
+        { provide: getRepositoryToken(PlayerPerformance), useValue: {} },
+        { provide: ContentFilterService, useValue: { getTerms: jest.fn().mockResolvedValue([]) } },
+        { provide: CacheService, useValue: { invalidateTag: jest.fn().mockResolvedValue(0) } },
+        { provide: SongRevisionService, useValue: revisionService },
+        { provide: SongModerationService, useValue: {} },
+        { provide: SongImportService, useValue: {} },
+        { provide: PopularityService, useValue: {} },
+      ],
+    })
+      // Stands in for a verified access token
+      .overrideGuard(JwtAccessGuard)
+      .useValue({
+        canActivate: (context: ExecutionContext) => {
+          context.switchToHttp().getRequest().user = { id: 'admin-1' };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require a signed-in user to change the catalogue', () => {
+    for (const handler of ['create', 'update', 'bulkImport'] as const) {
+      expect(Reflect.getMetadata(GUARDS_METADATA, SongsController.prototype[handler])).toContain(JwtAccessGuard);
+    }
+  });
+
+  it('should record the signed-in user as the author of a new song', async () => {
+    await request(app.getHttpServer())
+      .post('/songs')
+      .send({ title: 'Midnight Light', artist: 'The Testers', lyrics, changeReason: 'New release' })
+      .expect(201);
+
+    expect(revisionService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'song-1' }),
+      'create',
+      { authorId: 'admin-1', reason: 'New release' },
+      undefined,
+      expect.anything(),
+    );
+  });
+
+  it('should record the signed-in user as the author of an edit', async () => {
+    await request(app.getHttpServer()).patch('/songs/song-1').send({ album: 'Nightfall' }).expect(200);
+
+    expect(revisionService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ album: 'Nightfall' }),
+      'update',
+      { authorId: 'admin-1', reason: undefined },
+      undefined,
+      expect.anything(),
+    );
+  });
+});
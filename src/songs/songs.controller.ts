@@ -1,14 +1,45 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from "@nestjs/common";
+import { BadRequestException, Body, Controller, Delete, Get, Param, ParseIntPipe, Patch, Post, Query, StreamableFile, UploadedFile, UseGuards, UseInterceptors } from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import * as os from "os";
 import { SongsService } from "./songs.service";
-import { CreateSongDto, UpdateSongDto, BulkImportDto, QuerySongsDto } from "./songs.dto";
+import { SongModerationService } from "./song-moderation.service";
+import { SongImportService, UploadedCatalogue } from "./song-import.service";
+import { SongRevisionService } from "./song-revision.service";
+import { PopularityService } from "./popularity.service";
+import {
+  CreateSongDto,
+  UpdateSongDto,
+  BulkImportDto,
+  ExportSongsDto,
+  ImportSongsFileDto,
+  QuerySongsDto,
+  OpenModerationCaseDto,
+  AssignReviewerDto,
+  ModerationDecisionDto,
+  QueryModerationCasesDto,
+  RestoreRevisionDto,
+  TrendingSongsDto,
+} from "./songs.dto";
+import { JwtAccessGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../security/guards/roles.guard";
+import { AdminOnly } from "../security/decorators/security.decorators";
+import { CurrentUserId } from "../auth/decorators/current-user.decorator";
 
 @Controller("songs")
 export class SongsController {
-  constructor(private readonly songsService: SongsService) {}
+  constructor(
+    private readonly songsService: SongsService,
+    private readonly moderationService: SongModerationService,
+    private readonly songImportService: SongImportService,
+    private readonly revisionService: SongRevisionService,
+    private readonly popularityService: PopularityService,
+  ) {}
 
+  // Signed in so revisions record who made the change
   @Post()
-  create(@Body() dto: CreateSongDto) {
-    return this.songsService.create(dto);
+  @UseGuards(JwtAccessGuard)
+  create(@Body() dto: CreateSongDto, @CurrentUserId() userId: string) {
+    return this.songsService.create(dto, userId);
   }
 
   @Get()
@@ -16,14 +47,40 @@ export class SongsController {
     return this.songsService.findAll(query);
   }
 
+  // Declared before ":id" so "export" is not taken for a song id
+  @Get("export")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  exportCatalogue(@Query() query: ExportSongsDto) {
+    const format = query.format || "jsonl";
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    return new StreamableFile(this.songsService.exportCatalogue(query), {
+      type: format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+      disposition: `attachment; filename="songs-${stamp}.${format}"`,
+    });
+  }
+
+  @Get("trending")
+  trending(@Query() query: TrendingSongsDto) {
+    return this.popularityService.getTrendingSongs(query.limit, query.window);
+  }
+
+  // Built from the caller's own play history
+  @Get("recommendations")
+  @UseGuards(JwtAccessGuard)
+  recommendForMe(@CurrentUserId() userId: string, @Query("limit") limit?: number) {
+    return this.songsService.recommendForUser(userId, Number(limit) || 10);
+  }
+
   @Get(":id")
   findOne(@Param("id") id: string) {
     return this.songsService.findOne(id);
   }
 
   @Patch(":id")
-  update(@Param("id") id: string, @Body() dto: UpdateSongDto) {
-    return this.songsService.update(id, dto);
+  @UseGuards(JwtAccessGuard)
+  update(@Param("id") id: string, @Body() dto: UpdateSongDto, @CurrentUserId() userId: string) {
+    return this.songsService.update(id, dto, userId);
   }
 
   @Delete(":id")
@@ -32,14 +89,130 @@ export class SongsController {
   }
 
   @Post("bulk-import")
-  bulkImport(@Body() dto: BulkImportDto) {
-    return this.songsService.bulkImport(dto);
+  @UseGuards(JwtAccessGuard)
+  bulkImport(@Body() dto: BulkImportDto, @CurrentUserId() userId: string) {
+    return this.songsService.bulkImport(dto, userId);
+  }
+
+  // Streams a CSV/JSONL file in a background job; poll the returned job for progress and row errors
+  @Post("import")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  // Buffered to local disk, then moved to shared storage for whichever instance runs the job
+  @UseInterceptors(FileInterceptor("file", { dest: os.tmpdir(), limits: { fileSize: 200 * 1024 * 1024 } }))
+  importFile(@UploadedFile() file: UploadedCatalogue, @Body() dto: ImportSongsFileDto, @CurrentUserId() actorId: string) {
+    if (!file) throw new BadRequestException("A CSV or JSONL file is required");
+    return this.songImportService.startImport(file, dto, actorId);
+  }
+
+  @Get("import/:jobId")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  getImportJob(@Param("jobId") jobId: string) {
+    return this.songImportService.getJob(jobId);
   }
 
   @Get("recommendations/for-user/:userId")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
   recommendForUser(@Param("userId") userId: string, @Query("limit") limit?: number) {
     return this.songsService.recommendForUser(userId, Number(limit) || 10);
   }
-}
 
+  // Moderation (admin)
 
+  @Get("moderation/cases")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  listModerationCases(@Query() query: QueryModerationCasesDto) {
+    return this.moderationService.listCases(query);
+  }
+
+  @Get("moderation/cases/:caseId")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  getModerationCase(@Param("caseId") caseId: string) {
+    return this.moderationService.getCase(caseId);
+  }
+
+  @Patch("moderation/cases/:caseId/reviewer")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  assignReviewer(@Param("caseId") caseId: string, @Body() dto: AssignReviewerDto, @CurrentUserId() actorId: string) {
+    return this.moderationService.assignReviewer(caseId, dto.reviewerId, actorId);
+  }
+
+  @Post("moderation/cases/:caseId/approve")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  approveModerationCase(@Param("caseId") caseId: string, @Body() dto: ModerationDecisionDto, @CurrentUserId() actorId: string) {
+    return this.moderationService.approve(caseId, actorId, dto.reason);
+  }
+
+  @Post("moderation/cases/:caseId/reject")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  rejectModerationCase(@Param("caseId") caseId: string, @Body() dto: ModerationDecisionDto, @CurrentUserId() actorId: string) {
+    return this.moderationService.reject(caseId, actorId, dto.reason);
+  }
+
+  @Post("moderation/cases/:caseId/escalate")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  escalateModerationCase(@Param("caseId") caseId: string, @Body() dto: ModerationDecisionDto, @CurrentUserId() actorId: string) {
+    return this.moderationService.escalate(caseId, actorId, dto.reason);
+  }
+
+  @Post(":id/moderation")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  flagForModeration(@Param("id") id: string, @Body() dto: OpenModerationCaseDto, @CurrentUserId() actorId: string) {
+    return this.moderationService.openCase(id, dto.reason, actorId);
+  }
+
+  @Get(":id/moderation")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  getModerationHistory(@Param("id") id: string) {
+    return this.moderationService.getSongHistory(id);
+  }
+
+  // Revisions (admin)
+
+  @Get(":id/revisions")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  listRevisions(@Param("id") id: string) {
+    return this.revisionService.list(id);
+  }
+
+  @Get(":id/revisions/diff")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  diffRevisions(
+    @Param("id") id: string,
+    @Query("from", ParseIntPipe) from: number,
+    @Query("to", ParseIntPipe) to: number,
+  ) {
+    return this.revisionService.diff(id, from, to);
+  }
+
+  @Get(":id/revisions/:revision")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  getRevision(@Param("id") id: string, @Param("revision", ParseIntPipe) revision: number) {
+    return this.revisionService.get(id, revision);
+  }
+
+  @Post(":id/revisions/:revision/restore")
+  @UseGuards(JwtAccessGuard, RolesGuard)
+  @AdminOnly()
+  restoreRevision(
+    @Param("id") id: string,
+    @Param("revision", ParseIntPipe) revision: number,
+    @Body() dto: RestoreRevisionDto,
+    @CurrentUserId() actorId: string,
+  ) {
+    return this.songsService.restoreRevision(id, revision, { authorId: actorId, reason: dto.reason });
+  }
+}
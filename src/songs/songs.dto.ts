@@ -1,5 +1,26 @@
-import { IsArray, IsBoolean, IsInt, IsNotEmpty, IsNumber, IsObject, IsOptional, IsString, Max, Min, ValidateNested } from "class-validator";
-import { Type } from "class-transformer";
+import { IsArray, IsBoolean, IsIn, IsISO8601, IsInt, IsNotEmpty, IsNumber, IsObject, IsOptional, IsString, Matches, Max, Min, ValidateNested } from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ContentSeverity } from "./entities/content-filter-term.entity";
+import { ModerationStatus } from "./entities/song-moderation-case.entity";
+import { TrendingWindow } from "./entities/song-trending-score.entity";
+
+export class SongTransliterationDto {
+  @IsString()
+  @IsOptional()
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  artist?: string;
+
+  @IsString()
+  @IsOptional()
+  album?: string;
+
+  @IsString()
+  @IsOptional()
+  lyrics?: string;
+}
 
 export class CreateSongDto {
   @IsString()
@@ -38,9 +59,24 @@ export class CreateSongDto {
   @IsOptional()
   lyrics?: string;
 
+  @Matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, { message: "language must be a BCP 47 code such as \"es\" or \"pt-BR\"" })
+  @IsOptional()
+  language?: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SongTransliterationDto)
+  @IsOptional()
+  transliteration?: SongTransliterationDto;
+
   @IsObject()
   @IsOptional()
   metadata?: Record<string, any>;
+
+  // Recorded on the song revision
+  @IsString()
+  @IsOptional()
+  changeReason?: string;
 }
 
 export class UpdateSongDto {
@@ -80,9 +116,24 @@ export class UpdateSongDto {
   @IsOptional()
   lyrics?: string;
 
+  @Matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, { message: "language must be a BCP 47 code such as \"es\" or \"pt-BR\"" })
+  @IsOptional()
+  language?: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SongTransliterationDto)
+  @IsOptional()
+  transliteration?: SongTransliterationDto;
+
   @IsObject()
   @IsOptional()
   metadata?: Record<string, any>;
+
+  // Recorded on the song revision
+  @IsString()
+  @IsOptional()
+  changeReason?: string;
 }
 
 export class QuerySongsDto {
@@ -123,6 +174,154 @@ export class BulkImportDto {
   @IsBoolean()
   @IsOptional()
   upsert?: boolean = true;
+
+  // Recorded on the revisions of every song created or updated; items may override it
+  @IsString()
+  @IsOptional()
+  changeReason?: string;
+
+  // Import songs even when they look like a cover, live version or remaster of an existing one
+  @IsBoolean()
+  @IsOptional()
+  allowNearDuplicates?: boolean = false;
+}
+
+const toBoolean = ({ value }: { value: unknown }) => value === true || value === "true";
+
+// Multipart form fields arrive as strings
+export class ImportSongsFileDto {
+  @IsIn(["csv", "jsonl"])
+  @IsOptional()
+  format?: "csv" | "jsonl";
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean = false;
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  upsert?: boolean = true;
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  allowNearDuplicates?: boolean = false;
+}
+
+const CONTENT_SEVERITIES: ContentSeverity[] = ["mild", "moderate", "severe"];
+
+export class CreateContentTermDto {
+  @IsString()
+  @IsNotEmpty()
+  term: string;
+
+  @Matches(/^(\*|[a-z]{2,3}(-[A-Za-z0-9]{2,8})*)$/, { message: "language must be \"*\" or a BCP 47 code" })
+  @IsOptional()
+  language?: string;
+
+  @IsIn(CONTENT_SEVERITIES)
+  severity: ContentSeverity;
+}
+
+export class UpdateContentTermDto {
+  @IsIn(CONTENT_SEVERITIES)
+  @IsOptional()
+  severity?: ContentSeverity;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
 }
 
+export class OpenModerationCaseDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class AssignReviewerDto {
+  @IsString()
+  @IsNotEmpty()
+  reviewerId: string;
+}
 
+export class ModerationDecisionDto {
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class QueryModerationCasesDto {
+  @IsIn(Object.values(ModerationStatus))
+  @IsOptional()
+  status?: ModerationStatus;
+
+  @IsString()
+  @IsOptional()
+  reviewerId?: string;
+
+  @IsString()
+  @IsOptional()
+  songId?: string;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+}
+
+export class ExportSongsDto {
+  @IsIn(["jsonl", "csv"])
+  @IsOptional()
+  format?: "jsonl" | "csv" = "jsonl";
+
+  // Only songs created or changed at or after this time
+  @IsISO8601()
+  @IsOptional()
+  since?: string;
+
+  @IsString()
+  @IsOptional()
+  artist?: string;
+
+  @IsString()
+  @IsOptional()
+  genre?: string;
+
+  @IsString()
+  @IsOptional()
+  language?: string;
+
+  @IsIn(Object.values(ModerationStatus))
+  @IsOptional()
+  moderationStatus?: ModerationStatus;
+}
+
+export class RestoreRevisionDto {
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class TrendingSongsDto {
+  @IsIn(Object.values(TrendingWindow))
+  @IsOptional()
+  window?: TrendingWindow = TrendingWindow.DAILY;
+
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 10;
+}
@@ -1,22 +1,59 @@
 import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { BullModule } from "@nestjs/bull";
 import { SongsService } from "./songs.service";
 import { SongsController } from "./songs.controller";
 import { SearchService } from "./search.service";
+import { SearchReportsService } from "./search-reports.service";
 import { SearchController } from "./search.controller";
 import { PopularityService } from "./popularity.service";
+import { SongInteractionService } from "./song-interaction.service";
 import { CacheService } from "./cache.service";
+import { CACHE_BACKEND, MemoryCacheBackend, RedisCacheBackend } from "./cache-backends";
+import { ContentFilterService } from "./content-filter.service";
+import { ContentFilterController } from "./content-filter.controller";
+import { SongModerationService } from "./song-moderation.service";
+import { SONG_IMPORT_QUEUE, SongImportService } from "./song-import.service";
+import { SongImportProcessor } from "./song-import.processor";
+import { SongRevisionService } from "./song-revision.service";
 import { Song } from "../GameRound/entities/song.entity";
 import { SearchAnalytics } from "./entities/search-analytics.entity";
 import { SearchSuggestion } from "./entities/search-suggestion.entity";
+import { ContentFilterTerm } from "./entities/content-filter-term.entity";
+import { ContentFilterState } from "./entities/content-filter-state.entity";
+import { SongModerationCase } from "./entities/song-moderation-case.entity";
+import { SongImportJob } from "./entities/song-import-job.entity";
+import { SongRevision } from "./entities/song-revision.entity";
+import { SongInteraction } from "./entities/song-interaction.entity";
+import { SongTrendingScore } from "./entities/song-trending-score.entity";
+import { GameRound } from "../GameRound/entities/game-round.entity";
+import { PlayerPerformance } from "../analytics/entities/player-performance.entity";
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Song, SearchAnalytics, SearchSuggestion]),
+    TypeOrmModule.forFeature([Song, SearchAnalytics, SearchSuggestion, ContentFilterTerm, ContentFilterState, SongModerationCase, SongImportJob, SongRevision, SongInteraction, SongTrendingScore, GameRound, PlayerPerformance]),
+    BullModule.registerQueue({ name: SONG_IMPORT_QUEUE }),
   ],
-  controllers: [SongsController, SearchController],
-  providers: [SongsService, SearchService, PopularityService, CacheService],
-  exports: [SongsService, SearchService, PopularityService, CacheService],
+  controllers: [SongsController, SearchController, ContentFilterController],
+  providers: [
+    SongsService,
+    SearchService,
+    SearchReportsService,
+    PopularityService,
+    SongInteractionService,
+    CacheService,
+    {
+      // Redis unless CACHE_BACKEND=memory, so cached searches are shared and invalidated across instances
+      provide: CACHE_BACKEND,
+      useFactory: () => (process.env.CACHE_BACKEND === "memory" ? new MemoryCacheBackend() : RedisCacheBackend.fromEnv()),
+    },
+    ContentFilterService,
+    SongModerationService,
+    SongImportService,
+    SongImportProcessor,
+    SongRevisionService,
+  ],
+  exports: [SongsService, SearchService, PopularityService, SongInteractionService, CacheService, ContentFilterService, SongModerationService, SongImportService, SongRevisionService],
 })
 export class SongsModule {}
 
@@ -1,17 +1,98 @@
 import { Injectable, BadRequestException, NotFoundException } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository, ILike } from "typeorm";
-import { Song } from "../GameRound/entities/song.entity";
-import { BulkImportDto, CreateSongDto, QuerySongsDto, UpdateSongDto } from "./songs.dto";
-import { computeLyricsHash, isLyricsGameCompatible, normalizeText, parseAndValidateLyrics } from "./lyrics.util";
+import { Brackets, EntityManager, Repository, ILike } from "typeorm";
+import { Song, TimedLyrics } from "../GameRound/entities/song.entity";
+import { Readable } from "stream";
+import { BulkImportDto, CreateSongDto, ExportSongsDto, QuerySongsDto, UpdateSongDto } from "./songs.dto";
+import {
+  ContentTerm,
+  computeLyricsHash,
+  computeLyricsSignature,
+  computeSignatureBands,
+  estimateSimilarity,
+  isLyricsGameCompatible,
+  normalizeText,
+  normalizeTitle,
+  parseAndValidateLyrics,
+  parseLrc,
+  parseLyricStructure,
+} from "./lyrics.util";
+import { ContentFilterService } from "./content-filter.service";
+import { CacheService, SEARCH_CACHE_TAG } from "./cache.service";
+import { GameRound } from "../GameRound/entities/game-round.entity";
+import { PlayerPerformance } from "../analytics/entities/player-performance.entity";
+import { ModerationStatus } from "./entities/song-moderation-case.entity";
+import { SongRevisionAction } from "./entities/song-revision.entity";
+import { SongTrendingScore, TrendingWindow } from "./entities/song-trending-score.entity";
+import { PlayedRound, buildTasteProfile, hasTaste, mergeCategoryStats, scoreRecommendation, topPreferences } from "./recommendation.util";
+import { RevisionContext, SongRevisionService } from "./song-revision.service";
+import { fromSongSnapshot } from "./revision-diff.util";
+import { csvHeader, toCsvLine, toExportRecord, toJsonLine } from "./catalogue-export.util";
+
+// Songs at or above this similarity are reported instead of imported
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+// Same normalised title and artist without comparable lyrics, e.g. "Song (Remastered 2011)"
+const TITLE_MATCH_SIMILARITY = 0.9;
+const EXPORT_BATCH_SIZE = 500;
+// Recent rounds considered for a user's taste; older play matters less than the aggregate stats
+const RECOMMENDATION_HISTORY_ROUNDS = 200;
+const RECOMMENDATION_TOP_PREFERENCES = 5;
+// Candidates fetched per recommendation slot, so scoring and genre diversity have room to choose
+const RECOMMENDATION_POOL_FACTOR = 5;
+
+export interface NearDuplicate {
+  song: Song;
+  similarity: number;
+}
+
+export interface PossibleDuplicate {
+  title: string;
+  artist: string;
+  duplicateOf: { id: string; title: string; artist: string };
+  similarity: number;
+  message: string;
+}
+
+export interface ImportItemOptions {
+  upsert?: boolean;
+  allowNearDuplicates?: boolean;
+  dryRun?: boolean; // validate and detect duplicates without writing
+  revision?: RevisionContext;
+  // Runs in the transaction that writes the song, e.g. to checkpoint the import it belongs to
+  onWrite?: (status: "inserted" | "updated", manager: EntityManager) => Promise<unknown>;
+}
+
+export type ImportItemOutcome =
+  | { status: "inserted" | "updated" | "skipped" }
+  | { status: "incompatible"; reason: string }
+  | { status: "possible_duplicate"; duplicate: PossibleDuplicate };
+
+export interface BulkImportResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  possibleDuplicates: PossibleDuplicate[];
+}
 
 @Injectable()
 export class SongsService {
   constructor(
     @InjectRepository(Song)
     private readonly songsRepo: Repository<Song>,
+    @InjectRepository(GameRound)
+    private readonly roundsRepo: Repository<GameRound>,
+    @InjectRepository(PlayerPerformance)
+    private readonly performanceRepo: Repository<PlayerPerformance>,
+    private readonly contentFilterService: ContentFilterService,
+    private readonly revisionService: SongRevisionService,
+    private readonly cacheService: CacheService,
   ) {}
 
+  // Cached search responses may list a song that was just added, edited or removed
+  async invalidateSearchCache(): Promise<void> {
+    await this.cacheService.invalidateTag(SEARCH_CACHE_TAG);
+  }
+
   // Duplicate detection helpers
   private buildFingerprint(title: string, artist: string): string {
     const key = `${normalizeText(title)}::${normalizeText(artist)}`;
@@ -35,21 +116,65 @@ export class SongsService {
     return null;
   }
 
+  /**
+   * Covers, live versions and remasters: songs sharing lyric shingles or a normalised title and artist.
+   * Candidates come from the title and signature bands stored in metadata, both indexed; songs saved
+   * before these keys existed got them from the BackfillSongNearDuplicateKeys migration.
+   */
+  async findNearDuplicates(input: Partial<Song>, excludeId?: string): Promise<NearDuplicate[]> {
+    const signature = computeLyricsSignature(input.lyrics || undefined);
+    const bands = computeSignatureBands(signature);
+    const title = normalizeTitle(input.title || "");
+    const artist = normalizeText(input.artist || "");
+
+    const qb = this.songsRepo.createQueryBuilder("song");
+    if (bands.length) {
+      qb.where("(song.metadata->>'normalizedTitle' = :title OR song.metadata->'lyricsBands' ?| ARRAY[:...bands])", { title, bands });
+    } else {
+      qb.where("song.metadata->>'normalizedTitle' = :title", { title });
+    }
+    if (excludeId) qb.andWhere("song.id != :excludeId", { excludeId });
+
+    const candidates = await qb.limit(50).getMany();
+    const matches: NearDuplicate[] = [];
+    for (const candidate of candidates) {
+      const candidateSignature = candidate.metadata?.lyricsSignature || computeLyricsSignature(candidate.lyrics || undefined);
+      let similarity = estimateSimilarity(signature, candidateSignature);
+      if (normalizeTitle(candidate.title) === title && normalizeText(candidate.artist) === artist) {
+        similarity = Math.max(similarity, TITLE_MATCH_SIMILARITY);
+      }
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        matches.push({ song: candidate, similarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // LRC sources are stored as plain lyrics plus a separate timing track
+  private prepareLyrics(lyrics?: string): { lyrics?: string; timedLyrics: TimedLyrics | null } {
+    const lrc = parseLrc(lyrics);
+    return lrc ? { lyrics: lrc.text, timedLyrics: lrc.timed } : { lyrics, timedLyrics: null };
+  }
+
   // CRUD
-  async create(dto: CreateSongDto): Promise<Song> {
-    const duplicate = await this.findDuplicate(dto.title, dto.artist, dto.lyrics);
+  async create(createDto: CreateSongDto, authorId?: string): Promise<Song> {
+    const { changeReason, ...dto } = createDto;
+    const input = { ...dto, ...this.prepareLyrics(dto.lyrics) };
+    const duplicate = await this.findDuplicate(input.title, input.artist, input.lyrics);
     if (duplicate) {
       throw new BadRequestException("Duplicate song detected");
     }
 
-    const parsed = parseAndValidateLyrics(dto.lyrics);
+    const terms = await this.contentFilterService.getTerms();
+    const parsed = parseAndValidateLyrics(input.lyrics, terms, input.language);
     if (!isLyricsGameCompatible(parsed)) {
       throw new BadRequestException("Lyrics not compatible for game");
     }
 
-    const metadata = this.enrichMetadata(dto);
-    const song = this.songsRepo.create({ ...dto, metadata });
-    return this.songsRepo.save(song);
+    const metadata = this.enrichMetadata(input, terms, dto.metadata);
+    const song = await this.insertWithRevision({ ...input, metadata }, { authorId, reason: changeReason });
+    await this.invalidateSearchCache();
+    return song;
   }
 
   async findAll(query: QuerySongsDto): Promise<{ data: Song[]; total: number; page: number; limit: number }> {
@@ -75,76 +200,319 @@ export class SongsService {
     return song;
   }
 
-  async update(id: string, dto: UpdateSongDto): Promise<Song> {
-    const song = await this.findOne(id);
+  async update(id: string, updateDto: UpdateSongDto, authorId?: string): Promise<Song> {
+    const { changeReason, ...input } = updateDto;
+    const dto = input.lyrics !== undefined ? { ...input, ...this.prepareLyrics(input.lyrics) } : input;
+    const terms = await this.contentFilterService.getTerms();
 
-    if ((dto.title && dto.title !== song.title) || (dto.artist && dto.artist !== song.artist) || (dto.lyrics && dto.lyrics !== song.lyrics)) {
-      const duplicate = await this.findDuplicate(dto.title || song.title, dto.artist || song.artist, dto.lyrics || song.lyrics);
-      if (duplicate && duplicate.id !== id) {
-        throw new BadRequestException("Duplicate song detected");
+    const saved = await this.updateWithRevision(id, "update", { authorId, reason: changeReason }, async song => {
+      if ((dto.title && dto.title !== song.title) || (dto.artist && dto.artist !== song.artist) || (dto.lyrics && dto.lyrics !== song.lyrics)) {
+        const duplicate = await this.findDuplicate(dto.title || song.title, dto.artist || song.artist, dto.lyrics || song.lyrics);
+        if (duplicate && duplicate.id !== id) {
+          throw new BadRequestException("Duplicate song detected");
+        }
       }
-    }
 
-    if (dto.lyrics !== undefined) {
-      const parsed = parseAndValidateLyrics(dto.lyrics);
-      if (!isLyricsGameCompatible(parsed)) {
-        throw new BadRequestException("Lyrics not compatible for game");
+      if (dto.lyrics !== undefined) {
+        const parsed = parseAndValidateLyrics(dto.lyrics, terms, dto.language || song.language);
+        if (!isLyricsGameCompatible(parsed)) {
+          throw new BadRequestException("Lyrics not compatible for game");
+        }
       }
-    }
 
-    const metadata = this.enrichMetadata({ ...song, ...dto });
-    Object.assign(song, dto, { metadata });
-    return this.songsRepo.save(song);
+      const metadata = this.enrichMetadata({ ...song, ...dto }, terms, dto.metadata);
+      Object.assign(song, dto, { metadata });
+    });
+    await this.invalidateSearchCache();
+    return saved;
+  }
+
+  /**
+   * Brings a song back to an earlier revision. The restore is itself recorded as a new revision.
+   */
+  async restoreRevision(id: string, revisionNumber: number, context: RevisionContext = {}): Promise<Song> {
+    await this.findOne(id);
+    const revision = await this.revisionService.get(id, revisionNumber);
+    const terms = await this.contentFilterService.getTerms();
+
+    const saved = await this.updateWithRevision(
+      id,
+      "restore",
+      { authorId: context.authorId, reason: context.reason || `Restored revision ${revisionNumber}` },
+      async song => {
+        const restored = fromSongSnapshot(revision.snapshot, song);
+        const duplicate = await this.findDuplicate(restored.title || song.title, restored.artist || song.artist, restored.lyrics || undefined);
+        if (duplicate && duplicate.id !== id) {
+          throw new BadRequestException(`Restoring revision ${revisionNumber} would duplicate song ${duplicate.id}`);
+        }
+
+        const metadata = this.enrichMetadata({ ...song, ...restored }, terms);
+        Object.assign(song, restored, { metadata });
+      },
+      revisionNumber,
+    );
+    await this.invalidateSearchCache();
+    return saved;
+  }
+
+  /**
+   * Inserts a song together with its first revision, so neither is saved without the other.
+   */
+  private async insertWithRevision(
+    input: Partial<Song>,
+    context: RevisionContext,
+    afterSave?: (manager: EntityManager) => Promise<unknown>,
+  ): Promise<Song> {
+    return this.songsRepo.manager.transaction(async manager => {
+      const saved = await manager.save(this.songsRepo.create(input));
+      await this.revisionService.record(saved, "create", context, undefined, manager);
+      await afterSave?.(manager);
+      return saved;
+    });
+  }
+
+  /**
+   * Applies `change` to the song with its row locked and saves it with its revision in the same
+   * transaction, so concurrent edits neither overwrite each other unseen nor share a revision number.
+   */
+  private async updateWithRevision(
+    id: string,
+    action: SongRevisionAction,
+    context: RevisionContext,
+    change: (song: Song) => Promise<void> | void,
+    restoredFrom?: number,
+    afterSave?: (manager: EntityManager) => Promise<unknown>,
+  ): Promise<Song> {
+    return this.songsRepo.manager.transaction(async manager => {
+      const song = await manager.findOne(Song, { where: { id }, lock: { mode: "pessimistic_write" } });
+      if (!song) throw new NotFoundException("Song not found");
+      await change(song);
+      const saved = await manager.save(song);
+      await this.revisionService.record(saved, action, context, restoredFrom, manager);
+      await afterSave?.(manager);
+      return saved;
+    });
   }
 
   async remove(id: string): Promise<{ id: string }> {
     const song = await this.findOne(id);
     await this.songsRepo.remove(song);
+    await this.invalidateSearchCache();
     return { id };
   }
 
   // Bulk import
-  async bulkImport(dto: BulkImportDto): Promise<{ inserted: number; updated: number; skipped: number }> {
+  async bulkImport(dto: BulkImportDto, authorId?: string): Promise<BulkImportResult> {
     let inserted = 0;
     let updated = 0;
     let skipped = 0;
+    const possibleDuplicates: PossibleDuplicate[] = [];
+    const terms = await this.contentFilterService.getTerms();
 
     for (const item of dto.items) {
-      const parsed = parseAndValidateLyrics(item.lyrics);
-      if (!isLyricsGameCompatible(parsed)) {
-        skipped++;
-        continue;
+      const outcome = await this.importItem(item, { ...dto, revision: { authorId, reason: dto.changeReason } }, terms);
+      if (outcome.status === "inserted") inserted++;
+      else if (outcome.status === "updated") updated++;
+      else if (outcome.status === "possible_duplicate") possibleDuplicates.push(outcome.duplicate);
+      else skipped++;
+    }
+
+    if (inserted + updated > 0) await this.invalidateSearchCache();
+    return { inserted, updated, skipped, possibleDuplicates };
+  }
+
+  /**
+   * Imports one catalogue item: exact duplicates are updated or skipped, near duplicates reported.
+   * Shared by the JSON bulk import and file import jobs.
+   */
+  async importItem(source: CreateSongDto, options: ImportItemOptions, terms: ContentTerm[]): Promise<ImportItemOutcome> {
+    const { changeReason, ...fields } = source;
+    const item = { ...fields, ...this.prepareLyrics(fields.lyrics) };
+    const revision = { ...options.revision, reason: changeReason || options.revision?.reason };
+    const parsed = parseAndValidateLyrics(item.lyrics, terms, item.language);
+    if (!isLyricsGameCompatible(parsed)) {
+      return { status: "incompatible", reason: "Lyrics not compatible for game" };
+    }
+
+    const existing = await this.findDuplicate(item.title, item.artist, item.lyrics);
+    if (existing) {
+      if (!options.upsert) return { status: "skipped" };
+      if (!options.dryRun) {
+        await this.updateWithRevision(
+          existing.id,
+          "bulk_upsert",
+          revision,
+          song => {
+            const metadata = this.enrichMetadata({ ...song, ...item }, terms, item.metadata);
+            Object.assign(song, item, { metadata });
+          },
+          undefined,
+          manager => options.onWrite?.("updated", manager),
+        );
       }
-      const existing = await this.findDuplicate(item.title, item.artist, item.lyrics);
-      if (existing) {
-        if (dto.upsert) {
-          const metadata = this.enrichMetadata({ ...existing, ...item });
-          Object.assign(existing, item, { metadata });
-          await this.songsRepo.save(existing);
-          updated++;
-        } else {
-          skipped++;
-        }
-      } else {
-        const metadata = this.enrichMetadata(item);
-        const entity = this.songsRepo.create({ ...item, metadata });
-        await this.songsRepo.save(entity);
-        inserted++;
+      return { status: "updated" };
+    }
+
+    if (!options.allowNearDuplicates) {
+      const [nearest] = await this.findNearDuplicates(item);
+      if (nearest) {
+        return { status: "possible_duplicate", duplicate: this.describePossibleDuplicate(item, nearest) };
+      }
+    }
+
+    if (!options.dryRun) {
+      const metadata = this.enrichMetadata(item, terms, item.metadata);
+      await this.insertWithRevision({ ...item, metadata }, revision, manager => options.onWrite?.("inserted", manager));
+    }
+    return { status: "inserted" };
+  }
+
+  private describePossibleDuplicate(item: { title: string; artist: string }, match: NearDuplicate): PossibleDuplicate {
+    const { song, similarity } = match;
+    return {
+      title: item.title,
+      artist: item.artist,
+      duplicateOf: { id: song.id, title: song.title, artist: song.artist },
+      similarity,
+      message: `possible duplicate of "${song.title}" by ${song.artist} (${similarity.toFixed(2)})`,
+    };
+  }
+
+  // Export
+
+  /**
+   * Streams the catalogue as JSONL or CSV, oldest change first. For incremental syncs pass the
+   * last exported updatedAt as `since`; the boundary is inclusive, so consumers should upsert by id.
+   * Deleted songs are not reported.
+   */
+  exportCatalogue(query: ExportSongsDto): Readable {
+    const format = query.format || "jsonl";
+    const songs = this.iterateForExport(query);
+    async function* lines() {
+      if (format === "csv") yield csvHeader();
+      for await (const song of songs) {
+        const record = toExportRecord(song);
+        yield format === "csv" ? toCsvLine(record) : toJsonLine(record);
       }
     }
+    return Readable.from(lines());
+  }
+
+  // Keyset pagination on (updatedAt, id) keeps batches stable while songs are being edited.
+  // Timestamps are compared at millisecond precision, which is all a JS Date cursor carries.
+  private async *iterateForExport(query: ExportSongsDto): AsyncGenerator<Song> {
+    let cursor: { updatedAt: Date; id: string } | null = null;
+    while (true) {
+      const qb = this.songsRepo.createQueryBuilder("song");
+      if (query.since) qb.andWhere("song.updatedAt >= :since", { since: new Date(query.since) });
+      if (query.artist) qb.andWhere("song.artist ILIKE :artist", { artist: `%${query.artist}%` });
+      if (query.genre) qb.andWhere("song.genre ILIKE :genre", { genre: `%${query.genre}%` });
+      if (query.language) qb.andWhere("song.language = :language", { language: query.language });
+      if (query.moderationStatus) qb.andWhere("song.moderationStatus = :status", { status: query.moderationStatus });
+      if (cursor) {
+        qb.andWhere("(date_trunc('milliseconds', song.updatedAt), song.id) > (:cursorUpdatedAt, :cursorId)", {
+          cursorUpdatedAt: cursor.updatedAt,
+          cursorId: cursor.id,
+        });
+      }
+      qb.orderBy("date_trunc('milliseconds', song.updatedAt)", "ASC").addOrderBy("song.id", "ASC").limit(EXPORT_BATCH_SIZE);
 
-    return { inserted, updated, skipped };
+      const batch = await qb.getMany();
+      for (const song of batch) yield song;
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      const last = batch[batch.length - 1];
+      cursor = { updatedAt: last.updatedAt, id: last.id };
+    }
   }
 
-  // Recommendations (simple rule-based)
+  // Recommendations
+  /**
+   * Unplayed songs matching the genres the user engages with at a good accuracy and the artists
+   * they answered on, topped up with trending songs. New users get trending songs only.
+   */
   async recommendForUser(userId: string, limit: number = 10): Promise<Song[]> {
-    // Placeholder: fallback to popular, recent, diverse genres
-    const qb = this.songsRepo.createQueryBuilder("song");
-    qb.orderBy("(song.metadata->>'popularity')::int NULLS LAST", "DESC")
+    const [history, performances] = await Promise.all([
+      this.getPlayedRounds(userId),
+      this.performanceRepo.find({ where: { userId }, select: { id: true, categoryPerformance: true } }),
+    ]);
+    const profile = buildTasteProfile(history, mergeCategoryStats(performances.map(row => row.categoryPerformance)));
+
+    const pool = new Map<string, { song: Song; trend: number }>();
+    const addCandidates = (candidates: Array<{ song: Song; trend: number }>) => {
+      for (const candidate of candidates) pool.set(candidate.song.id, candidate);
+    };
+    if (hasTaste(profile)) {
+      addCandidates(
+        await this.findRecommendationCandidates(profile.playedSongIds, limit * RECOMMENDATION_POOL_FACTOR, {
+          genres: topPreferences(profile.genres, RECOMMENDATION_TOP_PREFERENCES),
+          artists: topPreferences(profile.artists, RECOMMENDATION_TOP_PREFERENCES),
+        }),
+      );
+    }
+    addCandidates(await this.findRecommendationCandidates(profile.playedSongIds, limit * 2));
+
+    const maxTrend = Math.max(0, ...[...pool.values()].map(candidate => candidate.trend));
+    const ranked = [...pool.values()]
+      .map(({ song, trend }) => ({
+        song,
+        score: scoreRecommendation(
+          song,
+          profile,
+          maxTrend > 0 ? trend / maxTrend : (Number(song.metadata?.popularity) || 0) / 100,
+        ),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ song }) => song);
+    return this.diversifyByGenre(ranked, limit);
+  }
+
+  private async getPlayedRounds(userId: string): Promise<PlayedRound[]> {
+    const rows = await this.roundsRepo
+      .createQueryBuilder("round")
+      .innerJoin("round.song", "song")
+      .select("round.songId", "song_id")
+      .addSelect("song.artist", "artist")
+      .addSelect("song.genre", "genre")
+      .addSelect("(round.answers -> :userId ->> 'isCorrect')::boolean", "is_correct")
+      .where("round.answers ? :userId", { userId })
+      .orderBy("round.createdAt", "DESC")
+      .limit(RECOMMENDATION_HISTORY_ROUNDS)
+      .getRawMany();
+    return rows.map(row => ({ songId: row.song_id, artist: row.artist, genre: row.genre, isCorrect: !!row.is_correct }));
+  }
+
+  // Playable songs the user has not played, most trending first this week
+  private async findRecommendationCandidates(
+    playedSongIds: Set<string>,
+    limit: number,
+    preferences?: { genres: string[]; artists: string[] },
+  ): Promise<Array<{ song: Song; trend: number }>> {
+    const qb = this.songsRepo
+      .createQueryBuilder("song")
+      .leftJoin(SongTrendingScore, "trend", "trend.songId = song.id AND trend.window = :trendWindow", {
+        trendWindow: TrendingWindow.WEEKLY,
+      })
+      .addSelect("COALESCE(trend.score, 0)", "trend_score")
+      .where("(song.moderationStatus IS NULL OR song.moderationStatus = :approved)", { approved: ModerationStatus.APPROVED });
+    if (playedSongIds.size > 0) {
+      qb.andWhere("song.id NOT IN (:...playedSongIds)", { playedSongIds: [...playedSongIds] });
+    }
+    if (preferences) {
+      qb.andWhere(
+        new Brackets(where => {
+          if (preferences.genres.length > 0) where.orWhere("LOWER(song.genre) IN (:...genres)", { genres: preferences.genres });
+          if (preferences.artists.length > 0) where.orWhere("LOWER(song.artist) IN (:...artists)", { artists: preferences.artists });
+        }),
+      );
+    }
+    qb.orderBy("trend_score", "DESC")
+      .addOrderBy("(song.metadata->>'popularity')::int", "DESC", "NULLS LAST")
       .addOrderBy("song.createdAt", "DESC")
-      .take(limit);
-    const songs = await qb.getMany();
-    return this.diversifyByGenre(songs, limit);
+      .limit(limit);
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const trendById = new Map(raw.map(row => [row.song_id, Number(row.trend_score) || 0]));
+    return entities.map(song => ({ song, trend: trendById.get(song.id) || 0 }));
   }
 
   private diversifyByGenre(songs: Song[], limit: number): Song[] {
@@ -167,32 +535,35 @@ export class SongsService {
     return result;
   }
 
-  // Moderation workflow via metadata flags
-  async flagForModeration(id: string, reason: string): Promise<Song> {
-    const song = await this.findOne(id);
-    song.metadata = { ...(song.metadata || {}), moderation: { status: "flagged", reason } } as any;
-    return this.songsRepo.save(song);
-  }
-
-  async approveModeration(id: string): Promise<Song> {
-    const song = await this.findOne(id);
-    song.metadata = { ...(song.metadata || {}), moderation: { status: "approved" } } as any;
-    return this.songsRepo.save(song);
-  }
-
-  // Metadata enrichment: naive derivations
-  private enrichMetadata(input: Partial<Song>): Record<string, any> {
+  // Metadata enrichment: naive derivations. `requested` is the metadata sent with this change, if any.
+  private enrichMetadata(input: Partial<Song>, terms: ContentTerm[], requested?: Record<string, any>): Record<string, any> {
     const existing = (input as any).metadata || {};
-    const parsed = parseAndValidateLyrics(input.lyrics);
+    const parsed = parseAndValidateLyrics(input.lyrics, terms, input.language);
     const popularity = existing.popularity ?? Math.min(100, (parsed?.totalLines || 0) + (input.durationSeconds || 0) / 10);
-    const explicit = existing.explicit ?? (parsed ? parsed.profanityScore > 0.2 : false);
+    const contentSeverity = parsed?.contentSeverity ?? null;
+    // An explicit flag set by an admin sticks; a derived one follows the lyrics as they are cleaned
+    const setByAdmin = typeof requested?.explicit === "boolean" && requested.explicitSource !== "lyrics";
+    const keptFromAdmin = !setByAdmin && existing.explicitSource === "admin";
+    const explicit = setByAdmin
+      ? requested.explicit
+      : keptFromAdmin
+        ? existing.explicit
+        : contentSeverity === "moderate" || contentSeverity === "severe";
+    const explicitSource = setByAdmin || keptFromAdmin ? "admin" : "lyrics";
+    const lyricsSignature = computeLyricsSignature(input.lyrics || undefined);
     return {
       ...existing,
       popularity,
       explicit,
+      explicitSource,
+      contentSeverity,
       lyricsStats: parsed || undefined,
+      sections: parseLyricStructure(input.lyrics),
       fingerprint: this.buildFingerprint(input.title || "", input.artist || ""),
       lyricsHash: computeLyricsHash(input.lyrics || undefined),
+      normalizedTitle: normalizeTitle(input.title || ""),
+      lyricsSignature,
+      lyricsBands: computeSignatureBands(lyricsSignature),
     };
   }
 }